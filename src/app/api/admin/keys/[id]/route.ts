@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/access";
+import { revokeApiKey } from "@/lib/api-keys";
+import { errorJson, errorResponse } from "@/lib/api-route";
+
+const ROUTE = "/api/admin/keys/[id]";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Revokes a key; requests using it get 401 from then on. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await authorizeAdmin(request);
+    const { id } = await params;
+    const key = await revokeApiKey(id);
+    if (!key) {
+      return errorJson(404, {
+        error: "API key not found",
+        code: "not_found",
+        retryable: false,
+      });
+    }
+    return NextResponse.json({ key });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
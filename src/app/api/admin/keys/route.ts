@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/access";
+import { API_SCOPES, createApiKey, listApiKeys } from "@/lib/api-keys";
+import { errorResponse } from "@/lib/api-route";
+import { ValidationError } from "@/lib/errors";
+import { listUsage } from "@/lib/usage";
+import { DEFAULT_USER_ID } from "@/lib/user";
+import {
+  array,
+  enumOf,
+  number,
+  object,
+  optional,
+  parse,
+  string,
+} from "@/lib/schema";
+
+const ROUTE = "/api/admin/keys";
+
+const CreateKeySchema = object({
+  name: string({ maxLength: 100 }),
+  userId: optional(string({ pattern: /^[\w.@-]{1,128}$/ })),
+  scopes: optional(array(enumOf(API_SCOPES))),
+  rateLimit: optional(number({ min: 1, integer: true })),
+  dailyQuota: optional(number({ min: 1, integer: true })),
+  monthlyQuota: optional(number({ min: 1, integer: true })),
+});
+
+/** Every key with its usage, plus the usage of anonymous requests. */
+export async function GET(request: NextRequest) {
+  try {
+    await authorizeAdmin(request);
+    const [keys, usage] = await Promise.all([listApiKeys(), listUsage()]);
+    const bySubject = new Map(usage.map((u) => [u.subject, u]));
+    return NextResponse.json({
+      keys: keys.map((key) => ({
+        ...key,
+        usage: bySubject.get(`key:${key.id}`) ?? null,
+      })),
+      anonymous: bySubject.get("anonymous") ?? null,
+    });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
+
+/** Issues a key. The response holds the secret, which is not shown again. */
+export async function POST(request: NextRequest) {
+  try {
+    await authorizeAdmin(request);
+    const body = await request.json().catch(() => null);
+    const input = parse(CreateKeySchema, body);
+    if ("error" in input) throw new ValidationError(input.error);
+
+    const { value } = input;
+    const { key, secret } = await createApiKey({
+      ...value,
+      userId: value.userId ?? DEFAULT_USER_ID,
+      scopes: value.scopes ?? ["detect"],
+    });
+    return NextResponse.json({ key, secret }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listInferences } from "@/lib/inference-service";
+import { exportDetections, isExportFormat } from "@/lib/exporters";
+import { errorJson, errorResponse } from "@/lib/api-route";
+import { resolveUserId } from "@/lib/access";
+
+const ROUTE = "/api/export";
+
+/**
+ * Bulk export of stored inferences. Exports the whole history unless `ids`
+ * (comma-separated) narrows it down.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get("format");
+    if (!isExportFormat(format)) {
+      return errorJson(400, {
+        error: "format must be one of coco, voc, yolo, csv",
+        code: "invalid_request",
+        retryable: false,
+      });
+    }
+
+    const ids = searchParams.get("ids")?.split(",").filter(Boolean);
+    const inferences = await listInferences(await resolveUserId(request), ids);
+    if (inferences.length === 0) {
+      return errorJson(404, {
+        error: "No inferences to export",
+        code: "not_found",
+        retryable: false,
+      });
+    }
+
+    const file = exportDetections(
+      inferences.map((inference) => ({
+        filename: inference.originalFilename,
+        width: inference.imageWidth,
+        height: inference.imageHeight,
+        detections: inference.detectionResults,
+      })),
+      format,
+      "history"
+    );
+
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInferenceImage } from "@/lib/inference-service";
+import { DetectionError, InferenceHistoryError } from "@/lib/errors";
+import { resolveUserId } from "@/lib/access";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { image, format } = await getInferenceImage(
+      id,
+      await resolveUserId(request)
+    );
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        "Content-Type": `image/${format}`,
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof InferenceHistoryError ||
+      error instanceof DetectionError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteInference,
+  getInferenceById,
+  updateInferenceDetections,
+} from "@/lib/inference-service";
+import { errorResponse } from "@/lib/api-route";
+import { ValidationError } from "@/lib/errors";
+import { DetectionSchema } from "@/lib/contract";
+import { array, object, parse } from "@/lib/schema";
+import { resolveUserId } from "@/lib/access";
+
+const ROUTE = "/api/inferences/[id]";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await getInferenceById(id, await resolveUserId(request));
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const patch = parse(
+      object({ detectionResults: array(DetectionSchema) }),
+      body
+    );
+    if ("error" in patch) {
+      throw new ValidationError(patch.error);
+    }
+
+    const result = await updateInferenceDetections(
+      id,
+      await resolveUserId(request),
+      patch.value.detectionResults
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteInference(id, await resolveUserId(request));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getInferenceHistory } from "@/lib/inference-service";
+import { errorResponse } from "@/lib/api-route";
+import { resolveUserId } from "@/lib/access";
+
+const ROUTE = "/api/inferences";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = Number(searchParams.get("page") || "1");
+    const limit = Number(searchParams.get("limit") || "20");
+
+    const result = await getInferenceHistory(
+      await resolveUserId(request),
+      page,
+      limit
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
@@ -0,0 +1,2 @@
+// Unversioned alias of `/api/v1/jobs/:id`, like `/api/detect`.
+export { GET } from "../../v1/jobs/[id]/route";
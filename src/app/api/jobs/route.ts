@@ -0,0 +1,2 @@
+// Unversioned alias of `/api/v1/jobs`, like `/api/detect`.
+export { POST } from "../v1/jobs/route";
@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import { safeEqual } from "@/lib/access";
+import { errorJson } from "@/lib/api-route";
+import { renderMetrics } from "@/lib/metrics";
+
+// Metrics are read from process memory on each scrape, never prerendered.
+export const dynamic = "force-dynamic";
+
+/**
+ * Prometheus scrape endpoint. When `METRICS_TOKEN` is set, scrapers must send
+ * it as `Authorization: Bearer <token>`.
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.METRICS_TOKEN;
+  const presented = request.headers.get("authorization") ?? "";
+  if (token && !safeEqual(presented, `Bearer ${token}`)) {
+    return errorJson(401, {
+      error: "Unauthorized",
+      code: "unauthorized",
+      retryable: false,
+    });
+  }
+
+  return new Response(renderMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
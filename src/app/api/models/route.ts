@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { MODELS } from "@/lib/models";
+import { DEFAULT_MIN_SCORE, MAX_DETECTIONS_LIMIT } from "@/lib/params";
+import { getProvider, listProviders } from "@/lib/providers";
+
+export async function GET() {
+  const available = new Set(listProviders().map((provider) => provider.id));
+
+  return NextResponse.json({
+    models: MODELS.filter((model) => available.has(model.provider)),
+    defaults: {
+      // What requests without a model run on: `DETECTION_PROVIDER` and, for
+      // Hugging Face, `HF_MODEL`.
+      model: getProvider().defaultModel ?? null,
+      minScore: DEFAULT_MIN_SCORE,
+      maxDetectionsLimit: MAX_DETECTIONS_LIMIT,
+    },
+  });
+}
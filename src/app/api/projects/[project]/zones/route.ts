@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-route";
+import { ValidationError } from "@/lib/errors";
+import { getZones, saveZones } from "@/lib/zone-service";
+import { parseZones } from "@/lib/zones";
+import { resolveUserId } from "@/lib/access";
+
+const ROUTE = "/api/projects/[project]/zones";
+
+type RouteContext = { params: Promise<{ project: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { project } = await params;
+    const zones = await getZones(await resolveUserId(request), project);
+    return NextResponse.json({ project, zones });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { project } = await params;
+    const body = await request.json().catch(() => null);
+    const zones = parseZones(body?.zones);
+    if ("error" in zones) throw new ValidationError(zones.error);
+
+    await saveZones(await resolveUserId(request), project, zones);
+    return NextResponse.json({ project, zones });
+  } catch (error) {
+    return errorResponse(error, request, ROUTE);
+  }
+}
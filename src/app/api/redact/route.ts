@@ -0,0 +1,2 @@
+// Unversioned alias of `/api/v1/redact`, like `/api/detect`.
+export { POST } from "../v1/redact/route";
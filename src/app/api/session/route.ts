@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, sessionApiKey, sessionToken } from "@/lib/access";
+import { ApiKey, findApiKey } from "@/lib/api-keys";
+
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// Only what the UI shows; the key's limits stay with the admin API.
+const sessionBody = (key: ApiKey | null) => ({
+  key: key && { name: key.name, prefix: key.prefix, scopes: key.scopes },
+});
+
+/** The key the browser is signed in with, if any. */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(sessionBody(await sessionApiKey(request)));
+}
+
+/** Signs the browser in with `{ apiKey }` via an HttpOnly cookie. */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const secret = typeof body?.apiKey === "string" ? body.apiKey.trim() : "";
+  const key = secret ? await findApiKey(secret) : null;
+  if (!key) {
+    return NextResponse.json(
+      { error: "Invalid or revoked API key" },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json(sessionBody(key));
+  response.cookies.set(SESSION_COOKIE, sessionToken(key), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json(sessionBody(null));
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DetectApiResponse, DetectStreamEvent } from "@/types/detection";
+import { ValidationError } from "@/lib/errors";
+import { inspectImage } from "@/lib/image";
+import { DetectionJob, runDetection } from "@/lib/detection-pipeline";
+import { getZones } from "@/lib/zone-service";
+import { Zone, parseZones } from "@/lib/zones";
+import { API_VERSION, DetectFormSchema } from "@/lib/contract";
+import { flagValue } from "@/lib/schema";
+import { metrics } from "@/lib/metrics";
+import {
+  RequestContext,
+  badRequest,
+  createRequestContext,
+  errorBody,
+  errorJson,
+  readDetectionRequest,
+  recordRequest,
+} from "@/lib/api-route";
+
+const ROUTE = `/api/${API_VERSION}/detect`;
+
+/**
+ * Zones to evaluate: inline `zones` JSON takes precedence over the zones
+ * saved for `project`.
+ */
+async function readZones(
+  formData: FormData,
+  userId: string
+): Promise<Zone[] | { error: string } | null> {
+  const inline = formData.get("zones");
+  if (typeof inline === "string" && inline) {
+    try {
+      return parseZones(JSON.parse(inline));
+    } catch {
+      return { error: "zones must be valid JSON" };
+    }
+  }
+
+  const project = formData.get("project");
+  if (typeof project !== "string" || !project) return null;
+  try {
+    return await getZones(userId, project);
+  } catch (error) {
+    if (error instanceof ValidationError) return { error: error.message };
+    throw error;
+  }
+}
+
+/**
+ * Streams progress events and the final result as NDJSON. Closing the
+ * connection aborts the run, including the upstream provider calls.
+ */
+function streamDetection(
+  job: DetectionJob,
+  requestSignal: AbortSignal,
+  headers: Record<string, string>,
+  context: RequestContext
+) {
+  context.streaming = true;
+  const controller = new AbortController();
+  requestSignal.addEventListener("abort", () => controller.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(streamController) {
+      const send = (event: DetectStreamEvent) => {
+        if (controller.signal.aborted) return;
+        streamController.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      let status = 200;
+      try {
+        const result = await runDetection(job, {
+          signal: controller.signal,
+          onProgress: (progress) => send({ type: "progress", ...progress }),
+          log: context.log,
+        });
+        send({ type: "result", result });
+      } catch (error) {
+        const failure = errorBody(error, context.log);
+        status = failure.status;
+        send({ type: "error", status, ...failure.body });
+      } finally {
+        // 499: the client went away before the run finished.
+        recordRequest(context, controller.signal.aborted ? 499 : status);
+        // Erroring is a no-op when the client already cancelled the stream,
+        // and ends it when only the request was aborted.
+        if (controller.signal.aborted) {
+          streamController.error(controller.signal.reason);
+        } else {
+          streamController.close();
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+async function detect(
+  request: NextRequest,
+  context: RequestContext
+): Promise<Response> {
+  const prepared = await readDetectionRequest(
+    request,
+    DetectFormSchema,
+    context
+  );
+  if (prepared instanceof Response) return prepared;
+  const { access, formData, fields, provider, model, params, tiling } =
+    prepared;
+  const rateLimitHeaders = access.headers;
+
+  try {
+    const image = formData.get("image") as File;
+    const { userId } = access;
+    const zones = await readZones(formData, userId);
+    if (zones && "error" in zones) {
+      return badRequest(zones.error, rateLimitHeaders);
+    }
+
+    const imageBytes = Buffer.from(await image.arrayBuffer());
+    metrics.uploadBytes.observe({}, imageBytes.length);
+    await inspectImage(imageBytes);
+
+    const job: DetectionJob = {
+      image: imageBytes,
+      filename: image.name,
+      userId,
+      provider,
+      model,
+      params,
+      tiling,
+      zones,
+      save: flagValue(fields.save, true),
+      cache: !flagValue(fields.noCache, false),
+    };
+
+    if (flagValue(fields.stream, false)) {
+      return streamDetection(job, request.signal, rateLimitHeaders, context);
+    }
+
+    const result = await runDetection(job, {
+      signal: request.signal,
+      log: context.log,
+    });
+    const response: DetectApiResponse = { success: true, ...result };
+    return NextResponse.json(response, {
+      headers: {
+        ...rateLimitHeaders,
+        "X-Cache": result.cached ? "HIT" : "MISS",
+      },
+    });
+  } catch (error) {
+    const { status, headers, body } = errorBody(error, context.log);
+    return errorJson(status, body, { ...rateLimitHeaders, ...headers });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const context = createRequestContext(request, ROUTE);
+  const response = await detect(request, context);
+  if (!context.streaming) recordRequest(context, response.status);
+  return response;
+}
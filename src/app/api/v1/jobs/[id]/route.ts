@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JobApiResponse } from "@/types/detection";
+import { getJob } from "@/lib/jobs";
+import { authorize } from "@/lib/access";
+import { API_VERSION } from "@/lib/contract";
+import {
+  RequestContext,
+  createRequestContext,
+  errorBody,
+  errorJson,
+  recordRequest,
+} from "@/lib/api-route";
+
+const ROUTE = `/api/${API_VERSION}/jobs/[id]`;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function poll(
+  request: NextRequest,
+  id: string,
+  context: RequestContext
+): Promise<Response> {
+  // Rate limit headers go out with every response after the check passed.
+  let rateLimitHeaders: Record<string, string> = {};
+  try {
+    // Polling counts against the rate limit, not the quotas.
+    const access = await authorize(request, "detect", 0);
+    rateLimitHeaders = access.headers;
+
+    const job = await getJob(id, access.userId);
+    const response: JobApiResponse = { success: true, job };
+    return NextResponse.json(response, {
+      headers: { ...rateLimitHeaders, "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    const { status, headers, body } = errorBody(error, context.log);
+    return errorJson(status, body, { ...rateLimitHeaders, ...headers });
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const context = createRequestContext(request, ROUTE);
+  const response = await poll(request, (await params).id, context);
+  recordRequest(context, response.status);
+  return response;
+}
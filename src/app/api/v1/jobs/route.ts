@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JobApiResponse } from "@/types/detection";
+import { DetectionError } from "@/lib/errors";
+import { inspectImage } from "@/lib/image";
+import { JobInput, MAX_JOB_BYTES, MAX_JOB_IMAGES, createJob } from "@/lib/jobs";
+import { startJobWorker } from "@/lib/job-worker";
+import { chargeQuota } from "@/lib/access";
+import { API_VERSION, JobFormSchema } from "@/lib/contract";
+import { flagValue } from "@/lib/schema";
+import { metrics } from "@/lib/metrics";
+import {
+  RequestContext,
+  badRequest,
+  createRequestContext,
+  errorBody,
+  errorJson,
+  readDetectionRequest,
+  recordRequest,
+} from "@/lib/api-route";
+
+const ROUTE = `/api/${API_VERSION}/jobs`;
+
+/** Checks an upload like `/api/v1/detect` does, naming it in errors. */
+async function readUpload(image: File): Promise<JobInput> {
+  const bytes = Buffer.from(await image.arrayBuffer());
+  metrics.uploadBytes.observe({}, bytes.length);
+  try {
+    const format = await inspectImage(bytes);
+    return { filename: image.name, image: bytes, format };
+  } catch (error) {
+    if (error instanceof DetectionError) {
+      error.message = `${image.name}: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
+async function submit(
+  request: NextRequest,
+  context: RequestContext
+): Promise<Response> {
+  // Quotas are charged per image once the form is read.
+  const prepared = await readDetectionRequest(request, JobFormSchema, context, {
+    cost: 0,
+    maxBytes: MAX_JOB_BYTES,
+    limitName: "jobs",
+  });
+  if (prepared instanceof Response) return prepared;
+  const { access, formData, fields, provider, model, params, tiling } =
+    prepared;
+  const rateLimitHeaders = access.headers;
+
+  try {
+    // Repeated fields: the schema only saw the last value of each.
+    const images = formData.getAll("image");
+    if (images.some((image) => !(image instanceof File))) {
+      return badRequest("image must be a file", rateLimitHeaders);
+    }
+    const urls = formData.getAll("url").map(String).filter(Boolean);
+    const invalidUrl = urls.find(
+      (url) => !/^https?:\/\//i.test(url) || !URL.canParse(url)
+    );
+    if (invalidUrl !== undefined) {
+      return badRequest(
+        `url "${invalidUrl}" must be an http(s) URL`,
+        rateLimitHeaders
+      );
+    }
+    const count = images.length + urls.length;
+    if (count === 0) {
+      return badRequest("Send at least one image or url", rateLimitHeaders);
+    }
+    if (count > MAX_JOB_IMAGES) {
+      return badRequest(
+        `A job takes at most ${MAX_JOB_IMAGES} images, got ${count}`,
+        rateLimitHeaders
+      );
+    }
+
+    const uploads: JobInput[] = [];
+    for (const image of images as File[]) {
+      uploads.push(await readUpload(image));
+    }
+
+    await chargeQuota(access, count);
+
+    const job = await createJob({
+      userId: access.userId,
+      provider: provider.id,
+      model: model?.id ?? null,
+      params,
+      tiling,
+      save: flagValue(fields.save, true),
+      webhookUrl: fields.webhookUrl ?? null,
+      webhookSecret: fields.webhookSecret ?? null,
+      inputs: [...uploads, ...urls.map((url) => ({ url }))],
+    });
+    startJobWorker().wake();
+    context.log.info("job.created", {
+      jobId: job.id,
+      uploads: uploads.length,
+      urls: urls.length,
+      webhook: job.webhook !== null,
+    });
+
+    const response: JobApiResponse = { success: true, job };
+    return NextResponse.json(response, {
+      status: 202,
+      headers: { ...rateLimitHeaders, Location: `${ROUTE}/${job.id}` },
+    });
+  } catch (error) {
+    const { status, headers, body } = errorBody(error, context.log);
+    return errorJson(status, body, { ...rateLimitHeaders, ...headers });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const context = createRequestContext(request, ROUTE);
+  const response = await submit(request, context);
+  recordRequest(context, response.status);
+  return response;
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RedactApiResponse, RedactedRegion } from "@/types/detection";
+import { applyDetectionParams } from "@/lib/params";
+import { applyRedaction, inspectImage } from "@/lib/image";
+import { runDetection } from "@/lib/detection-pipeline";
+import {
+  DEFAULT_REDACTION_COLOR,
+  DEFAULT_REDACTION_PADDING,
+} from "@/lib/redaction";
+import { API_VERSION, DetectionSchema, RedactFormSchema } from "@/lib/contract";
+import { array } from "@/lib/schema";
+import { metrics } from "@/lib/metrics";
+import {
+  RequestContext,
+  badRequest,
+  createRequestContext,
+  errorBody,
+  errorJson,
+  readDetectionRequest,
+  readJsonField,
+  recordRequest,
+} from "@/lib/api-route";
+
+const ROUTE = `/api/${API_VERSION}/redact`;
+
+async function redact(
+  request: NextRequest,
+  context: RequestContext
+): Promise<Response> {
+  const prepared = await readDetectionRequest(
+    request,
+    RedactFormSchema,
+    context
+  );
+  if (prepared instanceof Response) return prepared;
+  const { access, formData, fields, provider, model, params, tiling } =
+    prepared;
+  const rateLimitHeaders = access.headers;
+
+  try {
+    const image = formData.get("image") as File;
+
+    const supplied = readJsonField(
+      "detections",
+      fields.detections,
+      array(DetectionSchema)
+    );
+    if (supplied && "error" in supplied) {
+      return badRequest(supplied.error, rateLimitHeaders);
+    }
+
+    const imageBytes = Buffer.from(await image.arrayBuffer());
+    metrics.uploadBytes.observe({}, imageBytes.length);
+    await inspectImage(imageBytes);
+
+    // The unredacted upload is never stored, so history is always skipped.
+    const detection = supplied
+      ? null
+      : await runDetection(
+          {
+            image: imageBytes,
+            filename: image.name,
+            userId: access.userId,
+            provider,
+            model,
+            params,
+            tiling,
+            zones: null,
+            save: false,
+            cache: true,
+          },
+          { signal: request.signal, log: context.log }
+        );
+    const detections = supplied
+      ? applyDetectionParams(supplied, params)
+      : detection?.detections ?? [];
+
+    const method = fields.method ?? "blur";
+    const padding =
+      fields.padding === undefined
+        ? DEFAULT_REDACTION_PADDING
+        : Number(fields.padding);
+    const redacted = await applyRedaction(
+      imageBytes,
+      detections.map((d) => d.box),
+      { method, padding, color: fields.color ?? DEFAULT_REDACTION_COLOR }
+    );
+
+    const regions = detections.flatMap(
+      ({ label, score, box }, index): RedactedRegion[] => {
+        const region = redacted.regions[index];
+        return region ? [{ label, score, box, region }] : [];
+      }
+    );
+    context.log.info("redact.completed", {
+      method,
+      padding,
+      regions: regions.length,
+      supplied: supplied !== null,
+    });
+
+    const response: RedactApiResponse = {
+      success: true,
+      image: {
+        format: redacted.format,
+        width: redacted.width,
+        height: redacted.height,
+        data: redacted.data.toString("base64"),
+      },
+      method,
+      padding,
+      regions,
+      provider: detection?.provider ?? null,
+      model: detection?.model ?? null,
+      cached: detection?.cached ?? false,
+    };
+    return NextResponse.json(response, { headers: rateLimitHeaders });
+  } catch (error) {
+    const { status, headers, body } = errorBody(error, context.log);
+    return errorJson(status, body, { ...rateLimitHeaders, ...headers });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const context = createRequestContext(request, ROUTE);
+  const response = await redact(request, context);
+  recordRequest(context, response.status);
+  return response;
+}
@@ -0,0 +1,128 @@
+import { NextRequest } from "next/server";
+import { applyDetectionParams } from "@/lib/params";
+import { inspectImage, renderAnnotatedImage } from "@/lib/image";
+import { runDetection } from "@/lib/detection-pipeline";
+import {
+  API_VERSION,
+  DetectionSchema,
+  LabelColorsSchema,
+  RenderFormSchema,
+} from "@/lib/contract";
+import { array } from "@/lib/schema";
+import { metrics } from "@/lib/metrics";
+import {
+  RequestContext,
+  badRequest,
+  createRequestContext,
+  errorBody,
+  errorJson,
+  readDetectionRequest,
+  readJsonField,
+  recordRequest,
+} from "@/lib/api-route";
+
+const ROUTE = `/api/${API_VERSION}/render`;
+
+const optionalNumber = (value: string | undefined) =>
+  value === undefined ? undefined : Number(value);
+
+async function render(
+  request: NextRequest,
+  context: RequestContext
+): Promise<Response> {
+  const prepared = await readDetectionRequest(
+    request,
+    RenderFormSchema,
+    context
+  );
+  if (prepared instanceof Response) return prepared;
+  const { access, formData, fields, provider, model, params, tiling } =
+    prepared;
+  const rateLimitHeaders = access.headers;
+
+  try {
+    const image = formData.get("image") as File;
+
+    const supplied = readJsonField(
+      "detections",
+      fields.detections,
+      array(DetectionSchema)
+    );
+    if (supplied && "error" in supplied) {
+      return badRequest(supplied.error, rateLimitHeaders);
+    }
+
+    const colors = readJsonField("colors", fields.colors, LabelColorsSchema);
+    if (colors && "error" in colors) {
+      return badRequest(colors.error, rateLimitHeaders);
+    }
+
+    const imageBytes = Buffer.from(await image.arrayBuffer());
+    metrics.uploadBytes.observe({}, imageBytes.length);
+    await inspectImage(imageBytes);
+
+    const detection = supplied
+      ? null
+      : await runDetection(
+          {
+            image: imageBytes,
+            filename: image.name,
+            userId: access.userId,
+            provider,
+            model,
+            params,
+            tiling,
+            zones: null,
+            save: false,
+            cache: true,
+          },
+          { signal: request.signal, log: context.log }
+        );
+    const detections = supplied
+      ? applyDetectionParams(supplied, params)
+      : detection?.detections ?? [];
+
+    const format = fields.format ?? "png";
+    const rendered = await renderAnnotatedImage(
+      imageBytes,
+      detections,
+      {
+        lineWidth: optionalNumber(fields.lineWidth),
+        padding: optionalNumber(fields.padding),
+        fontSize: optionalNumber(fields.fontSize),
+        colors: colors ?? undefined,
+      },
+      format
+    );
+    context.log.info("render.completed", {
+      format,
+      width: rendered.width,
+      height: rendered.height,
+      detections: detections.length,
+      supplied: supplied !== null,
+    });
+
+    const name = (image.name || "image").replace(/\.[^.]+$/, "");
+    return new Response(new Uint8Array(rendered.data), {
+      headers: {
+        ...rateLimitHeaders,
+        "Content-Type": `image/${format}`,
+        "Content-Disposition": `inline; filename="${encodeURIComponent(
+          name
+        )}-annotated.${format}"`,
+        "X-Detection-Count": String(detections.length),
+        ...(detection ? { "X-Cache": detection.cached ? "HIT" : "MISS" } : {}),
+      },
+    });
+  } catch (error) {
+    const { status, headers, body } = errorBody(error, context.log);
+    return errorJson(status, body, { ...rateLimitHeaders, ...headers });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const context = createRequestContext(request, ROUTE);
+  const response = await render(request, context);
+  recordRequest(context, response.status);
+  return response;
+}
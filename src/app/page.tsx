@@ -1,27 +1,99 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import ImageUpload from "@/components/ImageUpload";
 import ObjectDetectionResults from "@/components/ObjectDetectionResults";
+import BatchGallery from "@/components/BatchGallery";
+import HistorySidebar from "@/components/HistorySidebar";
+import VideoDetection from "@/components/VideoDetection";
+import DetectProgressBar from "@/components/DetectProgressBar";
+import ApiKeySession from "@/components/ApiKeySession";
+import EvaluationPanel from "@/components/EvaluationPanel";
+import ComparePanel from "@/components/ComparePanel";
+import { useDetectionQueue } from "@/hooks/useDetectionQueue";
+import { DetectionSettingsValue } from "@/lib/detectClient";
+import { InferenceHistoryItem } from "@/types/inference";
 import { DetectionResult } from "@/types/detection";
+import { DEFAULT_PROJECT } from "@/lib/zones";
+
+type Mode = "images" | "video" | "evaluate" | "compare";
 
 export default function Home() {
-  const [detectionResults, setDetectionResults] = useState<DetectionResult[]>(
-    []
+  const [mode, setMode] = useState<Mode>("images");
+  const [project, setProject] = useState(DEFAULT_PROJECT);
+  const [concurrency, setConcurrency] = useState(2);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyItem, setHistoryItem] = useState<InferenceHistoryItem | null>(
+    null
   );
-  const [originalImage, setOriginalImage] = useState<string>("");
-  const [isLoading, setIsLoading] = useState(false);
+  const [saveError, setSaveError] = useState("");
+  const queue = useDetectionQueue({ concurrency });
+
+  const selected = queue.items.find((item) => item.id === selectedId);
+  // The selected item when it is still running, else the first running one.
+  const running =
+    selected?.status === "running"
+      ? selected
+      : queue.items.find((item) => item.status === "running");
+  const doneCount = queue.items.filter((item) => item.status === "done").length;
+
+  // Open the first finished result automatically when nothing is selected.
+  useEffect(() => {
+    if (selected) return;
+    const firstDone = queue.items.find((item) => item.status === "done");
+    setSelectedId(firstDone ? firstDone.id : null);
+  }, [queue.items, selected]);
 
-  const handleDetectionComplete = (
-    results: DetectionResult[],
-    imageUrl: string
+  const handleSubmit = (files: File[], settings: DetectionSettingsValue) => {
+    const ids = queue.enqueue(files, settings);
+    if (files.length === 1) {
+      setSelectedId(ids[0]);
+      setHistoryItem(null);
+    }
+  };
+
+  // Corrections are kept in page state for exports and saved to history.
+  const saveCorrections = (
+    inferenceId: string | null,
+    detectionResults: DetectionResult[]
   ) => {
-    setDetectionResults(results);
-    setOriginalImage(imageUrl);
+    if (!inferenceId) return;
+    fetch(`/api/inferences/${inferenceId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ detectionResults }),
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || `HTTP ${response.status}`);
+        }
+        setSaveError("");
+      })
+      .catch((error: Error) =>
+        setSaveError(`Corrections were not saved: ${error.message}`)
+      );
   };
 
-  const handleLoadingChange = (loading: boolean) => {
-    setIsLoading(loading);
+  const handleQueueResultsChange = (results: DetectionResult[]) => {
+    if (!selected?.result) return;
+    queue.updateDetections(selected.id, results);
+    saveCorrections(selected.result.inferenceId, results);
+  };
+
+  const handleHistoryResultsChange = (results: DetectionResult[]) => {
+    if (!historyItem) return;
+    setHistoryItem({
+      ...historyItem,
+      detectionResults: results,
+      detectionCount: results.length,
+    });
+    saveCorrections(historyItem.id, results);
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setHistoryItem(null);
   };
 
   return (
@@ -34,35 +106,137 @@ export default function Home() {
           <p className="text-lg text-gray-600 dark:text-gray-300">
             Upload an image to detect objects using AI-powered detection
           </p>
+          <div className="mt-4">
+            <ApiKeySession />
+          </div>
         </div>
 
-        <div className="max-w-4xl mx-auto">
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
-            <ImageUpload
-              onDetectionComplete={handleDetectionComplete}
-              onLoadingChange={handleLoadingChange}
+        <div className="max-w-7xl mx-auto flex flex-col lg:flex-row gap-6 items-start">
+          <aside className="w-full lg:w-72 shrink-0 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4 lg:sticky lg:top-8">
+            <HistorySidebar
+              selectedId={historyItem?.id ?? null}
+              refreshKey={doneCount}
+              onOpen={(inference) => {
+                setHistoryItem(inference);
+                setMode("images");
+              }}
+              onDeleted={(id) => historyItem?.id === id && setHistoryItem(null)}
             />
-          </div>
+          </aside>
 
-          {isLoading && (
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
-              <div className="flex items-center justify-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                <span className="ml-3 text-gray-600 dark:text-gray-300">
-                  Processing image...
-                </span>
-              </div>
-            </div>
-          )}
-
-          {detectionResults.length > 0 && originalImage && (
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
-              <ObjectDetectionResults
-                results={detectionResults}
-                originalImage={originalImage}
-              />
+          <main className="flex-1 min-w-0">
+            <div className="flex gap-2 mb-4">
+              {(["images", "video", "evaluate", "compare"] as const).map(
+                (m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`px-4 py-2 rounded-lg font-medium capitalize transition-colors ${
+                      mode === m
+                        ? "bg-blue-600 text-white"
+                        : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    {m}
+                  </button>
+                )
+              )}
             </div>
-          )}
+
+            {mode === "evaluate" ? (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                <EvaluationPanel />
+              </div>
+            ) : mode === "compare" ? (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                <ComparePanel />
+              </div>
+            ) : mode === "video" ? (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                <VideoDetection
+                  project={project}
+                  onProjectChange={setProject}
+                />
+              </div>
+            ) : (
+              <>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+                  <ImageUpload onSubmit={handleSubmit} />
+                </div>
+
+                {queue.items.length > 0 && (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+                    <BatchGallery
+                      items={queue.items}
+                      selectedId={historyItem ? null : selectedId}
+                      concurrency={concurrency}
+                      onConcurrencyChange={setConcurrency}
+                      onSelect={handleSelect}
+                      onCancel={queue.cancel}
+                      onCancelAll={queue.cancelAll}
+                      onRetry={queue.retry}
+                      onRemove={queue.remove}
+                      onClearFinished={queue.clearFinished}
+                    />
+                  </div>
+                )}
+
+                {running && !selected?.result && (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+                    <div className="flex items-center gap-4">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 shrink-0"></div>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          Processing {running.file.name}
+                        </p>
+                        <DetectProgressBar progress={running.progress} />
+                      </div>
+                      <button
+                        onClick={() => queue.cancel(running.id)}
+                        className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {saveError && (
+                  <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+                    {saveError}
+                  </p>
+                )}
+
+                {historyItem ? (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                    <ObjectDetectionResults
+                      results={historyItem.detectionResults}
+                      originalImage={historyItem.imageUrl}
+                      scoreThreshold={0}
+                      filename={historyItem.originalFilename}
+                      onResultsChange={handleHistoryResultsChange}
+                      project={project}
+                      onProjectChange={setProject}
+                    />
+                  </div>
+                ) : (
+                  selected?.result && (
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                      <ObjectDetectionResults
+                        results={selected.result.detections}
+                        originalImage={selected.previewUrl}
+                        scoreThreshold={selected.settings.minScore}
+                        filename={selected.file.name}
+                        onResultsChange={handleQueueResultsChange}
+                        project={project}
+                        onProjectChange={setProject}
+                      />
+                    </div>
+                  )
+                )}
+              </>
+            )}
+          </main>
         </div>
       </div>
     </div>
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { KeyRound, LogOut } from "lucide-react";
+
+type SessionKey = { name: string; prefix: string; scopes: string[] };
+
+/**
+ * Signs the browser in with an API key. The key is exchanged for an HttpOnly
+ * session cookie, so detect requests from this page count against its
+ * limits without the key being kept in the page.
+ */
+export default function ApiKeySession() {
+  const [key, setKey] = useState<SessionKey | null>(null);
+  const [input, setInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/session")
+      .then((response) => response.json())
+      .then((body) => setKey(body.key))
+      .catch(() => setKey(null));
+  }, []);
+
+  const signIn = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey: input }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Sign in failed");
+      setKey(body.key);
+      setInput("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/session", { method: "DELETE" }).catch(() => undefined);
+    setKey(null);
+  };
+
+  if (key) {
+    return (
+      <div className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+        <KeyRound className="h-4 w-4" />
+        <span>
+          {key.name} <span className="font-mono">({key.prefix}…)</span>
+        </span>
+        <button
+          onClick={signOut}
+          title="Sign out"
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          <LogOut className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="inline-flex flex-wrap items-center justify-center gap-2 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (input.trim()) signIn();
+      }}
+    >
+      <KeyRound className="h-4 w-4 text-gray-500" />
+      <input
+        type="password"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder="API key (optional)"
+        autoComplete="off"
+        className="w-56 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-gray-900 dark:text-white"
+      />
+      <button
+        type="submit"
+        disabled={busy || !input.trim()}
+        className="px-3 py-1 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+      >
+        Use key
+      </button>
+      {error && <span className="w-full text-red-600">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { RotateCw, Trash2, X } from "lucide-react";
+import { QueueItem, QueueStatus } from "@/hooks/useDetectionQueue";
+import ExportButtons from "./ExportButtons";
+import DetectProgressBar from "./DetectProgressBar";
+
+interface BatchGalleryProps {
+  items: QueueItem[];
+  selectedId: string | null;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onSelect: (id: string) => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusStyles: Record<QueueStatus, string> = {
+  queued: "bg-gray-200 text-gray-700",
+  running: "bg-blue-100 text-blue-700",
+  retrying: "bg-yellow-100 text-yellow-800",
+  done: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+export default function BatchGallery({
+  items,
+  selectedId,
+  concurrency,
+  onConcurrencyChange,
+  onSelect,
+  onCancel,
+  onCancelAll,
+  onRetry,
+  onRemove,
+  onClearFinished,
+}: BatchGalleryProps) {
+  const counts = items.reduce<Partial<Record<QueueStatus, number>>>(
+    (acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }),
+    {}
+  );
+  const pending =
+    (counts.queued || 0) + (counts.running || 0) + (counts.retrying || 0);
+
+  const exportImages = () =>
+    items.flatMap((item) =>
+      item.result
+        ? [
+            {
+              filename: item.file.name,
+              width: item.result.image.original.width,
+              height: item.result.image.original.height,
+              detections: item.result.detections,
+            },
+          ]
+        : []
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            Images
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {counts.done || 0} of {items.length} done
+            {pending > 0 && `, ${pending} in progress`}
+            {counts.failed ? `, ${counts.failed} failed` : ""}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            Parallel
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={concurrency}
+              onChange={(e) =>
+                onConcurrencyChange(
+                  Math.min(8, Math.max(1, Number(e.target.value) || 1))
+                )
+              }
+              className="w-16 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-gray-900 dark:text-white"
+            />
+          </label>
+          {pending > 0 && (
+            <button
+              onClick={onCancelAll}
+              className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              Cancel all
+            </button>
+          )}
+          <button
+            onClick={onClearFinished}
+            className="px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            Clear finished
+          </button>
+        </div>
+      </div>
+
+      {counts.done ? (
+        <ExportButtons name="batch" getImages={exportImages} />
+      ) : null}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+        {items.map((item) => {
+          const active =
+            item.status === "queued" ||
+            item.status === "running" ||
+            item.status === "retrying";
+
+          return (
+            <div
+              key={item.id}
+              onClick={() => item.status === "done" && onSelect(item.id)}
+              className={`relative rounded-lg overflow-hidden border-2 transition-colors ${
+                item.id === selectedId
+                  ? "border-blue-600"
+                  : "border-transparent hover:border-gray-300 dark:hover:border-gray-600"
+              } ${item.status === "done" ? "cursor-pointer" : ""}`}
+            >
+              <img
+                src={item.previewUrl}
+                alt={item.file.name}
+                className="h-32 w-full object-cover bg-gray-100 dark:bg-gray-700"
+              />
+              <div className="p-2 bg-gray-50 dark:bg-gray-700 space-y-1">
+                <p
+                  className="text-xs truncate text-gray-900 dark:text-white"
+                  title={item.file.name}
+                >
+                  {item.file.name}
+                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${
+                      statusStyles[item.status]
+                    }`}
+                    title={item.error}
+                  >
+                    {item.status}
+                    {item.status === "done" &&
+                      item.result &&
+                      ` · ${item.result.detections.length}`}
+                  </span>
+                  <div className="flex gap-1">
+                    {active && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onCancel(item.id);
+                        }}
+                        title="Cancel"
+                        className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                    {(item.status === "failed" ||
+                      item.status === "cancelled") && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRetry(item.id);
+                        }}
+                        title="Retry"
+                        className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </button>
+                    )}
+                    {!active && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRemove(item.id);
+                        }}
+                        title="Remove"
+                        className="p-1 text-gray-500 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {item.status === "running" && (
+                  <DetectProgressBar progress={item.progress} compact />
+                )}
+                {item.error && item.status !== "done" && (
+                  <p className="text-xs text-red-600 dark:text-red-400 truncate">
+                    {item.error}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { FileDown } from "lucide-react";
+import { labelColor } from "@/lib/colors";
+import { downloadExport } from "@/lib/download";
+import { ClassStats, exportClassStats } from "@/lib/stats";
+
+interface ClassSummaryProps {
+  stats: ClassStats[];
+  /** Base name for the exported summary file. */
+  name?: string;
+}
+
+export default function ClassSummary({ stats, name }: ClassSummaryProps) {
+  if (stats.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Summary</h3>
+        <div className="flex gap-2">
+          {(["csv", "json"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() =>
+                downloadExport(exportClassStats(stats, format, name))
+              }
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <FileDown className="h-4 w-4" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <table className="w-full text-sm text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="py-1 font-medium">Class</th>
+            <th className="py-1 font-medium text-right">Count</th>
+            <th className="py-1 font-medium text-right">Mean confidence</th>
+            <th className="py-1 font-medium text-right">Covered area</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-900 dark:text-white">
+          {stats.map((s) => (
+            <tr
+              key={s.label}
+              className="border-t border-gray-100 dark:border-gray-700"
+            >
+              <td className="py-1">
+                <span className="inline-flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 rounded-sm"
+                    style={{ backgroundColor: labelColor(s.label) }}
+                  />
+                  {s.label}
+                </span>
+              </td>
+              <td className="py-1 text-right">{s.count}</td>
+              <td className="py-1 text-right">
+                {Math.round(s.meanScore * 100)}%
+              </td>
+              <td className="py-1 text-right">
+                {Math.round(s.totalArea).toLocaleString()} px² (
+                {(s.areaFraction * 100).toFixed(1)}%)
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
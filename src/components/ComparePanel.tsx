@@ -0,0 +1,475 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Columns2, Layers, Play, Plus, X } from "lucide-react";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionSettingsValue,
+  detectImage,
+} from "@/lib/detectClient";
+import { ModelInfo } from "@/lib/models";
+import { trackColor } from "@/lib/colors";
+import { compareDetections } from "@/lib/compare";
+import { DetectResponse } from "@/types/detection";
+import DetectionsCanvas from "./DetectionsCanvas";
+
+const MAX_RUNS = 4;
+const PANE_WIDTH = 480;
+const OVERLAY_WIDTH = 800;
+
+type Run =
+  | { status: "running" }
+  | { status: "done"; response: DetectResponse; latencyMs: number }
+  | { status: "failed"; error: string };
+
+type View = "side-by-side" | "overlay";
+
+const runName = (index: number) => String.fromCharCode(65 + index);
+
+// Same palette as tracks, so each run keeps one color in every view.
+const runColor = (index: number) => trackColor(index);
+
+export default function ComparePanel() {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [configs, setConfigs] = useState<DetectionSettingsValue[]>([
+    DEFAULT_DETECTION_SETTINGS,
+    DEFAULT_DETECTION_SETTINGS,
+  ]);
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [runs, setRuns] = useState<Run[]>([]);
+  // The configs of the last comparison, which may since have been edited.
+  const [compared, setCompared] = useState<DetectionSettingsValue[]>([]);
+  const [view, setView] = useState<View>("side-by-side");
+  const [hidden, setHidden] = useState<number[]>([]);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  // Start by comparing the first two models of the catalog.
+  useEffect(() => {
+    fetch("/api/models")
+      .then((response) => response.json())
+      .then((data) => {
+        const catalog: ModelInfo[] = data.models;
+        setModels(catalog);
+        setConfigs((current) =>
+          current.map((config, i) => ({
+            ...config,
+            model: config.model || catalog[i]?.id || catalog[0]?.id || "",
+          }))
+        );
+      })
+      .catch(() => setModels([]));
+  }, []);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const updateConfig = (
+    index: number,
+    patch: Partial<DetectionSettingsValue>
+  ) =>
+    setConfigs((current) =>
+      current.map((config, i) =>
+        i === index ? { ...config, ...patch } : config
+      )
+    );
+
+  const run = () => {
+    if (!file) return;
+    setRuns(configs.map(() => ({ status: "running" })));
+    setCompared(configs);
+    setHidden([]);
+    setHovered(null);
+
+    // All configs at once; the cache is skipped so latencies are real.
+    configs.forEach(async (config, index) => {
+      const start = performance.now();
+      let result: Run;
+      try {
+        const response = await detectImage(file, config, {
+          save: false,
+          cache: false,
+        });
+        result = {
+          status: "done",
+          response,
+          latencyMs: Math.round(performance.now() - start),
+        };
+      } catch (error) {
+        result = { status: "failed", error: (error as Error).message };
+      }
+      setRuns((current) => current.map((r, i) => (i === index ? result : r)));
+    });
+  };
+
+  const finished = runs.every((r) => r.status !== "running");
+  const detections = useMemo(
+    () => runs.map((r) => (r.status === "done" ? r.response.detections : [])),
+    [runs]
+  );
+  // Matched once every run has settled, so rows don't reshuffle mid-run.
+  const objects = useMemo(
+    () => (finished && runs.length > 0 ? compareDetections(detections) : []),
+    [detections, finished, runs.length]
+  );
+  const original = runs.find(
+    (r): r is Extract<Run, { status: "done" }> => r.status === "done"
+  )?.response.image.original;
+
+  const sizeFor = (width: number) =>
+    original && {
+      width: Math.min(width, original.width),
+      height:
+        (Math.min(width, original.width) * original.height) / original.width,
+    };
+
+  const foundBy = (members: (number | null)[]) =>
+    members.flatMap((m, i) => (m === null ? [] : [i]));
+  const uniqueCount = (run: number) =>
+    objects.filter((o) => {
+      const by = foundBy(o.members);
+      return by.length === 1 && by[0] === run;
+    }).length;
+  const rows = onlyDifferences
+    ? objects.filter((o) => foundBy(o.members).length < runs.length)
+    : objects;
+
+  // Overlay: visible runs' detections concatenated, remembering the origin.
+  const overlay = runs.flatMap((r, run) =>
+    hidden.includes(run)
+      ? []
+      : detections[run].map((detection, index) => ({ detection, run, index }))
+  );
+  const overlayHighlight =
+    hovered === null
+      ? null
+      : overlay.findIndex(
+          ({ run, index }) => objects[hovered]?.members[run] === index
+        );
+
+  const hoverFrom = (run: number, index: number | null) =>
+    setHovered(
+      index === null ? null : objects.findIndex((o) => o.members[run] === index)
+    );
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">
+          Compare models
+        </h2>
+        <p className="text-gray-600 dark:text-gray-300">
+          Runs one image through several models or settings at once. Boxes with
+          the same label and an IoU of at least 0.5 count as the same object.
+          Results are not saved to history.
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp,image/tiff,image/avif"
+        onChange={(e) => {
+          setFile(e.target.files?.[0] ?? null);
+          setRuns([]);
+        }}
+        className="text-gray-700 dark:text-gray-300"
+      />
+
+      <div className="space-y-2">
+        {configs.map((config, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-3">
+            <span
+              className="inline-flex h-6 w-6 items-center justify-center rounded font-semibold text-white"
+              style={{ backgroundColor: runColor(index) }}
+            >
+              {runName(index)}
+            </span>
+            <select
+              value={config.model}
+              onChange={(e) => updateConfig(index, { model: e.target.value })}
+              className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-gray-900 dark:text-white"
+            >
+              {models.map((model) => (
+                <option key={model.id} value={model.id}>
+                  {model.name}
+                </option>
+              ))}
+            </select>
+            <label className="inline-flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              Min score {Math.round(config.minScore * 100)}%
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={config.minScore}
+                onChange={(e) =>
+                  updateConfig(index, { minScore: Number(e.target.value) })
+                }
+              />
+            </label>
+            <label className="inline-flex items-center gap-1 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={config.tiling}
+                onChange={(e) =>
+                  updateConfig(index, { tiling: e.target.checked })
+                }
+              />
+              Tiled
+            </label>
+            {configs.length > 2 && (
+              <button
+                onClick={() =>
+                  setConfigs((current) => current.filter((_, i) => i !== index))
+                }
+                title="Remove"
+                className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-2">
+          {configs.length < MAX_RUNS && (
+            <button
+              onClick={() =>
+                setConfigs((current) => [
+                  ...current,
+                  current[current.length - 1],
+                ])
+              }
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Plus className="h-4 w-4" />
+              Add configuration
+            </button>
+          )}
+          <button
+            onClick={run}
+            disabled={!file || !finished}
+            className="inline-flex items-center gap-1 px-3 py-1 rounded-lg bg-blue-600 text-white font-medium disabled:opacity-50"
+          >
+            <Play className="h-4 w-4" />
+            Compare
+          </button>
+        </div>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {runs.map((r, index) => (
+            <div
+              key={index}
+              className="rounded-lg border-l-4 bg-gray-50 dark:bg-gray-700 p-3 text-gray-700 dark:text-gray-300"
+              style={{ borderColor: runColor(index) }}
+            >
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {runName(index)}:{" "}
+                {models.find((m) => m.id === compared[index].model)?.name ??
+                  compared[index].model}
+              </div>
+              {r.status === "running" && <div>Running…</div>}
+              {r.status === "failed" && (
+                <div className="text-red-600">{r.error}</div>
+              )}
+              {r.status === "done" && (
+                <div>
+                  {r.latencyMs} ms · {r.response.detections.length} boxes
+                  {finished && ` · ${uniqueCount(index)} only here`}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {finished && original && previewUrl && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {(
+              [
+                ["side-by-side", "Side by side", Columns2],
+                ["overlay", "Overlay", Layers],
+              ] as const
+            ).map(([id, label, Icon]) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={`inline-flex items-center gap-1 px-3 py-1 rounded-lg ${
+                  view === id
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                {label}
+              </button>
+            ))}
+            {view === "overlay" &&
+              runs.map((_, run) => (
+                <label
+                  key={run}
+                  className="inline-flex items-center gap-1 ml-2 text-gray-700 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!hidden.includes(run)}
+                    onChange={(e) =>
+                      setHidden((current) =>
+                        e.target.checked
+                          ? current.filter((r) => r !== run)
+                          : [...current, run]
+                      )
+                    }
+                  />
+                  <span style={{ color: runColor(run) }}>{runName(run)}</span>
+                </label>
+              ))}
+          </div>
+
+          {view === "side-by-side" ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {runs.map((r, run) => {
+                const size = sizeFor(PANE_WIDTH);
+                return (
+                  r.status === "done" &&
+                  size && (
+                    <div key={run} className="space-y-1">
+                      <div
+                        className="font-medium"
+                        style={{ color: runColor(run) }}
+                      >
+                        {runName(run)}
+                      </div>
+                      <DetectionsCanvas
+                        imageUrl={previewUrl}
+                        naturalWidth={original.width}
+                        naturalHeight={original.height}
+                        displayWidth={size.width}
+                        displayHeight={size.height}
+                        detections={detections[run]}
+                        scoreThreshold={0}
+                        highlightedIndex={
+                          hovered === null
+                            ? null
+                            : objects[hovered]?.members[run] ?? null
+                        }
+                        onHover={(index) => hoverFrom(run, index)}
+                      />
+                    </div>
+                  )
+                );
+              })}
+            </div>
+          ) : (
+            (() => {
+              const size = sizeFor(OVERLAY_WIDTH);
+              return (
+                size && (
+                  <DetectionsCanvas
+                    imageUrl={previewUrl}
+                    naturalWidth={original.width}
+                    naturalHeight={original.height}
+                    displayWidth={size.width}
+                    displayHeight={size.height}
+                    detections={overlay.map((o) => o.detection)}
+                    boxColors={overlay.map((o) => runColor(o.run))}
+                    scoreThreshold={0}
+                    highlightedIndex={
+                      overlayHighlight === -1 ? null : overlayHighlight
+                    }
+                    onHover={(index) =>
+                      index === null
+                        ? setHovered(null)
+                        : hoverFrom(overlay[index].run, overlay[index].index)
+                    }
+                  />
+                )
+              );
+            })()
+          )}
+
+          <div className="overflow-x-auto">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-gray-900 dark:text-white">
+                Objects ({objects.length})
+              </h3>
+              <label className="inline-flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={(e) => setOnlyDifferences(e.target.checked)}
+                />
+                Only differences
+              </label>
+            </div>
+            <table className="w-full text-left text-gray-700 dark:text-gray-300">
+              <thead className="text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Label</th>
+                  {runs.map((_, run) => (
+                    <th
+                      key={run}
+                      className="py-1 pr-3 font-medium"
+                      style={{ color: runColor(run) }}
+                    >
+                      {runName(run)}
+                    </th>
+                  ))}
+                  <th className="py-1 pr-3 font-medium">Min IoU</th>
+                  <th className="py-1 font-medium">Found by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((object) => {
+                  const index = objects.indexOf(object);
+                  const by = foundBy(object.members);
+                  return (
+                    <tr
+                      key={index}
+                      onMouseEnter={() => setHovered(index)}
+                      onMouseLeave={() => setHovered(null)}
+                      className={`border-t border-gray-200 dark:border-gray-700 ${
+                        hovered === index ? "bg-blue-50 dark:bg-gray-700" : ""
+                      }`}
+                    >
+                      <td className="py-1 pr-3 font-medium">{object.label}</td>
+                      {object.members.map((member, run) => (
+                        <td key={run} className="py-1 pr-3">
+                          {member === null
+                            ? "–"
+                            : `${Math.round(
+                                detections[run][member].score * 100
+                              )}%`}
+                        </td>
+                      ))}
+                      <td className="py-1 pr-3">
+                        {object.minIou === null
+                          ? "–"
+                          : object.minIou.toFixed(2)}
+                      </td>
+                      <td className="py-1">
+                        {by.length === runs.length
+                          ? "All"
+                          : by.length === 1
+                          ? `Only ${runName(by[0])}`
+                          : by.map(runName).join(", ")}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
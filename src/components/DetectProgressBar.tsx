@@ -0,0 +1,65 @@
+"use client";
+
+import { DetectProgress, DetectStage } from "@/types/detection";
+
+const STAGE_LABELS: Record<DetectStage, string> = {
+  received: "Uploaded",
+  resized: "Image prepared",
+  detecting: "Running model",
+  tiles: "Scanning tiles",
+  done: "Finishing",
+};
+
+/** Rough share of the work done when each stage starts. */
+const STAGE_PERCENT: Record<DetectStage, number> = {
+  received: 10,
+  resized: 25,
+  detecting: 40,
+  tiles: 40,
+  done: 100,
+};
+
+function percentOf(progress?: DetectProgress) {
+  if (!progress) return 5;
+  if (progress.stage === "tiles" && progress.total) {
+    return 40 + (55 * (progress.completed ?? 0)) / progress.total;
+  }
+  return STAGE_PERCENT[progress.stage];
+}
+
+interface DetectProgressBarProps {
+  progress?: DetectProgress;
+  compact?: boolean;
+}
+
+export default function DetectProgressBar({
+  progress,
+  compact = false,
+}: DetectProgressBarProps) {
+  const label = progress ? STAGE_LABELS[progress.stage] : "Uploading";
+  const tiles =
+    progress?.stage === "tiles" && progress.total
+      ? ` ${progress.completed ?? 0}/${progress.total}`
+      : "";
+  const found = progress?.detections
+    ? ` · ${progress.detections.length} found so far`
+    : "";
+
+  return (
+    <div className="space-y-1 w-full">
+      <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+        <div
+          className="h-full bg-blue-600 transition-all duration-300"
+          style={{ width: `${percentOf(progress)}%` }}
+        />
+      </div>
+      {!compact && (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {label}
+          {tiles}
+          {found}
+        </p>
+      )}
+    </div>
+  );
+}
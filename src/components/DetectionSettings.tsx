@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ModelInfo } from "@/lib/models";
+import { MAX_DETECTIONS_LIMIT } from "@/lib/params";
+import { DetectionSettingsValue } from "@/lib/detectClient";
+
+interface DetectionSettingsProps {
+  value: DetectionSettingsValue;
+  onChange: (value: DetectionSettingsValue) => void;
+}
+
+export default function DetectionSettings({
+  value,
+  onChange,
+}: DetectionSettingsProps) {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | null>(null);
+
+  // Without a choice the model is left out of requests, so the server's
+  // default applies; it is only shown here.
+  useEffect(() => {
+    fetch("/api/models")
+      .then((response) => response.json())
+      .then((data) => {
+        setModels(data.models);
+        setDefaultModel(data.defaults?.model ?? null);
+      })
+      .catch(() => setModels([]));
+  }, []);
+
+  const selected = models.find(
+    (model) => model.id === (value.model || defaultModel)
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-left text-sm">
+      <label className="flex flex-col gap-1">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Model
+        </span>
+        <select
+          value={value.model}
+          onChange={(e) => onChange({ ...value, model: e.target.value })}
+          className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-white"
+        >
+          <option value="">
+            Server default
+            {selected && !value.model ? ` (${selected.name})` : ""}
+          </option>
+          {models.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {selected.description}
+          </span>
+        )}
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Minimum score: {Math.round(value.minScore * 100)}%
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={value.minScore}
+          onChange={(e) =>
+            onChange({ ...value, minScore: Number(e.target.value) })
+          }
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Max detections
+        </span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_DETECTIONS_LIMIT}
+          placeholder="No limit"
+          value={value.maxDetections}
+          onChange={(e) =>
+            onChange({ ...value, maxDetections: e.target.value })
+          }
+          className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-white"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Only these labels
+        </span>
+        <input
+          type="text"
+          placeholder="e.g. person, car"
+          value={value.labels}
+          onChange={(e) => onChange({ ...value, labels: e.target.value })}
+          className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-white"
+        />
+      </label>
+
+      <label className="flex items-center gap-2 md:col-span-2">
+        <input
+          type="checkbox"
+          checked={value.tiling}
+          onChange={(e) => onChange({ ...value, tiling: e.target.checked })}
+        />
+        <span className="text-gray-700 dark:text-gray-300">
+          Tiled inference (slower, finds small objects in large images)
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -1,24 +1,80 @@
 "use client";
 
 import React, {
+  useCallback,
   useEffect,
   useRef,
   useImperativeHandle,
   forwardRef,
 } from "react";
-import { Detection } from "@/lib/types";
-import { scaleDetections } from "@/lib/boxes";
+import { BBox, Detection, Point } from "@/lib/types";
+import {
+  BoxCorner,
+  OPPOSITE_CORNER,
+  boxArea,
+  boxCorners,
+  clampBox,
+  containsPoint,
+  scaleDetections,
+  translateBox,
+  unscaleBox,
+} from "@/lib/boxes";
+import {
+  GROUND_TRUTH_COLOR,
+  MATCH_COLORS,
+  labelColor,
+  textColorFor,
+  trackColor,
+  withAlpha,
+} from "@/lib/colors";
+import { Annotation, ImageMatch } from "@/lib/evaluation";
+import { placeLabels } from "@/lib/labelLayout";
+import { TrailPoint } from "@/lib/tracker";
+import { DEFAULT_MIN_SCORE } from "@/lib/params";
+import { Zone, ZoneKind, ZoneResult } from "@/lib/zones";
 
 type Props = {
-  imageUrl: string;
+  /** Omit to draw boxes only, e.g. as an overlay on a playing video. */
+  imageUrl?: string;
   naturalWidth: number;
   naturalHeight: number;
   displayWidth: number;
   displayHeight: number;
-  detections: Detection[];
+  /** Boxes with a `trackId` are colored by track instead of by label. */
+  detections: (Detection & { trackId?: number })[];
+  /** Per detection color, overriding track and label colors. */
+  boxColors?: string[];
+  /** Recent box centers per track id, in natural coordinates. */
+  trails?: Map<number, TrailPoint[]>;
   scoreThreshold?: number;
+  /** Labels filtered out of the view; emphasized boxes are still drawn. */
+  hiddenLabels?: string[];
   lineWidth?: number;
   padding?: number;
+  /** Enables selecting, moving, resizing, deleting and drawing boxes. */
+  editable?: boolean;
+  /** Index of the selected box; drawn emphasized, with handles when editing. */
+  selectedIndex?: number | null;
+  onSelect?: (index: number | null) => void;
+  /** Index of the box to emphasize, e.g. while its result card is hovered. */
+  highlightedIndex?: number | null;
+  onHover?: (index: number | null) => void;
+  /** Called once per finished edit with boxes in natural coordinates. */
+  onDetectionsChange?: (detections: Detection[]) => void;
+  /** Label given to boxes drawn in edit mode. */
+  newLabel?: string;
+  zones?: Zone[];
+  /** Counts shown next to each zone's name. */
+  zoneResults?: ZoneResult[];
+  /** While set, clicks add points for a new zone instead of picking boxes. */
+  drawZone?: ZoneKind | null;
+  /** Called with the finished zone's points, normalized to 0-1. */
+  onZoneDrawn?: (kind: ZoneKind, points: Point[]) => void;
+  /**
+   * Draws ground truth as dashed boxes and colors `detections` by outcome:
+   * true positives, false positives and missed ground truth.
+   */
+  evaluation?: { groundTruth: Annotation[]; match: ImageMatch };
 };
 
 export type DetectionsCanvasHandle = {
@@ -27,6 +83,18 @@ export type DetectionsCanvasHandle = {
   clear: () => void;
 };
 
+type Drag =
+  | { kind: "move"; index: number; startX: number; startY: number; box: BBox }
+  | { kind: "resize"; index: number; anchor: [number, number]; box: BBox }
+  | { kind: "create"; anchor: [number, number]; box: BBox };
+
+const HANDLE_SIZE = 8;
+const MIN_BOX_SIZE = 4;
+const NO_LABELS: string[] = [];
+const NO_ZONES: Zone[] = [];
+/** Clicking within this many pixels of the first point closes a polygon. */
+const CLOSE_DISTANCE = 10;
+
 const DetectionsCanvas = forwardRef<DetectionsCanvasHandle, Props>(
   function DetectionsCanvas(
     {
@@ -36,77 +104,554 @@ const DetectionsCanvas = forwardRef<DetectionsCanvasHandle, Props>(
       displayWidth,
       displayHeight,
       detections,
-      scoreThreshold = 0.5,
+      boxColors,
+      trails,
+      scoreThreshold = DEFAULT_MIN_SCORE,
+      hiddenLabels = NO_LABELS,
       lineWidth = 2,
       padding = 4,
+      editable = false,
+      selectedIndex = null,
+      onSelect,
+      highlightedIndex = null,
+      onHover,
+      onDetectionsChange,
+      newLabel = "object",
+      zones = NO_ZONES,
+      zoneResults,
+      drawZone = null,
+      onZoneDrawn,
+      evaluation,
     },
     ref
   ) {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const imgRef = useRef<HTMLImageElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
+    const dragRef = useRef<Drag | null>(null);
+    // Display-space points of the zone being drawn, plus the pointer position.
+    const zoneDraftRef = useRef<{ points: Point[]; pointer: Point | null }>({
+      points: [],
+      pointer: null,
+    });
+
+    // Display-space boxes, indexed like `detections`, with any in-progress
+    // drag applied so the canvas follows the pointer.
+    const displayBoxes = useCallback(() => {
+      const scaled = scaleDetections(
+        detections,
+        naturalWidth,
+        naturalHeight,
+        displayWidth,
+        displayHeight
+      );
+      const drag = dragRef.current;
+      if (drag && drag.kind !== "create") {
+        scaled[drag.index] = { ...scaled[drag.index], box: drag.box };
+      }
+      return scaled;
+    }, [detections, naturalWidth, naturalHeight, displayWidth, displayHeight]);
+
+    const isEmphasized = useCallback(
+      (index: number) => index === selectedIndex || index === highlightedIndex,
+      [selectedIndex, highlightedIndex]
+    );
+
+    const isVisible = useCallback(
+      (d: Detection, index: number) =>
+        (d.score >= scoreThreshold && !hiddenLabels.includes(d.label)) ||
+        isEmphasized(index),
+      [scoreThreshold, hiddenLabels, isEmphasized]
+    );
+
+    // Matched ground truth is a faint outline under its prediction; missed
+    // boxes stand out with their label.
+    const drawGroundTruth = useCallback(
+      (ctx: CanvasRenderingContext2D) => {
+        if (!evaluation) return;
+        const sx = displayWidth / naturalWidth;
+        const sy = displayHeight / naturalHeight;
+
+        ctx.font = "13px Arial";
+        ctx.textBaseline = "middle";
+        ctx.setLineDash([6, 4]);
+        evaluation.groundTruth.forEach(({ label, box }, index) => {
+          const missed = !evaluation.match.matched[index];
+          const color = missed ? MATCH_COLORS.fn : GROUND_TRUTH_COLOR;
+          const x = box.xmin * sx;
+          const y = box.ymin * sy;
+          ctx.strokeStyle = color;
+          ctx.lineWidth = missed ? lineWidth : 1;
+          ctx.strokeRect(
+            x,
+            y,
+            (box.xmax - box.xmin) * sx,
+            (box.ymax - box.ymin) * sy
+          );
+
+          if (missed) {
+            const text = `${label} (missed)`;
+            const width = ctx.measureText(text).width + padding * 2;
+            ctx.fillStyle = withAlpha(color, 0.85);
+            ctx.fillRect(x, y, width, 18);
+            ctx.fillStyle = textColorFor(color);
+            ctx.fillText(text, x + padding, y + 9);
+          }
+        });
+        ctx.setLineDash([]);
+      },
+      [
+        evaluation,
+        naturalWidth,
+        naturalHeight,
+        displayWidth,
+        displayHeight,
+        lineWidth,
+        padding,
+      ]
+    );
+
+    const drawZones = useCallback(
+      (ctx: CanvasRenderingContext2D) => {
+        const toDisplay = ([x, y]: Point): Point => [
+          x * displayWidth,
+          y * displayHeight,
+        ];
+        const tracePath = (points: Point[], close: boolean) => {
+          ctx.beginPath();
+          points.forEach(([x, y], i) =>
+            i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)
+          );
+          if (close) ctx.closePath();
+        };
+
+        ctx.font = "13px Arial";
+        ctx.textBaseline = "middle";
+        zones.forEach((zone) => {
+          const color = labelColor(zone.id);
+          const points = zone.points.map(toDisplay);
+
+          tracePath(points, zone.kind === "polygon");
+          if (zone.kind === "polygon") {
+            ctx.fillStyle = withAlpha(color, 0.15);
+            ctx.fill();
+          }
+          ctx.strokeStyle = color;
+          ctx.lineWidth = zone.kind === "line" ? 3 : 2;
+          ctx.stroke();
+
+          const result = zoneResults?.find((r) => r.zoneId === zone.id);
+          const text = result ? `${zone.name}: ${result.count}` : zone.name;
+          const [x, y] = points[0];
+          const width = ctx.measureText(text).width + padding * 2;
+          const left = Math.max(0, Math.min(x, displayWidth - width));
+          const top = Math.max(0, Math.min(y - 18, displayHeight - 18));
+          ctx.fillStyle = color;
+          ctx.fillRect(left, top, width, 18);
+          ctx.fillStyle = textColorFor(color);
+          ctx.fillText(text, left + padding, top + 9);
+        });
+
+        const { points, pointer } = zoneDraftRef.current;
+        if (drawZone && points.length > 0) {
+          ctx.setLineDash([6, 4]);
+          ctx.strokeStyle = "#3b82f6";
+          ctx.lineWidth = 2;
+          tracePath(pointer ? [...points, pointer] : points, false);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.fillStyle = "#3b82f6";
+          points.forEach(([x, y]) => ctx.fillRect(x - 3, y - 3, 6, 6));
+        }
+      },
+      [zones, zoneResults, drawZone, displayWidth, displayHeight, padding]
+    );
 
-    const draw = () => {
+    const draw = useCallback(() => {
       const canvas = canvasRef.current;
       const img = imgRef.current;
-      if (!canvas || !img) return;
+      if (!canvas || (imageUrl && !img)) return;
 
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-      ctx.drawImage(img, 0, 0, displayWidth, displayHeight);
+      if (img) ctx.drawImage(img, 0, 0, displayWidth, displayHeight);
 
-      const scaled = scaleDetections(
-        detections,
-        naturalWidth,
-        naturalHeight,
+      drawZones(ctx);
+      drawGroundTruth(ctx);
+
+      const boxes = displayBoxes();
+      const anyEmphasized = boxes.some((_, index) => isEmphasized(index));
+      // Emphasized boxes paint last so they sit on top, and claim label
+      // positions first; the rest follow by descending score.
+      const order = boxes
+        .map((_, index) => index)
+        .filter((index) => isVisible(boxes[index], index))
+        .sort(
+          (a, b) =>
+            Number(isEmphasized(b)) - Number(isEmphasized(a)) ||
+            boxes[b].score - boxes[a].score
+        );
+
+      ctx.font = "14px Arial";
+      ctx.textBaseline = "middle";
+      const labelHeight = 20;
+      const colors = detections.map((d, index) => {
+        const kind = evaluation?.match.predictions[index];
+        if (kind) return MATCH_COLORS[kind];
+        if (boxColors?.[index]) return boxColors[index];
+        return d.trackId !== undefined
+          ? trackColor(d.trackId)
+          : labelColor(d.label);
+      });
+      const texts = detections.map(
+        (d) =>
+          `${d.trackId !== undefined ? `#${d.trackId} ` : ""}${
+            d.label
+          } (${Math.round(d.score * 100)}%)`
+      );
+
+      if (trails) {
+        const sx = displayWidth / naturalWidth;
+        const sy = displayHeight / naturalHeight;
+        ctx.lineWidth = 2;
+        trails.forEach((points, trackId) => {
+          if (points.length < 2) return;
+          ctx.strokeStyle = withAlpha(trackColor(trackId), 0.8);
+          ctx.beginPath();
+          points.forEach(([x, y], i) =>
+            i === 0 ? ctx.moveTo(x * sx, y * sy) : ctx.lineTo(x * sx, y * sy)
+          );
+          ctx.stroke();
+        });
+      }
+      const labelRects = placeLabels(
+        boxes.map((d) => d.box),
+        texts.map((text) => ({
+          width: ctx.measureText(text).width + padding * 2,
+          height: labelHeight,
+        })),
         displayWidth,
-        displayHeight
-      ).filter((d) => d.score >= scoreThreshold);
+        displayHeight,
+        order
+      );
 
-      scaled.forEach((detection) => {
-        const { xmin, ymin, xmax, ymax } = detection.box;
+      [...order].reverse().forEach((index) => {
+        const { box } = boxes[index];
+        const { xmin, ymin, xmax, ymax } = box;
+        const color = colors[index];
+        const emphasized = isEmphasized(index);
 
-        ctx.strokeStyle = "#00ff00";
-        ctx.lineWidth = lineWidth;
-        ctx.strokeRect(xmin, ymin, xmax - xmin, ymax - ymin);
+        ctx.globalAlpha = anyEmphasized && !emphasized ? 0.35 : 1;
 
-        const label = `${detection.label} (${Math.round(
-          detection.score * 100
-        )}%)`;
-        const labelWidth = ctx.measureText(label).width;
-        const labelHeight = 20;
+        if (emphasized) {
+          ctx.fillStyle = withAlpha(color, 0.2);
+          ctx.fillRect(xmin, ymin, xmax - xmin, ymax - ymin);
+        }
+        ctx.strokeStyle = color;
+        ctx.lineWidth = emphasized ? lineWidth + 2 : lineWidth;
+        ctx.strokeRect(xmin, ymin, xmax - xmin, ymax - ymin);
 
-        ctx.fillStyle = "rgba(0, 255, 0, 0.8)";
+        const rect = labelRects[index];
+        ctx.fillStyle = withAlpha(color, 0.85);
         ctx.fillRect(
-          xmin,
-          ymin - labelHeight - padding,
-          labelWidth + padding * 2,
-          labelHeight
+          rect.xmin,
+          rect.ymin,
+          rect.xmax - rect.xmin,
+          rect.ymax - rect.ymin
+        );
+        ctx.fillStyle = textColorFor(color);
+        ctx.fillText(
+          texts[index],
+          rect.xmin + padding,
+          rect.ymin + labelHeight / 2
         );
 
-        ctx.fillStyle = "white";
-        ctx.font = "14px Arial";
-        ctx.fillText(label, xmin + padding, ymin - padding);
+        if (editable && index === selectedIndex) {
+          ctx.fillStyle = "white";
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 2;
+          Object.values(boxCorners(box)).forEach(([x, y]) => {
+            ctx.fillRect(
+              x - HANDLE_SIZE / 2,
+              y - HANDLE_SIZE / 2,
+              HANDLE_SIZE,
+              HANDLE_SIZE
+            );
+            ctx.strokeRect(
+              x - HANDLE_SIZE / 2,
+              y - HANDLE_SIZE / 2,
+              HANDLE_SIZE,
+              HANDLE_SIZE
+            );
+          });
+        }
       });
-    };
+      ctx.globalAlpha = 1;
 
-    useEffect(() => {
-      draw();
+      const drag = dragRef.current;
+      if (drag?.kind === "create") {
+        const { xmin, ymin, xmax, ymax } = drag.box;
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = labelColor(newLabel);
+        ctx.lineWidth = lineWidth;
+        ctx.strokeRect(xmin, ymin, xmax - xmin, ymax - ymin);
+        ctx.setLineDash([]);
+      }
     }, [
-      detections,
       imageUrl,
-      naturalWidth,
-      naturalHeight,
       displayWidth,
       displayHeight,
-      scoreThreshold,
+      naturalWidth,
+      naturalHeight,
+      detections,
+      boxColors,
+      trails,
       lineWidth,
       padding,
+      editable,
+      selectedIndex,
+      newLabel,
+      evaluation,
+      displayBoxes,
+      isEmphasized,
+      isVisible,
+      drawZones,
+      drawGroundTruth,
     ]);
 
+    // Runs before the redraw below, which `drawZone` also triggers.
+    useEffect(() => {
+      zoneDraftRef.current = { points: [], pointer: null };
+    }, [drawZone]);
+
+    const finishZone = (points: Point[]) => {
+      zoneDraftRef.current = { points: [], pointer: null };
+      if (!drawZone) return;
+      onZoneDrawn?.(
+        drawZone,
+        points.map(([x, y]) => [
+          Math.min(1, Math.max(0, x / displayWidth)),
+          Math.min(1, Math.max(0, y / displayHeight)),
+        ])
+      );
+    };
+
+    const addZonePoint = (x: number, y: number) => {
+      const { points } = zoneDraftRef.current;
+      if (drawZone === "line" && points.length === 1) {
+        finishZone([points[0], [x, y]]);
+      } else if (
+        drawZone === "polygon" &&
+        points.length >= 3 &&
+        Math.hypot(points[0][0] - x, points[0][1] - y) <= CLOSE_DISTANCE
+      ) {
+        finishZone(points);
+      } else {
+        zoneDraftRef.current = { points: [...points, [x, y]], pointer: null };
+      }
+      draw();
+    };
+
+    useEffect(() => {
+      draw();
+    }, [draw]);
+
+    const pointerPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      return {
+        x: ((e.clientX - rect.left) * displayWidth) / rect.width,
+        y: ((e.clientY - rect.top) * displayHeight) / rect.height,
+      };
+    };
+
+    // Selected box handles first, then the smallest box under the pointer so
+    // nested boxes stay reachable.
+    const hitTest = (x: number, y: number) => {
+      const boxes = displayBoxes();
+
+      if (editable && selectedIndex !== null && boxes[selectedIndex]) {
+        const corners = boxCorners(boxes[selectedIndex].box);
+        const corner = (Object.keys(corners) as BoxCorner[]).find((key) => {
+          const [cx, cy] = corners[key];
+          return (
+            Math.abs(cx - x) <= HANDLE_SIZE && Math.abs(cy - y) <= HANDLE_SIZE
+          );
+        });
+        if (corner) return { index: selectedIndex, corner };
+      }
+
+      let hit: number | null = null;
+      boxes.forEach((d, index) => {
+        if (!isVisible(d, index) || !containsPoint(d.box, x, y)) return;
+        if (hit === null || boxArea(d.box) < boxArea(boxes[hit].box)) {
+          hit = index;
+        }
+      });
+      return hit === null ? null : { index: hit as number };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const { x, y } = pointerPosition(e);
+      if (drawZone) {
+        e.currentTarget.focus();
+        addZonePoint(x, y);
+        return;
+      }
+
+      const hit = hitTest(x, y);
+      if (!editable) {
+        onSelect?.(hit ? hit.index : null);
+        return;
+      }
+
+      e.currentTarget.setPointerCapture(e.pointerId);
+      e.currentTarget.focus();
+      const boxes = displayBoxes();
+
+      if (hit && "corner" in hit && hit.corner) {
+        const box = boxes[hit.index].box;
+        dragRef.current = {
+          kind: "resize",
+          index: hit.index,
+          anchor: boxCorners(box)[OPPOSITE_CORNER[hit.corner]],
+          box,
+        };
+      } else if (hit) {
+        onSelect?.(hit.index);
+        dragRef.current = {
+          kind: "move",
+          index: hit.index,
+          startX: x,
+          startY: y,
+          box: boxes[hit.index].box,
+        };
+      } else {
+        onSelect?.(null);
+        dragRef.current = {
+          kind: "create",
+          anchor: [x, y],
+          box: { xmin: x, ymin: y, xmax: x, ymax: y },
+        };
+      }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current;
+      const { x, y } = pointerPosition(e);
+      if (drawZone) {
+        zoneDraftRef.current.pointer = [x, y];
+        draw();
+        return;
+      }
+      if (!drag) {
+        const hit = hitTest(x, y);
+        const index = hit ? hit.index : null;
+        if (index !== highlightedIndex) onHover?.(index);
+        return;
+      }
+
+      if (drag.kind === "move") {
+        const original = scaleDetections(
+          [detections[drag.index]],
+          naturalWidth,
+          naturalHeight,
+          displayWidth,
+          displayHeight
+        )[0].box;
+        const w = original.xmax - original.xmin;
+        const h = original.ymax - original.ymin;
+        const dx = Math.min(
+          Math.max(x - drag.startX, -original.xmin),
+          displayWidth - w - original.xmin
+        );
+        const dy = Math.min(
+          Math.max(y - drag.startY, -original.ymin),
+          displayHeight - h - original.ymin
+        );
+        drag.box = translateBox(original, dx, dy);
+      } else {
+        // Resizing and drawing both span from a fixed anchor to the pointer;
+        // clampBox keeps min/max ordered when the pointer crosses the anchor.
+        const [ax, ay] = drag.anchor;
+        drag.box = clampBox(
+          { xmin: ax, ymin: ay, xmax: x, ymax: y },
+          displayWidth,
+          displayHeight
+        );
+      }
+      draw();
+    };
+
+    const handlePointerUp = () => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (!drag) return;
+
+      const { xmin, ymin, xmax, ymax } = drag.box;
+      const tooSmall = xmax - xmin < MIN_BOX_SIZE || ymax - ymin < MIN_BOX_SIZE;
+      const box = unscaleBox(
+        drag.box,
+        naturalWidth,
+        naturalHeight,
+        displayWidth,
+        displayHeight
+      );
+
+      if (drag.kind === "create") {
+        if (tooSmall) {
+          draw();
+          return;
+        }
+        onDetectionsChange?.([
+          ...detections,
+          { label: newLabel, score: 1, box },
+        ]);
+        onSelect?.(detections.length);
+        return;
+      }
+
+      const current = scaleDetections(
+        [detections[drag.index]],
+        naturalWidth,
+        naturalHeight,
+        displayWidth,
+        displayHeight
+      )[0].box;
+      const unchanged =
+        current.xmin === xmin &&
+        current.ymin === ymin &&
+        current.xmax === xmax &&
+        current.ymax === ymax;
+      if (unchanged || tooSmall) {
+        draw();
+        return;
+      }
+
+      onDetectionsChange?.(
+        detections.map((d, index) => (index === drag.index ? { ...d, box } : d))
+      );
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+      if (drawZone && e.key === "Escape") {
+        zoneDraftRef.current = { points: [], pointer: null };
+        draw();
+        return;
+      }
+      if (!editable || selectedIndex === null) return;
+
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        onDetectionsChange?.(detections.filter((_, i) => i !== selectedIndex));
+        onSelect?.(null);
+      } else if (e.key === "Escape") {
+        onSelect?.(null);
+      }
+    };
+
     useImperativeHandle(ref, () => ({
       downloadPNG: (filename = "detections.png") => {
         const canvas = canvasRef.current;
@@ -137,15 +682,38 @@ const DetectionsCanvas = forwardRef<DetectionsCanvasHandle, Props>(
           ref={canvasRef}
           width={displayWidth}
           height={displayHeight}
-          className="border border-gray-300 rounded"
-        />
-        <img
-          ref={imgRef}
-          src={imageUrl}
-          alt="Detection target"
-          style={{ display: "none" }}
-          onLoad={draw}
+          tabIndex={editable || drawZone ? 0 : undefined}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => highlightedIndex !== null && onHover?.(null)}
+          onKeyDown={handleKeyDown}
+          onDoubleClick={() => {
+            // The double click's own clicks already added two points.
+            const { points } = zoneDraftRef.current;
+            if (drawZone === "polygon" && points.length >= 4) {
+              finishZone(points.slice(0, -1));
+              draw();
+            }
+          }}
+          className={`${imageUrl ? "border border-gray-300 rounded" : ""} ${
+            editable || drawZone
+              ? "cursor-crosshair outline-none"
+              : highlightedIndex !== null
+              ? "cursor-pointer"
+              : ""
+          }`}
         />
+        {imageUrl && (
+          <img
+            ref={imgRef}
+            src={imageUrl}
+            alt="Detection target"
+            style={{ display: "none" }}
+            onLoad={draw}
+          />
+        )}
       </div>
     );
   }
@@ -0,0 +1,268 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { AlertCircle, FileText, Images, Play, Square } from "lucide-react";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionSettingsValue,
+  detectImage,
+} from "@/lib/detectClient";
+import { groundTruthFor, readGroundTruth } from "@/lib/annotations";
+import { Annotation, evaluate, matchImage } from "@/lib/evaluation";
+import { GROUND_TRUTH_COLOR, MATCH_COLORS } from "@/lib/colors";
+import { DetectionResult } from "@/types/detection";
+import DetectionSettings from "./DetectionSettings";
+import DetectionsCanvas from "./DetectionsCanvas";
+import EvaluationReport from "./EvaluationReport";
+
+/**
+ * Detections are requested down to this score so AP sees the whole
+ * precision/recall curve; the settings' minimum score only applies to
+ * precision, recall, the confusion matrix and the overlay.
+ */
+const EVALUATION_MIN_SCORE = 0.05;
+
+const MAX_DISPLAY_WIDTH = 800;
+const MAX_DISPLAY_HEIGHT = 600;
+
+type EvaluatedImage = {
+  file: File;
+  previewUrl: string;
+  width: number;
+  height: number;
+  predictions: DetectionResult[];
+  groundTruth: Annotation[];
+};
+
+const LEGEND = [
+  { color: MATCH_COLORS.tp, label: "True positive" },
+  { color: MATCH_COLORS.fp, label: "False positive" },
+  { color: MATCH_COLORS.fn, label: "Missed (false negative)" },
+  { color: GROUND_TRUTH_COLOR, label: "Matched ground truth" },
+];
+
+function displaySize(width: number, height: number) {
+  const scale = Math.min(
+    1,
+    MAX_DISPLAY_WIDTH / width,
+    MAX_DISPLAY_HEIGHT / height
+  );
+  return { width: width * scale, height: height * scale };
+}
+
+export default function EvaluationPanel() {
+  const [settings, setSettings] = useState<DetectionSettingsValue>(
+    DEFAULT_DETECTION_SETTINGS
+  );
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [annotationFiles, setAnnotationFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<EvaluatedImage[]>([]);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number }>();
+  const [selected, setSelected] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const running = progress !== undefined;
+  const minScore = settings.minScore;
+
+  const report = useMemo(
+    () => (results.length > 0 ? evaluate(results, { minScore }) : null),
+    [results, minScore]
+  );
+
+  const current = results[selected];
+  const overlay = useMemo(
+    () =>
+      current && {
+        groundTruth: current.groundTruth,
+        match: matchImage(current, { minScore }),
+      },
+    [current, minScore]
+  );
+
+  const run = async () => {
+    const groundTruth = await readGroundTruth(annotationFiles);
+    if ("error" in groundTruth) {
+      setProblems([groundTruth.error]);
+      return;
+    }
+
+    results.forEach((r) => URL.revokeObjectURL(r.previewUrl));
+    setResults([]);
+    setSelected(0);
+    const found: string[] = [];
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ done: 0, total: imageFiles.length });
+
+    // One image at a time, like a user would, to stay within rate limits.
+    for (const [index, file] of imageFiles.entries()) {
+      if (controller.signal.aborted) break;
+      try {
+        const response = await detectImage(
+          file,
+          { ...settings, minScore: EVALUATION_MIN_SCORE },
+          { signal: controller.signal, save: false }
+        );
+        const { width, height } = response.image.original;
+        const annotations = groundTruthFor(
+          groundTruth,
+          file.name,
+          width,
+          height
+        );
+        if (annotations === null) {
+          found.push(`${file.name}: no annotations, skipped`);
+        } else {
+          const evaluated: EvaluatedImage = {
+            file,
+            previewUrl: URL.createObjectURL(file),
+            width,
+            height,
+            predictions: response.detections,
+            groundTruth: annotations,
+          };
+          setResults((previous) => [...previous, evaluated]);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        found.push(`${file.name}: ${(error as Error).message}`);
+      }
+      setProgress({ done: index + 1, total: imageFiles.length });
+    }
+
+    setProblems(found);
+    setProgress(undefined);
+    controllerRef.current = null;
+  };
+
+  const size = current && displaySize(current.width, current.height);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">
+          Evaluate a model
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Upload images with ground truth as one COCO JSON file, or YOLO label
+          files named like the images plus an optional classes.txt. Results are
+          not saved to history.
+        </p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4 text-sm">
+        <label className="flex items-center gap-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-4 cursor-pointer text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+          <Images className="h-5 w-5 shrink-0" />
+          {imageFiles.length > 0
+            ? `${imageFiles.length} images`
+            : "Choose images"}
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp,image/tiff,image/avif"
+            multiple
+            className="hidden"
+            onChange={(e) => setImageFiles(Array.from(e.target.files ?? []))}
+          />
+        </label>
+        <label className="flex items-center gap-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-4 cursor-pointer text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+          <FileText className="h-5 w-5 shrink-0" />
+          {annotationFiles.length > 0
+            ? `${annotationFiles.length} annotation files`
+            : "Choose annotations (.json or .txt)"}
+          <input
+            type="file"
+            accept=".json,.txt"
+            multiple
+            className="hidden"
+            onChange={(e) =>
+              setAnnotationFiles(Array.from(e.target.files ?? []))
+            }
+          />
+        </label>
+      </div>
+
+      <DetectionSettings value={settings} onChange={setSettings} />
+
+      <div className="flex items-center gap-3">
+        {running ? (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <Square className="h-4 w-4" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={run}
+            disabled={imageFiles.length === 0 || annotationFiles.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium disabled:opacity-50"
+          >
+            <Play className="h-4 w-4" />
+            Run evaluation
+          </button>
+        )}
+        {progress && (
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {progress.done}/{progress.total} images
+          </span>
+        )}
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="rounded-lg bg-red-50 dark:bg-red-900/30 p-3 text-sm text-red-700 dark:text-red-300 space-y-1">
+          {problems.map((problem) => (
+            <li key={problem} className="flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              {problem}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report && <EvaluationReport report={report} images={results.length} />}
+
+      {current && size && overlay && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {results.map((result, index) => (
+              <button
+                key={result.previewUrl}
+                onClick={() => setSelected(index)}
+                className={`px-2 py-1 rounded text-sm ${
+                  index === selected
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                }`}
+              >
+                {result.file.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-300">
+            {LEGEND.map(({ color, label }) => (
+              <span key={label} className="inline-flex items-center gap-1">
+                <span
+                  className="inline-block h-3 w-3 rounded-sm"
+                  style={{ backgroundColor: color }}
+                />
+                {label}
+              </span>
+            ))}
+          </div>
+          <DetectionsCanvas
+            imageUrl={current.previewUrl}
+            naturalWidth={current.width}
+            naturalHeight={current.height}
+            displayWidth={size.width}
+            displayHeight={size.height}
+            detections={current.predictions}
+            scoreThreshold={minScore}
+            evaluation={overlay}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
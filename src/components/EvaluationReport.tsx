@@ -0,0 +1,137 @@
+"use client";
+
+import { EvaluationReport as Report } from "@/lib/evaluation";
+
+const percent = (value: number | null) =>
+  value === null ? "–" : `${(value * 100).toFixed(1)}%`;
+
+interface EvaluationReportProps {
+  report: Report;
+  images: number;
+}
+
+export default function EvaluationReport({
+  report,
+  images,
+}: EvaluationReportProps) {
+  const { confusion } = report;
+  const maxCount = Math.max(1, ...confusion.counts.flat());
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          ["mAP@0.5", percent(report.map50)],
+          ["mAP@[.5:.95]", percent(report.map)],
+          ["Images", String(images)],
+          ["Score threshold", percent(report.minScore)],
+        ].map(([label, value]) => (
+          <div
+            key={label}
+            className="rounded-lg bg-gray-50 dark:bg-gray-700 p-3 text-center"
+          >
+            <div className="text-xl font-semibold text-gray-900 dark:text-white">
+              {value}
+            </div>
+            <div className="text-gray-500 dark:text-gray-400">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-2">
+          Per class (IoU {report.iouThreshold})
+        </h3>
+        <table className="w-full text-left text-gray-700 dark:text-gray-300">
+          <thead className="text-gray-500 dark:text-gray-400">
+            <tr>
+              {[
+                "Class",
+                "GT",
+                "TP",
+                "FP",
+                "FN",
+                "Precision",
+                "Recall",
+                "AP@0.5",
+                "AP@[.5:.95]",
+              ].map((h) => (
+                <th key={h} className="py-1 pr-3 font-medium">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.classes.map((c) => (
+              <tr
+                key={c.label}
+                className="border-t border-gray-200 dark:border-gray-700"
+              >
+                <td className="py-1 pr-3 font-medium">{c.label}</td>
+                <td className="py-1 pr-3">{c.groundTruth}</td>
+                <td className="py-1 pr-3">{c.truePositives}</td>
+                <td className="py-1 pr-3">{c.falsePositives}</td>
+                <td className="py-1 pr-3">{c.falseNegatives}</td>
+                <td className="py-1 pr-3">{percent(c.precision)}</td>
+                <td className="py-1 pr-3">{percent(c.recall)}</td>
+                <td className="py-1 pr-3">{percent(c.ap50)}</td>
+                <td className="py-1 pr-3">{percent(c.ap)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto">
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">
+          Confusion matrix
+        </h3>
+        <p className="text-gray-500 dark:text-gray-400 mb-2">
+          Rows are ground truth, columns predictions. The background row holds
+          false positives, the background column missed objects.
+        </p>
+        <table className="text-center text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr>
+              <th />
+              {confusion.labels.map((label) => (
+                <th
+                  key={label}
+                  className="px-2 py-1 font-medium text-gray-500 dark:text-gray-400"
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {confusion.counts.map((row, i) => (
+              <tr key={confusion.labels[i]}>
+                <th className="px-2 py-1 text-right font-medium text-gray-500 dark:text-gray-400">
+                  {confusion.labels[i]}
+                </th>
+                {row.map((count, j) => (
+                  <td
+                    key={j}
+                    className="px-2 py-1 border border-gray-200 dark:border-gray-700"
+                    style={{
+                      backgroundColor:
+                        count > 0
+                          ? `rgba(${i === j ? "34,197,94" : "239,68,68"}, ${
+                              0.15 + (0.6 * count) / maxCount
+                            })`
+                          : undefined,
+                    }}
+                  >
+                    {count}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
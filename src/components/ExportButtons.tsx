@@ -0,0 +1,43 @@
+"use client";
+
+import { FileDown } from "lucide-react";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportImage,
+  exportDetections,
+} from "@/lib/exporters";
+import { downloadExport } from "@/lib/download";
+
+interface ExportButtonsProps {
+  /** Called on click so the export always reflects the latest detections. */
+  getImages: () => ExportImage[];
+  name?: string;
+  disabled?: boolean;
+}
+
+export default function ExportButtons({
+  getImages,
+  name,
+  disabled,
+}: ExportButtonsProps) {
+  const handleExport = (format: ExportFormat) => {
+    downloadExport(exportDetections(getImages(), format, name));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      {EXPORT_FORMATS.map((format) => (
+        <button
+          key={format.id}
+          onClick={() => handleExport(format.id)}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          <FileDown className="h-4 w-4" />
+          {format.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, FileDown, Trash2 } from "lucide-react";
+import { EXPORT_FORMATS } from "@/lib/exporters";
+import {
+  InferenceHistoryItem,
+  InferenceHistoryResponse,
+  PaginationInfo,
+} from "@/types/inference";
+
+interface HistorySidebarProps {
+  selectedId: string | null;
+  /** Bump to reload the current page, e.g. after a new detection. */
+  refreshKey: number;
+  onOpen: (inference: InferenceHistoryItem) => void;
+  onDeleted: (id: string) => void;
+}
+
+const PAGE_SIZE = 10;
+
+export default function HistorySidebar({
+  selectedId,
+  refreshKey,
+  onOpen,
+  onDeleted,
+}: HistorySidebarProps) {
+  const [page, setPage] = useState(1);
+  const [inferences, setInferences] = useState<InferenceHistoryItem[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [error, setError] = useState("");
+  const [checked, setChecked] = useState<string[]>([]);
+
+  const toggleChecked = (id: string) => {
+    setChecked((current) =>
+      current.includes(id) ? current.filter((c) => c !== id) : [...current, id]
+    );
+  };
+
+  // Exports the checked inferences, or the whole history when none are checked.
+  const exportUrl = (format: string) =>
+    `/api/export?format=${format}` +
+    (checked.length > 0 ? `&ids=${checked.join(",")}` : "");
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/inferences?page=${page}&limit=${PAGE_SIZE}`
+      );
+      if (!response.ok) throw new Error("Failed to load history");
+
+      const { data }: InferenceHistoryResponse = await response.json();
+      setInferences(data.inferences);
+      setPagination(data.pagination);
+      setError("");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this inference from history?")) return;
+
+    const response = await fetch(`/api/inferences/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError("Failed to delete inference");
+      return;
+    }
+
+    onDeleted(id);
+    setChecked((current) => current.filter((c) => c !== id));
+    if (inferences.length === 1 && page > 1) {
+      setPage(page - 1);
+    } else {
+      load();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+        History
+      </h2>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {inferences.length === 0 && !error && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Past detections will show up here.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {inferences.map((inference) => (
+          <li
+            key={inference.id}
+            onClick={() => onOpen(inference)}
+            className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
+              inference.id === selectedId
+                ? "bg-blue-50 dark:bg-blue-900/30"
+                : "hover:bg-gray-50 dark:hover:bg-gray-700"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={checked.includes(inference.id)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => toggleChecked(inference.id)}
+              title="Select for export"
+            />
+            <img
+              src={inference.imageUrl}
+              alt={inference.originalFilename}
+              className="h-12 w-12 rounded object-cover bg-gray-100 dark:bg-gray-700"
+            />
+            <div className="flex-1 min-w-0">
+              <p
+                className="text-sm truncate text-gray-900 dark:text-white"
+                title={inference.originalFilename}
+              >
+                {inference.originalFilename}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {inference.detectionCount} object
+                {inference.detectionCount !== 1 ? "s" : ""} ·{" "}
+                {new Date(inference.createdAt).toLocaleString()}
+              </p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(inference.id);
+              }}
+              title="Delete"
+              className="p-1 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {inferences.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Export {checked.length > 0 ? `${checked.length} selected` : "all"}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {EXPORT_FORMATS.map((format) => (
+              <a
+                key={format.id}
+                href={exportUrl(format.id)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <FileDown className="h-3 w-3" />
+                {format.name}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={!pagination.hasPrevious}
+            className="p-1 disabled:opacity-30"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span>
+            Page {pagination.currentPage} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={!pagination.hasNext}
+            className="p-1 disabled:opacity-30"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
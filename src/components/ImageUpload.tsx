@@ -1,21 +1,29 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { Upload, X } from "lucide-react";
-import { DetectionResult } from "@/types/detection";
+import { AlertCircle, Plus, Upload, X } from "lucide-react";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionSettingsValue,
+} from "@/lib/detectClient";
+import { checkImageFile } from "@/lib/image-format";
+import DetectionSettings from "./DetectionSettings";
 
 interface ImageUploadProps {
-  onDetectionComplete: (results: DetectionResult[], imageUrl: string) => void;
-  onLoadingChange: (loading: boolean) => void;
+  onSubmit: (files: File[], settings: DetectionSettingsValue) => void;
 }
 
-export default function ImageUpload({
-  onDetectionComplete,
-  onLoadingChange,
-}: ImageUploadProps) {
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string>("");
+type SelectedImage = { file: File; previewUrl: string };
+
+type RejectedFile = { name: string; reason: string };
+
+export default function ImageUpload({ onSubmit }: ImageUploadProps) {
+  const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
   const [dragActive, setDragActive] = useState(false);
+  const [settings, setSettings] = useState<DetectionSettingsValue>(
+    DEFAULT_DETECTION_SETTINGS
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDrag = (e: React.DragEvent) => {
@@ -33,72 +41,104 @@ export default function ImageUpload({
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
-  const handleFile = (file: File) => {
-    if (file && file.type.startsWith("image/")) {
-      setSelectedImage(file);
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
-    } else {
-      alert("Please select a valid image file.");
-    }
+  const handleFiles = async (files: File[]) => {
+    // Checked by content, not MIME type; the server checks again.
+    const reasons = await Promise.all(
+      files.map((file) => checkImageFile(file))
+    );
+    const images = files.filter((_, i) => !reasons[i]);
+    setRejected(
+      files.flatMap((file, i) => {
+        const reason = reasons[i];
+        return reason ? [{ name: file.name, reason }] : [];
+      })
+    );
+
+    setSelectedImages((current) => [
+      ...current,
+      ...images.map((file) => ({
+        file,
+        previewUrl: URL.createObjectURL(file),
+      })),
+    ]);
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
     }
+    e.target.value = "";
   };
 
-  const removeImage = () => {
-    setSelectedImage(null);
-    setPreviewUrl("");
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+  const removeImage = (index: number) => {
+    setSelectedImages((current) => {
+      URL.revokeObjectURL(current[index].previewUrl);
+      return current.filter((_, i) => i !== index);
+    });
   };
 
-  const detectObjects = async () => {
-    if (!selectedImage) {
-      alert("Please select an image first.");
-      return;
-    }
-
-    onLoadingChange(true);
-
-    try {
-      const formData = new FormData();
-      formData.append("image", selectedImage);
+  const detectObjects = () => {
+    if (selectedImages.length === 0) return;
 
-      const response = await fetch("/api/detect", {
-        method: "POST",
-        body: formData,
-      });
+    onSubmit(
+      selectedImages.map((image) => image.file),
+      settings
+    );
+    selectedImages.forEach((image) => URL.revokeObjectURL(image.previewUrl));
+    setSelectedImages([]);
+  };
 
-      if (!response.ok) {
-        throw new Error("Detection failed");
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      multiple
+      accept="image/jpeg,image/png,image/gif,image/webp,image/tiff,image/avif"
+      onChange={handleFileInput}
+      className={
+        selectedImages.length === 0
+          ? "absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          : "hidden"
       }
+    />
+  );
 
-      const responseData = await response.json();
-
-      const results = responseData.detections || responseData;
-      const processedImage = responseData.processedImage;
-
-      onDetectionComplete(results, processedImage);
-    } catch (error) {
-      alert("Failed to detect objects. Please try again.");
-    } finally {
-      onLoadingChange(false);
-    }
-  };
+  const rejectedList = rejected.length > 0 && (
+    <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+      <div className="flex items-start justify-between gap-2">
+        <p className="flex items-center gap-2 font-medium">
+          <AlertCircle className="h-4 w-4" />
+          {rejected.length === 1
+            ? "1 file was skipped"
+            : `${rejected.length} files were skipped`}
+        </p>
+        <button
+          onClick={() => setRejected([])}
+          title="Dismiss"
+          className="text-red-600 hover:text-red-800 dark:text-red-400"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {rejected.map((file, index) => (
+          <li key={index}>
+            <span className="font-medium">{file.name}</span>: {file.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
 
   return (
     <div className="w-full">
-      {!selectedImage ? (
+      {rejectedList}
+      {selectedImages.length === 0 ? (
         <div
           className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             dragActive
@@ -110,46 +150,67 @@ export default function ImageUpload({
           onDragOver={handleDrag}
           onDrop={handleDrop}
         >
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*,.jpg,.jpeg,.png,.gif,.bmp,.webp,.tiff,.svg"
-            onChange={handleFileInput}
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          />
+          {fileInput}
           <div className="space-y-4">
             <Upload className="mx-auto h-12 w-12 text-gray-400" />
             <div>
               <p className="text-lg font-medium text-gray-900 dark:text-white">
-                Upload an image
+                Upload images
               </p>
               <p className="text-gray-500 dark:text-gray-400">
-                Drag and drop or click to select
+                Drag and drop or click to select one or more
               </p>
               <p className="text-sm text-gray-400 dark:text-gray-500">
-                Supports JPG, PNG, GIF, WebP, TIFF, SVG and more
+                Supports JPG, PNG, GIF, WebP, TIFF and AVIF (first frame of
+                animations)
               </p>
             </div>
           </div>
         </div>
       ) : (
-        <div className="space-y-4">
-          <div className="relative inline-block">
-            <img
-              src={previewUrl}
-              alt="Preview"
-              className="max-h-64 max-w-full rounded-lg shadow-md"
-            />
+        <div
+          className="space-y-4"
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+        >
+          {fileInput}
+          <div className="flex flex-wrap gap-4">
+            {selectedImages.map((image, index) => (
+              <div key={image.previewUrl} className="relative inline-block">
+                <img
+                  src={image.previewUrl}
+                  alt={image.file.name}
+                  title={image.file.name}
+                  className="h-32 max-w-full rounded-lg shadow-md object-cover"
+                />
+                <button
+                  onClick={() => removeImage(index)}
+                  className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 hover:bg-red-600 transition-colors"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
             <button
-              onClick={removeImage}
-              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 hover:bg-red-600 transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+              className={`h-32 w-32 flex flex-col items-center justify-center border-2 border-dashed rounded-lg text-gray-500 dark:text-gray-400 transition-colors ${
+                dragActive
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                  : "border-gray-300 dark:border-gray-600 hover:border-gray-400"
+              }`}
             >
-              <X className="h-4 w-4" />
+              <Plus className="h-6 w-6" />
+              <span className="text-sm">Add images</span>
             </button>
           </div>
+          <DetectionSettings value={settings} onChange={setSettings} />
           <div className="text-center">
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-              {selectedImage.name}
+              {selectedImages.length === 1
+                ? selectedImages[0].file.name
+                : `${selectedImages.length} images selected`}
             </p>
             <button
               onClick={detectObjects}
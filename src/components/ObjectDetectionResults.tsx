@@ -1,18 +1,51 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { EyeOff, Pencil, Redo2, Trash2, Undo2 } from "lucide-react";
 import { DetectionResult } from "@/types/detection";
 import { Detection } from "@/lib/types";
+import { labelColor, withAlpha } from "@/lib/colors";
+import { DEFAULT_MIN_SCORE } from "@/lib/params";
+import { renderAnnotatedImage } from "@/lib/detectClient";
+import { downloadBlob } from "@/lib/download";
+import { SortKey, compareDetections, computeClassStats } from "@/lib/stats";
 import DetectionsCanvas, { DetectionsCanvasHandle } from "./DetectionsCanvas";
+import ExportButtons from "./ExportButtons";
+import ResultFilters from "./ResultFilters";
+import ClassSummary from "./ClassSummary";
+import ZonePanel from "./ZonePanel";
+import RedactionPanel from "./RedactionPanel";
+import { useZones } from "@/hooks/useZones";
+import {
+  DEFAULT_PROJECT,
+  ZoneKind,
+  createZone,
+  evaluateZones,
+} from "@/lib/zones";
+import { useUndoRedo } from "@/hooks/useUndoRedo";
 
 interface ObjectDetectionResultsProps {
   results: DetectionResult[];
   originalImage: string;
+  scoreThreshold?: number;
+  filename?: string;
+  /** Enables the annotation editor; receives every committed correction. */
+  onResultsChange?: (results: DetectionResult[]) => void;
+  /** Project whose zones are shown; the zone panel is hidden without one. */
+  project?: string;
+  onProjectChange?: (project: string) => void;
 }
 
+const noop = () => {};
+
 export default function ObjectDetectionResults({
   results,
   originalImage,
+  scoreThreshold = DEFAULT_MIN_SCORE,
+  filename = "image.jpg",
+  onResultsChange,
+  project,
+  onProjectChange,
 }: ObjectDetectionResultsProps) {
   const [imageDimensions, setImageDimensions] = useState({
     width: 0,
@@ -23,6 +56,126 @@ export default function ObjectDetectionResults({
     height: 0,
   });
   const canvasRef = useRef<DetectionsCanvasHandle>(null);
+  const [editing, setEditing] = useState(false);
+  const [redacting, setRedacting] = useState(false);
+  const [rendering, setRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [threshold, setThreshold] = useState(scoreThreshold);
+  const [hiddenLabels, setHiddenLabels] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("score");
+  const [grouped, setGrouped] = useState(false);
+  const history = useUndoRedo(results, onResultsChange ?? noop, originalImage);
+
+  useEffect(() => {
+    setEditing(false);
+    setRedacting(false);
+    setRenderError(null);
+    setSelectedIndex(null);
+    setHoveredIndex(null);
+    setHiddenLabels([]);
+    setSearch("");
+  }, [originalImage]);
+
+  useEffect(() => {
+    setThreshold(scoreThreshold);
+  }, [scoreThreshold, originalImage]);
+
+  const query = search.trim().toLowerCase();
+  const isLabelShown = (label: string) =>
+    !hiddenLabels.includes(label) && label.toLowerCase().includes(query);
+
+  const labelCounts = computeClassStats(results, 0, 0)
+    .map(({ label, count }) => ({ label, count }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  // Keep each result's index so selection and hover stay tied to its box.
+  const shown = results
+    .map((result, index) => ({ result, index }))
+    .filter(
+      ({ result }) => result.score >= threshold && isLabelShown(result.label)
+    )
+    .sort((a, b) => compareDetections(sortKey)(a.result, b.result));
+
+  const zoneSet = useZones(project ?? DEFAULT_PROJECT);
+  const [drawZone, setDrawZone] = useState<ZoneKind | null>(null);
+  const zoneResults = evaluateZones(
+    zoneSet.zones,
+    shown.map(({ result }) => result),
+    imageDimensions
+  );
+
+  const stats = computeClassStats(
+    shown.map(({ result }) => result),
+    imageDimensions.width,
+    imageDimensions.height
+  );
+
+  const groups = grouped
+    ? stats.map((s) => ({
+        label: s.label as string | null,
+        items: shown.filter(({ result }) => result.label === s.label),
+      }))
+    : [{ label: null, items: shown }];
+
+  const toggleLabel = (label: string) => {
+    setHiddenLabels((current) =>
+      current.includes(label)
+        ? current.filter((l) => l !== label)
+        : [...current, label]
+    );
+  };
+
+  // Bring the card of a box picked on the canvas into view.
+  const selectFromCanvas = (index: number | null) => {
+    setSelectedIndex(index);
+    if (index !== null) {
+      cardRefs.current[index]?.scrollIntoView({
+        behavior: "smooth",
+        block: "nearest",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!editing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+        setSelectedIndex(null);
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        history.redo();
+        setSelectedIndex(null);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [editing, history]);
+
+  const selected = selectedIndex !== null ? results[selectedIndex] : null;
+  const knownLabels = Array.from(new Set(results.map((r) => r.label))).sort();
+
+  const relabel = (label: string) => {
+    if (selectedIndex === null || !label.trim()) return;
+    history.commit(
+      results.map((r, i) => (i === selectedIndex ? { ...r, label } : r))
+    );
+  };
+
+  const deleteSelected = () => {
+    if (selectedIndex === null) return;
+    history.commit(results.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(null);
+  };
 
   useEffect(() => {
     const img = new Image();
@@ -64,20 +217,25 @@ export default function ObjectDetectionResults({
     },
   });
 
-  const getRandomColor = (index: number) => {
-    const colors = [
-      "#FF6B6B",
-      "#4ECDC4",
-      "#45B7D1",
-      "#96CEB4",
-      "#FFEAA7",
-      "#DDA0DD",
-      "#98D8C8",
-      "#F7DC6F",
-      "#BB8FCE",
-      "#85C1E9",
-    ];
-    return colors[index % colors.length];
+  // The canvas download is capped at display size; the server draws the
+  // shown boxes on the original pixels.
+  const downloadFullResolution = async () => {
+    setRendering(true);
+    setRenderError(null);
+    try {
+      const image = await (await fetch(originalImage)).blob();
+      const rendered = await renderAnnotatedImage(image, filename, {
+        detections: shown.map(({ result }) => mapToDetection(result)),
+      });
+      downloadBlob(
+        rendered,
+        `${filename.replace(/\.[^.]+$/, "")}-annotated.png`
+      );
+    } catch (error) {
+      setRenderError((error as Error).message);
+    } finally {
+      setRendering(false);
+    }
   };
 
   return (
@@ -87,16 +245,167 @@ export default function ObjectDetectionResults({
           Detection Results
         </h2>
         <p className="text-gray-600 dark:text-gray-400">
-          Found {results.length} object{results.length !== 1 ? "s" : ""}
+          Showing {shown.length} of {results.length} object
+          {results.length !== 1 ? "s" : ""}
         </p>
-        <button
-          onClick={() => canvasRef.current?.downloadPNG()}
-          className="mt-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          Download Annotated Image
-        </button>
+        <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+          <button
+            onClick={() => canvasRef.current?.downloadPNG()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Download Annotated Image
+          </button>
+          <button
+            onClick={downloadFullResolution}
+            disabled={rendering}
+            title="Rendered by the server at the image's original size"
+            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            {rendering ? "Rendering…" : "Full Resolution"}
+          </button>
+          {onResultsChange && (
+            <button
+              onClick={() => {
+                setEditing(!editing);
+                setSelectedIndex(null);
+              }}
+              className={`inline-flex items-center gap-1 px-4 py-2 rounded-lg border transition-colors ${
+                editing
+                  ? "bg-blue-50 border-blue-600 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                  : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+            >
+              <Pencil className="h-4 w-4" />
+              {editing ? "Done Editing" : "Edit Boxes"}
+            </button>
+          )}
+          <button
+            onClick={() => setRedacting(!redacting)}
+            className={`inline-flex items-center gap-1 px-4 py-2 rounded-lg border transition-colors ${
+              redacting
+                ? "bg-blue-50 border-blue-600 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            }`}
+          >
+            <EyeOff className="h-4 w-4" />
+            Redact
+          </button>
+          <ExportButtons
+            name={filename.replace(/\.[^.]+$/, "")}
+            disabled={imageDimensions.width === 0}
+            getImages={() => [
+              {
+                filename,
+                width: imageDimensions.width,
+                height: imageDimensions.height,
+                detections: results.map(mapToDetection),
+              },
+            ]}
+          />
+        </div>
       </div>
 
+      {renderError && (
+        <p className="text-center text-sm text-red-600 dark:text-red-400">
+          {renderError}
+        </p>
+      )}
+
+      {editing && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm">
+          <button
+            onClick={() => {
+              history.undo();
+              setSelectedIndex(null);
+            }}
+            disabled={!history.canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-30"
+          >
+            <Undo2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => {
+              history.redo();
+              setSelectedIndex(null);
+            }}
+            disabled={!history.canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-30"
+          >
+            <Redo2 className="h-4 w-4" />
+          </button>
+          {selected ? (
+            <>
+              <input
+                key={selectedIndex}
+                list="detection-labels"
+                defaultValue={selected.label}
+                onBlur={(e) => relabel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") relabel(e.currentTarget.value);
+                }}
+                className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-1 text-gray-900 dark:text-white"
+              />
+              <datalist id="detection-labels">
+                {knownLabels.map((label) => (
+                  <option key={label} value={label} />
+                ))}
+              </datalist>
+              <button
+                onClick={deleteSelected}
+                title="Delete box (Del)"
+                className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          ) : (
+            <span className="text-gray-500 dark:text-gray-400">
+              Click a box to select it, drag to move, drag a corner to resize,
+              or drag on empty space to add a box.
+            </span>
+          )}
+        </div>
+      )}
+
+      <ResultFilters
+        threshold={threshold}
+        onThresholdChange={setThreshold}
+        labels={labelCounts}
+        hiddenLabels={hiddenLabels}
+        onToggleLabel={toggleLabel}
+        search={search}
+        onSearchChange={setSearch}
+        sortKey={sortKey}
+        onSortKeyChange={setSortKey}
+        grouped={grouped}
+        onGroupedChange={setGrouped}
+      />
+
+      {project && onProjectChange && (
+        <ZonePanel
+          project={project}
+          onProjectChange={onProjectChange}
+          zones={zoneSet.zones}
+          onZonesChange={zoneSet.setZones}
+          results={zoneResults}
+          drawMode={drawZone}
+          onDrawModeChange={setDrawZone}
+          error={zoneSet.error}
+        />
+      )}
+
+      {redacting && displayDimensions.width > 0 && (
+        <RedactionPanel
+          imageUrl={originalImage}
+          filename={filename}
+          detections={shown.map(({ result }) => result)}
+          displayWidth={displayDimensions.width}
+          displayHeight={displayDimensions.height}
+        />
+      )}
+
       {imageDimensions.width > 0 && displayDimensions.width > 0 && (
         <div className="flex justify-center">
           <DetectionsCanvas
@@ -107,43 +416,100 @@ export default function ObjectDetectionResults({
             displayWidth={displayDimensions.width}
             displayHeight={displayDimensions.height}
             detections={results.map(mapToDetection)}
-            scoreThreshold={0.3}
+            scoreThreshold={threshold}
+            hiddenLabels={labelCounts
+              .map(({ label }) => label)
+              .filter((label) => !isLabelShown(label))}
+            editable={editing}
+            selectedIndex={selectedIndex}
+            onSelect={selectFromCanvas}
+            highlightedIndex={hoveredIndex}
+            onHover={setHoveredIndex}
+            onDetectionsChange={history.commit}
+            zones={project ? zoneSet.zones : undefined}
+            zoneResults={zoneResults}
+            drawZone={drawZone}
+            onZoneDrawn={(kind, points) => {
+              zoneSet.setZones([
+                ...zoneSet.zones,
+                createZone(kind, points, zoneSet.zones),
+              ]);
+              setDrawZone(null);
+            }}
           />
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {results.map((result, index) => {
-          const color = getRandomColor(index);
+      <ClassSummary stats={stats} name={filename.replace(/\.[^.]+$/, "")} />
 
-          return (
-            <div
-              key={index}
-              className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 border-l-4"
-              style={{ borderLeftColor: color }}
-            >
-              <div className="flex items-center justify-between mb-2">
-                <h3 className="font-semibold text-gray-900 dark:text-white">
-                  {result.label}
-                </h3>
-                <span className="text-sm text-gray-500 dark:text-gray-400">
-                  {Math.round(result.score * 100)}%
-                </span>
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-300">
-                <p>
-                  Position: ({Math.round(result.box.xmin)},{" "}
-                  {Math.round(result.box.ymin)})
-                </p>
-                <p>
-                  Size: {Math.round(result.box.xmax - result.box.xmin)} ×{" "}
-                  {Math.round(result.box.ymax - result.box.ymin)}
-                </p>
-              </div>
-            </div>
-          );
-        })}
-      </div>
+      {groups.map((group) => (
+        <div key={group.label ?? "all"} className="space-y-3">
+          {group.label !== null && (
+            <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+              <span
+                className="h-3 w-3 rounded-sm"
+                style={{ backgroundColor: labelColor(group.label) }}
+              />
+              {group.label}
+              <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                {group.items.length}
+              </span>
+            </h3>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {group.items.map(({ result, index }) => {
+              const color = labelColor(result.label);
+              const active = index === selectedIndex || index === hoveredIndex;
+
+              return (
+                <div
+                  key={index}
+                  ref={(el) => {
+                    cardRefs.current[index] = el;
+                  }}
+                  onMouseEnter={() => setHoveredIndex(index)}
+                  onMouseLeave={() => setHoveredIndex(null)}
+                  onClick={() =>
+                    setSelectedIndex(
+                      index === selectedIndex && !editing ? null : index
+                    )
+                  }
+                  className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 border-l-4 cursor-pointer transition-shadow"
+                  style={{
+                    borderLeftColor: color,
+                    boxShadow:
+                      index === selectedIndex
+                        ? `0 0 0 2px ${color}`
+                        : undefined,
+                    backgroundColor: active
+                      ? withAlpha(color, 0.15)
+                      : undefined,
+                  }}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                      {result.label}
+                    </h3>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {Math.round(result.score * 100)}%
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-300">
+                    <p>
+                      Position: ({Math.round(result.box.xmin)},{" "}
+                      {Math.round(result.box.ymin)})
+                    </p>
+                    <p>
+                      Size: {Math.round(result.box.xmax - result.box.xmin)} ×{" "}
+                      {Math.round(result.box.ymax - result.box.ymin)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertCircle, Download, Eye, FileJson } from "lucide-react";
+import { DetectionResult, RedactResponse } from "@/types/detection";
+import { redactImage } from "@/lib/detectClient";
+import { downloadBlob } from "@/lib/download";
+import {
+  DEFAULT_REDACTION_COLOR,
+  DEFAULT_REDACTION_PADDING,
+  MAX_REDACTION_PADDING,
+  REDACTION_METHODS,
+  RedactionMethod,
+} from "@/lib/redaction";
+import DetectionsCanvas from "./DetectionsCanvas";
+
+interface RedactionPanelProps {
+  imageUrl: string;
+  filename: string;
+  /** The boxes currently shown; only their labels can be picked. */
+  detections: DetectionResult[];
+  displayWidth: number;
+  displayHeight: number;
+}
+
+type Preview = { url: string; blob: Blob; response: RedactResponse };
+
+const NO_DETECTIONS: DetectionResult[] = [];
+
+function decodeImage({ data, format }: RedactResponse["image"]) {
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: `image/${format}` });
+}
+
+export default function RedactionPanel({
+  imageUrl,
+  filename,
+  detections,
+  displayWidth,
+  displayHeight,
+}: RedactionPanelProps) {
+  const labels = Array.from(new Set(detections.map((d) => d.label))).sort();
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [method, setMethod] = useState<RedactionMethod>("blur");
+  const [padding, setPadding] = useState(DEFAULT_REDACTION_PADDING);
+  const [color, setColor] = useState(DEFAULT_REDACTION_COLOR);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = detections.filter((d) => !excluded.includes(d.label));
+  const name = filename.replace(/\.[^.]+$/, "");
+  // By value: the parent passes a new array on every render.
+  const selectionKey = JSON.stringify(selected);
+
+  // Any change makes the preview stale; it is rendered again on request.
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [imageUrl, selectionKey, method, padding, color]);
+
+  useEffect(() => {
+    if (!preview) return;
+    return () => URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const render = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const image = await (await fetch(imageUrl)).blob();
+      const response = await redactImage(image, filename, {
+        detections: selected,
+        method,
+        padding,
+        color,
+      });
+      const blob = decodeImage(response.image);
+      setPreview({ url: URL.createObjectURL(blob), blob, response });
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-4 text-gray-700 dark:text-gray-300">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">Redact</span>
+          {labels.map((label) => (
+            <label key={label} className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={!excluded.includes(label)}
+                onChange={(e) =>
+                  setExcluded((current) =>
+                    e.target.checked
+                      ? current.filter((l) => l !== label)
+                      : [...current, label]
+                  )
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as RedactionMethod)}
+          className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 capitalize text-gray-900 dark:text-white"
+        >
+          {REDACTION_METHODS.map((m) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        {method === "fill" && (
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            title="Fill color"
+          />
+        )}
+        <label className="inline-flex items-center gap-2">
+          Padding {Math.round(padding * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={MAX_REDACTION_PADDING}
+            step={0.05}
+            value={padding}
+            onChange={(e) => setPadding(Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={render}
+          disabled={loading || selected.length === 0}
+          className="inline-flex items-center gap-1 px-3 py-1 rounded-lg bg-blue-600 text-white font-medium disabled:opacity-50"
+        >
+          <Eye className="h-4 w-4" />
+          {loading ? "Redacting…" : "Preview"}
+        </button>
+        {preview && (
+          <>
+            <button
+              onClick={() =>
+                downloadBlob(
+                  preview.blob,
+                  `${name}-redacted.${preview.response.image.format}`
+                )
+              }
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Download className="h-4 w-4" />
+              Download image
+            </button>
+            <button
+              onClick={() =>
+                downloadBlob(
+                  new Blob(
+                    [
+                      JSON.stringify(
+                        {
+                          filename,
+                          method: preview.response.method,
+                          padding: preview.response.padding,
+                          regions: preview.response.regions,
+                        },
+                        null,
+                        2
+                      ),
+                    ],
+                    { type: "application/json" }
+                  ),
+                  `${name}-redactions.json`
+                )
+              }
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <FileJson className="h-4 w-4" />
+              Download audit
+            </button>
+          </>
+        )}
+        <span className="text-gray-500 dark:text-gray-400">
+          {selected.length} of {detections.length} shown boxes
+        </span>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-red-600 dark:text-red-400">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="flex justify-center">
+            <DetectionsCanvas
+              imageUrl={preview.url}
+              naturalWidth={preview.response.image.width}
+              naturalHeight={preview.response.image.height}
+              displayWidth={displayWidth}
+              displayHeight={displayHeight}
+              detections={NO_DETECTIONS}
+            />
+          </div>
+          <table className="w-full text-left text-gray-700 dark:text-gray-300">
+            <thead className="text-gray-500 dark:text-gray-400">
+              <tr>
+                {["Label", "Score", "Region (x, y, w × h)"].map((h) => (
+                  <th key={h} className="py-1 pr-3 font-medium">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.response.regions.map(({ label, score, region }, i) => (
+                <tr
+                  key={i}
+                  className="border-t border-gray-200 dark:border-gray-700"
+                >
+                  <td className="py-1 pr-3 font-medium">{label}</td>
+                  <td className="py-1 pr-3">{Math.round(score * 100)}%</td>
+                  <td className="py-1 pr-3">
+                    {region.left}, {region.top}, {region.width} ×{" "}
+                    {region.height}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
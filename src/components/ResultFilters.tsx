@@ -0,0 +1,117 @@
+"use client";
+
+import { Search } from "lucide-react";
+import { labelColor, withAlpha } from "@/lib/colors";
+import { SORT_KEYS, SortKey } from "@/lib/stats";
+
+interface ResultFiltersProps {
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  /** Every label in the results with its total count. */
+  labels: { label: string; count: number }[];
+  hiddenLabels: string[];
+  onToggleLabel: (label: string) => void;
+  search: string;
+  onSearchChange: (search: string) => void;
+  sortKey: SortKey;
+  onSortKeyChange: (sortKey: SortKey) => void;
+  grouped: boolean;
+  onGroupedChange: (grouped: boolean) => void;
+}
+
+export default function ResultFilters({
+  threshold,
+  onThresholdChange,
+  labels,
+  hiddenLabels,
+  onToggleLabel,
+  search,
+  onSearchChange,
+  sortKey,
+  onSortKeyChange,
+  grouped,
+  onGroupedChange,
+}: ResultFiltersProps) {
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <span className="font-medium">
+            Min score: {Math.round(threshold * 100)}%
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+          />
+        </label>
+
+        <label className="flex items-center gap-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1">
+          <Search className="h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search labels"
+            className="bg-transparent outline-none text-gray-900 dark:text-white"
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          Sort by
+          <select
+            value={sortKey}
+            onChange={(e) => onSortKeyChange(e.target.value as SortKey)}
+            className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-gray-900 dark:text-white"
+          >
+            {SORT_KEYS.map((key) => (
+              <option key={key.id} value={key.id}>
+                {key.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={grouped}
+            onChange={(e) => onGroupedChange(e.target.checked)}
+          />
+          Group by class
+        </label>
+      </div>
+
+      {labels.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {labels.map(({ label, count }) => {
+            const color = labelColor(label);
+            const hidden = hiddenLabels.includes(label);
+            return (
+              <button
+                key={label}
+                onClick={() => onToggleLabel(label)}
+                title={hidden ? "Show" : "Hide"}
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded-full border text-gray-800 dark:text-gray-200 transition-opacity ${
+                  hidden ? "opacity-40 line-through" : ""
+                }`}
+                style={{
+                  borderColor: color,
+                  backgroundColor: hidden ? undefined : withAlpha(color, 0.25),
+                }}
+              >
+                {label}
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {count}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Camera, FileDown, Film, Play, Square } from "lucide-react";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionSettingsValue,
+} from "@/lib/detectClient";
+import { downloadExport } from "@/lib/download";
+import { exportTimeline } from "@/lib/timeline";
+import { uniqueCounts } from "@/lib/tracker";
+import { useVideoDetection } from "@/hooks/useVideoDetection";
+import DetectionSettings from "./DetectionSettings";
+import DetectionsCanvas from "./DetectionsCanvas";
+import ZonePanel from "./ZonePanel";
+import { useZones } from "@/hooks/useZones";
+import { ZoneKind, createZone, evaluateZones } from "@/lib/zones";
+
+type Source = "webcam" | "file";
+
+const MAX_DISPLAY_WIDTH = 800;
+
+interface VideoDetectionProps {
+  project: string;
+  onProjectChange: (project: string) => void;
+}
+
+export default function VideoDetection({
+  project,
+  onProjectChange,
+}: VideoDetectionProps) {
+  const [source, setSource] = useState<Source>("webcam");
+  const [file, setFile] = useState<File | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [fps, setFps] = useState(2);
+  const [settings, setSettings] = useState<DetectionSettingsValue>(
+    DEFAULT_DETECTION_SETTINGS
+  );
+  const [tracking, setTracking] = useState(true);
+  const [display, setDisplay] = useState({ width: 0, height: 0 });
+  const [cameraError, setCameraError] = useState("");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const zoneSet = useZones(project);
+  const [drawZone, setDrawZone] = useState<ZoneKind | null>(null);
+  const detection = useVideoDetection({
+    videoRef,
+    settings,
+    fps,
+    tracking,
+    zones: zoneSet.zones,
+  });
+  const { stop } = detection;
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+  };
+
+  // Switching sources ends the current run and releases the camera.
+  useEffect(() => {
+    stop();
+    stopCamera();
+    setDisplay({ width: 0, height: 0 });
+  }, [source, stop]);
+
+  useEffect(() => stopCamera, []);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setFileUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const width = Math.min(MAX_DISPLAY_WIDTH, video.videoWidth);
+    setDisplay({
+      width,
+      height: (width * video.videoHeight) / video.videoWidth,
+    });
+  };
+
+  const handleStart = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (source === "webcam" && !streamRef.current) {
+      try {
+        streamRef.current = await navigator.mediaDevices.getUserMedia({
+          video: true,
+        });
+        video.srcObject = streamRef.current;
+        setCameraError("");
+      } catch (err) {
+        setCameraError(`Could not open the camera: ${(err as Error).message}`);
+        return;
+      }
+    }
+
+    detection.start();
+    await video.play().catch(() => undefined);
+  };
+
+  const handleStop = () => {
+    detection.stop();
+    if (source === "webcam") {
+      stopCamera();
+    } else {
+      videoRef.current?.pause();
+    }
+  };
+
+  const name = file ? file.name.replace(/\.[^.]+$/, "") : "video";
+  const handleExport = (format: "json" | "csv") => {
+    const video = videoRef.current;
+    downloadExport(
+      exportTimeline(
+        {
+          filename: file?.name ?? "video",
+          width: video?.videoWidth ?? 0,
+          height: video?.videoHeight ?? 0,
+          sampleRate: detection.effectiveFps,
+        },
+        detection.timeline,
+        format,
+        name,
+        detection.tracks
+      )
+    );
+  };
+
+  const { stats } = detection;
+  const zoneResults = detection.frameSize
+    ? evaluateZones(zoneSet.zones, detection.detections, detection.frameSize)
+    : [];
+  const objectCounts = uniqueCounts(detection.tracks);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {(
+          [
+            { id: "webcam", label: "Webcam", icon: Camera },
+            { id: "file", label: "Video file", icon: Film },
+          ] as const
+        ).map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setSource(id)}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors ${
+              source === id
+                ? "bg-blue-50 border-blue-600 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            }`}
+          >
+            <Icon className="h-4 w-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source === "file" && (
+        <div className="text-center">
+          <input
+            type="file"
+            accept="video/*"
+            onChange={(e) => {
+              stop();
+              setFile(e.target.files?.[0] ?? null);
+            }}
+            className="text-sm text-gray-700 dark:text-gray-300"
+          />
+        </div>
+      )}
+
+      <DetectionSettings value={settings} onChange={setSettings} />
+
+      <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          Frames per second
+          <input
+            type="number"
+            min={0.2}
+            max={10}
+            step={0.2}
+            value={fps}
+            onChange={(e) =>
+              setFps(Math.min(10, Math.max(0.2, Number(e.target.value) || 1)))
+            }
+            className="w-20 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-gray-900 dark:text-white"
+          />
+          {detection.effectiveFps < fps && (
+            <span className="text-gray-500 dark:text-gray-400">
+              limited to {detection.effectiveFps.toFixed(1)} by the rate limit
+            </span>
+          )}
+        </label>
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={tracking}
+            disabled={detection.running}
+            onChange={(e) => setTracking(e.target.checked)}
+          />
+          Track objects
+        </label>
+        {detection.running ? (
+          <button
+            onClick={handleStop}
+            className="inline-flex items-center gap-2 bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 transition-colors font-medium"
+          >
+            <Square className="h-4 w-4" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={source === "file" && !fileUrl}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            <Play className="h-4 w-4" />
+            Start
+          </button>
+        )}
+      </div>
+
+      {(cameraError || detection.error) && (
+        <p className="text-center text-sm text-red-600 dark:text-red-400">
+          {cameraError || detection.error}
+        </p>
+      )}
+
+      <div className="flex justify-center">
+        <div className="relative inline-block">
+          <video
+            ref={videoRef}
+            src={source === "file" ? fileUrl ?? undefined : undefined}
+            muted
+            playsInline
+            controls={source === "file"}
+            onLoadedMetadata={handleLoadedMetadata}
+            onEnded={() => detection.stop()}
+            width={display.width || undefined}
+            height={display.height || undefined}
+            className="rounded bg-black max-w-full"
+          />
+          {display.width > 0 && (
+            <div
+              className={`absolute left-0 top-0 ${
+                drawZone ? "" : "pointer-events-none"
+              }`}
+            >
+              <DetectionsCanvas
+                naturalWidth={videoRef.current?.videoWidth || display.width}
+                naturalHeight={videoRef.current?.videoHeight || display.height}
+                displayWidth={display.width}
+                displayHeight={display.height}
+                detections={detection.detections}
+                trails={detection.trails}
+                scoreThreshold={settings.minScore}
+                zones={zoneSet.zones}
+                zoneResults={zoneResults}
+                drawZone={drawZone}
+                onZoneDrawn={(kind, points) => {
+                  zoneSet.setZones([
+                    ...zoneSet.zones,
+                    createZone(kind, points, zoneSet.zones),
+                  ]);
+                  setDrawZone(null);
+                }}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ZonePanel
+        project={project}
+        onProjectChange={onProjectChange}
+        zones={zoneSet.zones}
+        onZonesChange={zoneSet.setZones}
+        results={zoneResults}
+        crossings={tracking ? detection.crossings : undefined}
+        drawMode={drawZone}
+        onDrawModeChange={setDrawZone}
+        error={zoneSet.error}
+      />
+
+      <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+        {stats.sent} frames sent · {stats.completed} done · {stats.dropped}{" "}
+        dropped
+        {stats.failed > 0 && ` · ${stats.failed} failed`}
+        {stats.lastLatencyMs !== null && ` · ${stats.lastLatencyMs} ms latency`}
+      </p>
+
+      {detection.tracks.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="text-gray-600 dark:text-gray-400">
+            Unique objects:
+          </span>
+          {Object.entries(objectCounts).map(([label, count]) => (
+            <span
+              key={label}
+              className="px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+            >
+              {label} <strong>{count}</strong>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {source === "file" && detection.timeline.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            Timeline ({detection.timeline.length} frames)
+          </span>
+          {(["json", "csv"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <FileDown className="h-4 w-4" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
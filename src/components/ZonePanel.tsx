@@ -0,0 +1,166 @@
+"use client";
+
+import { Minus, Pentagon, Trash2, X } from "lucide-react";
+import { labelColor } from "@/lib/colors";
+import { LineCrossings, Zone, ZoneKind, ZoneResult } from "@/lib/zones";
+
+interface ZonePanelProps {
+  project: string;
+  onProjectChange: (project: string) => void;
+  zones: Zone[];
+  onZonesChange: (zones: Zone[]) => void;
+  results: ZoneResult[];
+  /** Line crossing totals by zone id; only available for tracked video. */
+  crossings?: Record<string, LineCrossings>;
+  drawMode: ZoneKind | null;
+  onDrawModeChange: (mode: ZoneKind | null) => void;
+  error?: string;
+}
+
+function formatByLabel(byLabel: Record<string, number>) {
+  const entries = Object.entries(byLabel);
+  return entries.length > 0
+    ? ` (${entries.map(([label, count]) => `${label} ${count}`).join(", ")})`
+    : "";
+}
+
+export default function ZonePanel({
+  project,
+  onProjectChange,
+  zones,
+  onZonesChange,
+  results,
+  crossings,
+  drawMode,
+  onDrawModeChange,
+  error,
+}: ZonePanelProps) {
+  const updateZone = (id: string, patch: Partial<Zone>) => {
+    onZonesChange(
+      zones.map((zone) => (zone.id === id ? { ...zone, ...patch } : zone))
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Zones</h3>
+          <input
+            key={project}
+            defaultValue={project}
+            title="Project"
+            onBlur={(e) => e.target.value && onProjectChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && e.currentTarget.value) {
+                onProjectChange(e.currentTarget.value);
+              }
+            }}
+            className="w-32 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-gray-900 dark:text-white"
+          />
+        </div>
+        {drawMode ? (
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500 dark:text-gray-400">
+              {drawMode === "polygon"
+                ? "Click to add points; click the first point or double-click to finish."
+                : "Click the two ends of the line."}
+            </span>
+            <button
+              onClick={() => onDrawModeChange(null)}
+              title="Cancel"
+              className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              onClick={() => onDrawModeChange("polygon")}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Pentagon className="h-4 w-4" />
+              Draw zone
+            </button>
+            <button
+              onClick={() => onDrawModeChange("line")}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Minus className="h-4 w-4" />
+              Draw line
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      {zones.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">
+          Draw zones to count objects inside them, or lines to count objects
+          crossing them.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {zones.map((zone) => {
+            const result = results.find((r) => r.zoneId === zone.id);
+            const crossed = crossings?.[zone.id];
+            return (
+              <li key={zone.id} className="flex flex-wrap items-center gap-2">
+                <span
+                  className="h-3 w-3 rounded-sm shrink-0"
+                  style={{ backgroundColor: labelColor(zone.id) }}
+                />
+                <input
+                  key={`${zone.id}-name`}
+                  defaultValue={zone.name}
+                  onBlur={(e) =>
+                    e.target.value !== zone.name &&
+                    updateZone(zone.id, { name: e.target.value || zone.name })
+                  }
+                  className="w-28 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-0.5 text-gray-900 dark:text-white"
+                />
+                <input
+                  key={`${zone.id}-labels`}
+                  defaultValue={zone.labels?.join(", ") ?? ""}
+                  placeholder="all labels"
+                  title="Only count these labels"
+                  onBlur={(e) => {
+                    const labels = e.target.value
+                      .split(",")
+                      .map((l) => l.trim())
+                      .filter(Boolean);
+                    updateZone(zone.id, {
+                      labels: labels.length > 0 ? labels : undefined,
+                    });
+                  }}
+                  className="w-32 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-0.5 text-gray-900 dark:text-white"
+                />
+                <span className="flex-1 min-w-0 text-gray-700 dark:text-gray-300">
+                  {result &&
+                    `${result.count} ${
+                      zone.kind === "polygon" ? "inside" : "on line"
+                    }${formatByLabel(result.byLabel)}`}
+                  {crossed &&
+                    ` · crossed ${crossed.forward} → / ${
+                      crossed.backward
+                    } ←${formatByLabel(crossed.byLabel)}`}
+                </span>
+                <button
+                  onClick={() =>
+                    onZonesChange(zones.filter((z) => z.id !== zone.id))
+                  }
+                  title="Delete"
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DetectProgress,
+  DetectResponse,
+  DetectionResult,
+} from "@/types/detection";
+import {
+  DetectRequestError,
+  DetectionSettingsValue,
+  detectImage,
+} from "@/lib/detectClient";
+
+export type QueueStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "failed"
+  | "retrying"
+  | "cancelled";
+
+export type QueueItem = {
+  id: string;
+  file: File;
+  previewUrl: string;
+  settings: DetectionSettingsValue;
+  status: QueueStatus;
+  attempts: number;
+  /** Latest streamed progress while running. */
+  progress?: DetectProgress;
+  result?: DetectResponse;
+  error?: string;
+};
+
+type QueueOptions = {
+  concurrency: number;
+  /** Automatic retries after the first failed attempt. */
+  maxRetries?: number;
+  retryDelayMs?: number;
+};
+
+export function useDetectionQueue({
+  concurrency,
+  maxRetries = 2,
+  retryDelayMs = 1000,
+}: QueueOptions) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const retryTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const update = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    );
+  }, []);
+
+  const run = useCallback(
+    async (item: QueueItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      const attempts = item.attempts + 1;
+      update(item.id, {
+        status: "running",
+        attempts,
+        error: undefined,
+        progress: undefined,
+      });
+
+      try {
+        const result = await detectImage(item.file, item.settings, {
+          signal: controller.signal,
+          onProgress: (progress) => update(item.id, { progress }),
+        });
+        update(item.id, { status: "done", result, progress: undefined });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          update(item.id, { status: "cancelled" });
+        } else if (
+          attempts <= maxRetries &&
+          !(error instanceof DetectRequestError && !error.retryable)
+        ) {
+          update(item.id, {
+            status: "retrying",
+            error: (error as Error).message,
+          });
+          // Exponential backoff before the item goes back into the queue.
+          const timer = setTimeout(() => {
+            retryTimers.current.delete(item.id);
+            update(item.id, { status: "queued" });
+          }, retryDelayMs * 2 ** (attempts - 1));
+          retryTimers.current.set(item.id, timer);
+        } else {
+          update(item.id, {
+            status: "failed",
+            error: (error as Error).message,
+          });
+        }
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    },
+    [maxRetries, retryDelayMs, update]
+  );
+
+  useEffect(() => {
+    const running = items.filter((item) => item.status === "running").length;
+    const free = concurrency - running;
+    if (free <= 0) return;
+
+    items
+      .filter((item) => item.status === "queued")
+      .slice(0, free)
+      .forEach(run);
+  }, [items, concurrency, run]);
+
+  const enqueue = useCallback(
+    (files: File[], settings: DetectionSettingsValue) => {
+      const added = files.map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        settings,
+        status: "queued" as const,
+        attempts: 0,
+      }));
+      setItems((current) => [...current, ...added]);
+      return added.map((item) => item.id);
+    },
+    []
+  );
+
+  const cancel = useCallback((id: string) => {
+    const timer = retryTimers.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      retryTimers.current.delete(id);
+    }
+
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      setItems((current) =>
+        current.map((item) =>
+          item.id === id &&
+          (item.status === "queued" || item.status === "retrying")
+            ? { ...item, status: "cancelled" }
+            : item
+        )
+      );
+    }
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    items.forEach((item) => cancel(item.id));
+  }, [items, cancel]);
+
+  const retry = useCallback(
+    (id: string) => {
+      update(id, { status: "queued", attempts: 0, error: undefined });
+    },
+    [update]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      cancel(id);
+      setItems((current) => {
+        const item = current.find((i) => i.id === id);
+        if (item) URL.revokeObjectURL(item.previewUrl);
+        return current.filter((i) => i.id !== id);
+      });
+    },
+    [cancel]
+  );
+
+  const updateDetections = useCallback(
+    (id: string, detections: DetectionResult[]) => {
+      setItems((current) =>
+        current.map((item) =>
+          item.id === id && item.result
+            ? { ...item, result: { ...item.result, detections } }
+            : item
+        )
+      );
+    },
+    []
+  );
+
+  const clearFinished = useCallback(() => {
+    setItems((current) =>
+      current.filter((item) => {
+        const finished = ["done", "failed", "cancelled"].includes(item.status);
+        if (finished) URL.revokeObjectURL(item.previewUrl);
+        return !finished;
+      })
+    );
+  }, []);
+
+  return {
+    items,
+    enqueue,
+    cancel,
+    cancelAll,
+    retry,
+    remove,
+    updateDetections,
+    clearFinished,
+  };
+}
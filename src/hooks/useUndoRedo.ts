@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Undo/redo for a value owned by the parent. `commit` records the current
+ * value before handing the next one to `onChange`; the stacks reset whenever
+ * `resetKey` changes (e.g. a different image is opened).
+ */
+export function useUndoRedo<T>(
+  value: T,
+  onChange: (value: T) => void,
+  resetKey: unknown
+) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  useEffect(() => {
+    setPast([]);
+    setFuture([]);
+  }, [resetKey]);
+
+  const commit = useCallback(
+    (next: T) => {
+      setPast((p) => [...p, value]);
+      setFuture([]);
+      onChange(next);
+    },
+    [value, onChange]
+  );
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture([value, ...future]);
+    onChange(past[past.length - 1]);
+  }, [past, future, value, onChange]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setPast([...past, value]);
+    setFuture(future.slice(1));
+    onChange(future[0]);
+  }, [past, future, value, onChange]);
+
+  return {
+    commit,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import {
+  DetectRequestError,
+  DetectionSettingsValue,
+  detectImage,
+} from "@/lib/detectClient";
+import { TimelineFrame } from "@/lib/timeline";
+import { TrackSummary, Tracker, TrailPoint } from "@/lib/tracker";
+import { Detection, ImageSize } from "@/lib/types";
+import { LineCrossingCounter, LineCrossings, Zone } from "@/lib/zones";
+
+export type VideoDetectionStats = {
+  sent: number;
+  completed: number;
+  /**
+   * Frames skipped because earlier frames were still being processed, or
+   * while the rate limit asked to wait.
+   */
+  dropped: number;
+  failed: number;
+  lastLatencyMs: number | null;
+};
+
+type UseVideoDetectionOptions = {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  settings: DetectionSettingsValue;
+  /** Frames sampled per second. */
+  fps: number;
+  /** Requests allowed in flight before new frames are dropped. */
+  maxInFlight?: number;
+  /** Assign stable track ids across frames; read when a run starts. */
+  tracking?: boolean;
+  /** Lines whose crossings are counted while tracking. */
+  zones?: Zone[];
+};
+
+// Share of the caller's rate limit video may use, leaving the rest for
+// detections and history requests made alongside it.
+const RATE_LIMIT_SHARE = 0.8;
+
+const EMPTY_STATS: VideoDetectionStats = {
+  sent: 0,
+  completed: 0,
+  dropped: 0,
+  failed: 0,
+  lastLatencyMs: null,
+};
+
+function captureFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  frame: number
+): Promise<File | null> {
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext("2d")?.drawImage(video, 0, 0);
+  return new Promise((resolve) =>
+    canvas.toBlob(
+      (blob) =>
+        resolve(
+          blob
+            ? new File([blob], `frame-${frame}.jpg`, { type: "image/jpeg" })
+            : null
+        ),
+      "image/jpeg",
+      0.85
+    )
+  );
+}
+
+/**
+ * Samples frames from a playing `<video>` at `fps` and runs detection on
+ * them. Frames are dropped, never queued, while `maxInFlight` requests are
+ * pending, so a slow provider lowers the effective rate instead of building
+ * up a backlog.
+ *
+ * Every frame is a request against the caller's rate limit and quota, so the
+ * rate is capped to `RATE_LIMIT_SHARE` of the limit the server reports, and
+ * sampling pauses for the `Retry-After` of a 429. Results are neither saved
+ * to history nor cached.
+ */
+export function useVideoDetection({
+  videoRef,
+  settings,
+  fps,
+  maxInFlight = 1,
+  tracking = false,
+  zones = [],
+}: UseVideoDetectionOptions) {
+  const [running, setRunning] = useState(false);
+  const [detections, setDetections] = useState<
+    (Detection & { trackId?: number })[]
+  >([]);
+  const [frameSize, setFrameSize] = useState<ImageSize | null>(null);
+  const [timeline, setTimeline] = useState<TimelineFrame[]>([]);
+  const [stats, setStats] = useState<VideoDetectionStats>(EMPTY_STATS);
+  const [error, setError] = useState("");
+  const [tracks, setTracks] = useState<TrackSummary[]>([]);
+  const [trails, setTrails] = useState<Map<number, TrailPoint[]>>(new Map());
+  const [crossings, setCrossings] = useState<Record<string, LineCrossings>>({});
+  const [fpsLimit, setFpsLimit] = useState<number | null>(null);
+
+  const inFlight = useRef(0);
+  const frameCounter = useRef(0);
+  const controller = useRef<AbortController | null>(null);
+  const pausedUntil = useRef(0);
+  const captureCanvas = useRef<HTMLCanvasElement | null>(null);
+  const tracker = useRef<Tracker | null>(null);
+  const crossingCounter = useRef(new LineCrossingCounter());
+  const zonesRef = useRef(zones);
+  zonesRef.current = zones;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const bump = (key: Exclude<keyof VideoDetectionStats, "lastLatencyMs">) =>
+    setStats((s) => ({ ...s, [key]: s[key] + 1 }));
+
+  const stop = useCallback(() => {
+    setRunning(false);
+    controller.current?.abort();
+    controller.current = null;
+  }, []);
+
+  const start = useCallback(() => {
+    controller.current?.abort();
+    controller.current = new AbortController();
+    frameCounter.current = 0;
+    tracker.current = tracking ? new Tracker() : null;
+    crossingCounter.current = new LineCrossingCounter();
+    setDetections([]);
+    setTimeline([]);
+    setTracks([]);
+    setTrails(new Map());
+    setCrossings({});
+    setStats(EMPTY_STATS);
+    setError("");
+    pausedUntil.current = 0;
+    setRunning(true);
+  }, [tracking]);
+
+  const sample = useCallback(async () => {
+    const video = videoRef.current;
+    const signal = controller.current?.signal;
+    if (!video || !signal || video.readyState < 2 || video.paused) return;
+
+    if (inFlight.current >= maxInFlight || Date.now() < pausedUntil.current) {
+      bump("dropped");
+      return;
+    }
+
+    captureCanvas.current ??= document.createElement("canvas");
+    const frame = frameCounter.current++;
+    const time = video.currentTime;
+    inFlight.current++;
+
+    try {
+      const file = await captureFrame(video, captureCanvas.current, frame);
+      if (!file) throw new Error("Could not capture frame");
+
+      const startedAt = performance.now();
+      bump("sent");
+      const result = await detectImage(file, settingsRef.current, {
+        signal,
+        save: false,
+        cache: false,
+        onRateLimit: ({ limit, windowSeconds }) =>
+          setFpsLimit((limit / windowSeconds) * RATE_LIMIT_SHARE),
+      });
+      if (signal.aborted) return;
+
+      const frameDetections = tracker.current
+        ? tracker.current.update(result.detections, time)
+        : result.detections;
+      if (tracker.current) {
+        const currentTrails = tracker.current.trails();
+        crossingCounter.current.update(
+          zonesRef.current,
+          frameDetections,
+          currentTrails,
+          result.image.original
+        );
+        setTracks(tracker.current.summaries());
+        setTrails(currentTrails);
+        setCrossings(crossingCounter.current.totals());
+      }
+
+      setDetections(frameDetections);
+      setFrameSize(result.image.original);
+      setTimeline((t) => [...t, { frame, time, detections: frameDetections }]);
+      setStats((s) => ({
+        ...s,
+        completed: s.completed + 1,
+        lastLatencyMs: Math.round(performance.now() - startedAt),
+      }));
+    } catch (err) {
+      if (signal.aborted) return;
+      if (err instanceof DetectRequestError && err.status === 429) {
+        pausedUntil.current = Date.now() + (err.retryAfter ?? 1) * 1000;
+      }
+      bump("failed");
+      setError((err as Error).message);
+    } finally {
+      inFlight.current--;
+    }
+  }, [videoRef, maxInFlight]);
+
+  const effectiveFps = fpsLimit === null ? fps : Math.min(fps, fpsLimit);
+
+  useEffect(() => {
+    if (!running || effectiveFps <= 0) return;
+    const interval = setInterval(sample, 1000 / effectiveFps);
+    return () => clearInterval(interval);
+  }, [running, effectiveFps, sample]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  return {
+    running,
+    start,
+    stop,
+    detections,
+    frameSize,
+    timeline,
+    tracks,
+    trails,
+    crossings,
+    stats,
+    error,
+    /** `fps`, lowered to fit the rate limit. */
+    effectiveFps,
+  };
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Zone } from "@/lib/zones";
+
+/**
+ * Zones saved for `project`. `setZones` updates them locally right away and
+ * persists them in the background.
+ */
+export function useZones(project: string) {
+  const [zones, setZonesState] = useState<Zone[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setZonesState([]);
+    fetch(`/api/projects/${encodeURIComponent(project)}/zones`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load zones");
+        if (!cancelled) {
+          setZonesState(data.zones);
+          setError("");
+        }
+      })
+      .catch((err) => !cancelled && setError((err as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [project]);
+
+  const setZones = useCallback(
+    (next: Zone[]) => {
+      setZonesState(next);
+      fetch(`/api/projects/${encodeURIComponent(project)}/zones`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zones: next }),
+      })
+        .then(async (response) => {
+          if (response.ok) return setError("");
+          const data = await response.json().catch(() => null);
+          setError(data?.error || "Failed to save zones");
+        })
+        .catch(() => setError("Failed to save zones"));
+    },
+    [project]
+  );
+
+  return { zones, setZones, error };
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts. Resumes the job queue right away, so
+ * jobs left over from before a restart don't wait for the next request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobWorker } = await import("./lib/job-worker");
+    startJobWorker();
+  }
+}
@@ -0,0 +1,235 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+import { ApiKey, ApiScope, findApiKey, getApiKey } from "./api-keys";
+import { ForbiddenError, RateLimitError, UnauthorizedError } from "./errors";
+import {
+  RateLimitResult,
+  TokenBucketLimiter,
+  rateLimitHeaders,
+} from "./rate-limit";
+import { Quota, consumeQuota } from "./usage";
+import { getUserId } from "./user";
+
+export const SESSION_COOKIE = "resario_session";
+
+const REQUIRE_API_KEY = process.env.REQUIRE_API_KEY === "true";
+// Set when a reverse proxy in front of the app sets `X-Forwarded-For`.
+const TRUST_PROXY = process.env.TRUST_PROXY === "true";
+const RATE_LIMIT_RPM = Number(process.env.RATE_LIMIT_RPM) || 120;
+const ANONYMOUS_RATE_LIMIT_RPM =
+  Number(process.env.ANONYMOUS_RATE_LIMIT_RPM) || 120;
+const DAILY_QUOTA = Number(process.env.DAILY_QUOTA) || null;
+const MONTHLY_QUOTA = Number(process.env.MONTHLY_QUOTA) || null;
+
+// Without a configured secret, sessions last until the server restarts.
+const SESSION_SECRET =
+  process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+const limiter = new TokenBucketLimiter();
+
+export type Access = {
+  /** Owner of the history and zones the request works with. */
+  userId: string;
+  /** `null` for anonymous requests. */
+  apiKey: ApiKey | null;
+  /** `RateLimit-*` headers to send with the response. */
+  headers: Record<string, string>;
+  /** Who the quotas are counted for, and the quotas that apply. */
+  quotaSubject: string;
+  quota: Quota;
+};
+
+const sign = (keyId: string) =>
+  createHmac("sha256", SESSION_SECRET).update(keyId).digest("base64url");
+
+/** Compares secrets in constant time. */
+export function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/** Cookie value for a session signed in with `key`. */
+export function sessionToken(key: ApiKey): string {
+  return `${key.id}.${sign(key.id)}`;
+}
+
+/** The key behind a session cookie, if the cookie is genuine and unrevoked. */
+export async function sessionApiKey(
+  request: NextRequest
+): Promise<ApiKey | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const [keyId, signature] = token?.split(".") ?? [];
+  if (!keyId || !signature || !safeEqual(signature, sign(keyId))) return null;
+  return getApiKey(keyId);
+}
+
+function presentedSecret(request: NextRequest): string | null {
+  const bearer = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || request.headers.get("x-api-key")?.trim() || null;
+}
+
+/**
+ * The anonymous caller's address. Forwarded headers are set by the client
+ * unless a proxy overwrites them, so they are only read with `TRUST_PROXY`;
+ * otherwise every anonymous caller shares one bucket.
+ */
+function clientIp(request: NextRequest): string {
+  if (!TRUST_PROXY) return "unknown";
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+function takeToken(bucket: string, limit: number): RateLimitResult {
+  const result = limiter.take(bucket, limit);
+  if (!result.allowed) {
+    throw new RateLimitError(
+      `Rate limit of ${limit} requests per minute exceeded`,
+      "rate_limited",
+      result.retryAfterSeconds,
+      rateLimitHeaders(result)
+    );
+  }
+  return result;
+}
+
+// Quota errors carry the rate limit headers of the request they refused.
+async function consumeQuotaWithHeaders(
+  subject: string,
+  quota: Quota,
+  cost: number,
+  headers: Record<string, string>
+) {
+  if (cost === 0) return;
+  try {
+    await consumeQuota(subject, quota, cost);
+  } catch (error) {
+    if (error instanceof RateLimitError) error.headers = headers;
+    throw error;
+  }
+}
+
+/** The key presented with the request, or behind its session cookie. */
+async function findCaller(request: NextRequest) {
+  const secret = presentedSecret(request);
+  const apiKey = secret
+    ? await findApiKey(secret)
+    : await sessionApiKey(request);
+  return { secret, apiKey };
+}
+
+/**
+ * Identifies the caller by API key (`Authorization: Bearer`, `X-API-Key` or
+ * the session cookie), then applies its rate limit and quotas. Requests
+ * without a key are limited per IP, unless `REQUIRE_API_KEY` turns them away.
+ * `cost` is what the request counts against the quotas; 0 leaves them to a
+ * later `chargeQuota`, or out entirely for reads such as polling a job.
+ *
+ * @throws UnauthorizedError for unknown keys, or missing ones when required
+ * @throws ForbiddenError when the key lacks `scope`
+ * @throws RateLimitError when the rate limit or a quota is exhausted
+ */
+export async function authorize(
+  request: NextRequest,
+  scope: ApiScope,
+  cost: number = 1
+): Promise<Access> {
+  const { secret, apiKey } = await findCaller(request);
+
+  if (!apiKey) {
+    // Guessing keys costs the same as anonymous requests.
+    const result = takeToken(
+      `ip:${clientIp(request)}`,
+      ANONYMOUS_RATE_LIMIT_RPM
+    );
+    if (secret) throw new UnauthorizedError("Invalid or revoked API key");
+    if (REQUIRE_API_KEY) throw new UnauthorizedError("An API key is required");
+    const headers = rateLimitHeaders(result);
+    const quota = { daily: DAILY_QUOTA, monthly: MONTHLY_QUOTA };
+    await consumeQuotaWithHeaders("anonymous", quota, cost, headers);
+    return {
+      userId: getUserId(request),
+      apiKey: null,
+      headers,
+      quotaSubject: "anonymous",
+      quota,
+    };
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    throw new ForbiddenError(`This API key lacks the "${scope}" scope`);
+  }
+  const headers = rateLimitHeaders(
+    takeToken(`key:${apiKey.id}`, apiKey.rateLimit ?? RATE_LIMIT_RPM)
+  );
+  const quotaSubject = `key:${apiKey.id}`;
+  const quota = {
+    daily: apiKey.dailyQuota ?? DAILY_QUOTA,
+    monthly: apiKey.monthlyQuota ?? MONTHLY_QUOTA,
+  };
+  await consumeQuotaWithHeaders(quotaSubject, quota, cost, headers);
+  return { userId: apiKey.userId, apiKey, headers, quotaSubject, quota };
+}
+
+/**
+ * Counts `cost` more requests for an already authorized caller, for routes
+ * that only know what a request costs once they read its body.
+ *
+ * @throws RateLimitError when they don't fit in a quota
+ */
+export function chargeQuota(access: Access, cost: number): Promise<void> {
+  return consumeQuotaWithHeaders(
+    access.quotaSubject,
+    access.quota,
+    cost,
+    access.headers
+  );
+}
+
+/**
+ * The user whose stored data (history, zones, exports) a request works with,
+ * resolved like `authorize` does so that results saved through a key or
+ * session are found again. Not rate limited or counted against quotas;
+ * `x-user-id` is only honoured for requests without a key.
+ *
+ * @throws UnauthorizedError for unknown keys, or missing ones when required
+ * @throws ForbiddenError when the key lacks `scope`
+ */
+export async function resolveUserId(
+  request: NextRequest,
+  scope: ApiScope = "detect"
+): Promise<string> {
+  const { secret, apiKey } = await findCaller(request);
+  if (!apiKey) {
+    if (secret) throw new UnauthorizedError("Invalid or revoked API key");
+    if (REQUIRE_API_KEY) throw new UnauthorizedError("An API key is required");
+    return getUserId(request);
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    throw new ForbiddenError(`This API key lacks the "${scope}" scope`);
+  }
+  return apiKey.userId;
+}
+
+/**
+ * Admin routes accept `Authorization: Bearer <ADMIN_TOKEN>`, or an API key
+ * with the `admin` scope. Not rate limited or counted against quotas.
+ */
+export async function authorizeAdmin(request: NextRequest): Promise<void> {
+  const secret = presentedSecret(request);
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (secret && adminToken && safeEqual(secret, adminToken)) return;
+
+  const apiKey = secret
+    ? await findApiKey(secret)
+    : await sessionApiKey(request);
+  if (!apiKey) throw new UnauthorizedError("Admin credentials required");
+  if (!apiKey.scopes.includes("admin")) {
+    throw new ForbiddenError('This API key lacks the "admin" scope');
+  }
+}
@@ -0,0 +1,117 @@
+import { labelColor, textColorFor } from "./colors";
+import { placeLabels } from "./labelLayout";
+import { Detection, ImageSize } from "./types";
+
+export const RENDER_FORMATS = ["png", "jpeg", "webp"] as const;
+
+export type RenderFormat = (typeof RENDER_FORMATS)[number];
+
+/** Like the `DetectionsCanvas` props of the same names, in output pixels. */
+export type AnnotationStyle = {
+  lineWidth: number;
+  /** Space between a label's text and its background edge. */
+  padding: number;
+  fontSize: number;
+  /** Box colors by label, overriding the label palette. */
+  colors: Record<string, string>;
+};
+
+/**
+ * The canvas look: 2px lines, 4px label padding and 14px text on an image
+ * fitted into 1000×750, as in `ObjectDetectionResults`.
+ */
+const CANVAS_STYLE = { lineWidth: 2, padding: 4, fontSize: 14 };
+const CANVAS_MAX_WIDTH = 1000;
+const CANVAS_MAX_HEIGHT = 750;
+const LABEL_HEIGHT_PER_FONT_SIZE = 20 / 14;
+
+// Nothing measures text on the server. This fits Arial and the wider DejaVu
+// Sans that servers without Arial fall back to.
+const CHAR_WIDTH_PER_FONT_SIZE = 0.65;
+
+/**
+ * Fills in unset sizes so a full-resolution render looks like the canvas
+ * does at display size, i.e. scaled up by as much as the canvas shrinks it.
+ */
+export function annotationStyle(
+  size: ImageSize,
+  overrides: Partial<AnnotationStyle> = {}
+): AnnotationStyle {
+  const scale = Math.max(
+    1,
+    size.width / CANVAS_MAX_WIDTH,
+    size.height / CANVAS_MAX_HEIGHT
+  );
+  return {
+    lineWidth: overrides.lineWidth ?? CANVAS_STYLE.lineWidth * scale,
+    padding: overrides.padding ?? CANVAS_STYLE.padding * scale,
+    fontSize: overrides.fontSize ?? CANVAS_STYLE.fontSize * scale,
+    colors: overrides.colors ?? {},
+  };
+}
+
+function escapeXml(text: string) {
+  return text.replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" }[
+        c
+      ] as string)
+  );
+}
+
+/**
+ * An SVG overlay of `size` with a box and a `label (score%)` tag per
+ * detection, laid out like the canvas: labels are placed by descending score
+ * and higher scores paint on top.
+ */
+export function annotationSvg(
+  detections: Detection[],
+  size: ImageSize,
+  { lineWidth, padding, fontSize, colors }: AnnotationStyle
+): string {
+  const labelHeight = fontSize * LABEL_HEIGHT_PER_FONT_SIZE;
+  const texts = detections.map(
+    (d) => `${d.label} (${Math.round(d.score * 100)}%)`
+  );
+  const order = detections
+    .map((_, index) => index)
+    .sort((a, b) => detections[b].score - detections[a].score);
+  const labelRects = placeLabels(
+    detections.map((d) => d.box),
+    texts.map((text) => ({
+      width: text.length * fontSize * CHAR_WIDTH_PER_FONT_SIZE + padding * 2,
+      height: labelHeight,
+    })),
+    size.width,
+    size.height,
+    order
+  );
+
+  const shapes = [...order].reverse().map((index) => {
+    const { label, box } = detections[index];
+    const color = colors[label] ?? labelColor(label);
+    const rect = labelRects[index];
+    return [
+      `<rect x="${box.xmin}" y="${box.ymin}" width="${
+        box.xmax - box.xmin
+      }" height="${
+        box.ymax - box.ymin
+      }" fill="none" stroke="${color}" stroke-width="${lineWidth}"/>`,
+      `<rect x="${rect.xmin}" y="${rect.ymin}" width="${
+        rect.xmax - rect.xmin
+      }" height="${labelHeight}" fill="${color}" fill-opacity="0.85"/>`,
+      // Baseline a third of an em below the middle centers Arial's capitals.
+      `<text x="${rect.xmin + padding}" y="${
+        rect.ymin + labelHeight / 2 + fontSize / 3
+      }" fill="${textColorFor(color)}">${escapeXml(texts[index])}</text>`,
+    ].join("");
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}">`,
+    `<g font-family="Arial, Helvetica, sans-serif" font-size="${fontSize}">`,
+    ...shapes,
+    "</g></svg>",
+  ].join("");
+}
@@ -0,0 +1,180 @@
+import { Annotation } from "./evaluation";
+import { array, number, object, optional, parse, string } from "./schema";
+
+/**
+ * Ground truth by image, keyed with `annotationKey`. YOLO boxes are stored
+ * normalized because the image size is only known once it is loaded.
+ */
+export type GroundTruth = Map<
+  string,
+  { annotations: Annotation[]; normalized: boolean }
+>;
+
+/** File name without directories or extension, so `a/b.jpg` matches `b.txt`. */
+export function annotationKey(filename: string) {
+  const base = filename.split(/[\\/]/).pop() ?? filename;
+  return base.replace(/\.[^.]+$/, "").toLowerCase();
+}
+
+const CocoSchema = object({
+  images: array(
+    object({
+      id: number(),
+      file_name: string(),
+    })
+  ),
+  annotations: array(
+    object({
+      image_id: number(),
+      category_id: number(),
+      bbox: array(number()),
+      iscrowd: optional(number()),
+    })
+  ),
+  categories: array(object({ id: number(), name: string() })),
+});
+
+/** Reads a COCO detection file; crowd regions are skipped, as COCO ignores them. */
+export function parseCocoGroundTruth(
+  json: unknown
+): GroundTruth | { error: string } {
+  const coco = parse(CocoSchema, json);
+  if ("error" in coco) return { error: `Invalid COCO file: ${coco.error}` };
+
+  const { images, annotations, categories } = coco.value;
+  const names = new Map(categories.map((c) => [c.id, c.name]));
+  const keys = new Map(images.map((i) => [i.id, annotationKey(i.file_name)]));
+
+  const result: GroundTruth = new Map();
+  for (const key of Array.from(keys.values())) {
+    result.set(key, { annotations: [], normalized: false });
+  }
+  for (const annotation of annotations) {
+    if (annotation.iscrowd) continue;
+    const key = keys.get(annotation.image_id);
+    const entry = key === undefined ? undefined : result.get(key);
+    const label = names.get(annotation.category_id);
+    if (!entry || label === undefined) {
+      return {
+        error: `Annotation for image ${annotation.image_id} refers to an unknown image or category`,
+      };
+    }
+    if (annotation.bbox.length !== 4) {
+      return { error: "COCO boxes must be [x, y, width, height]" };
+    }
+    const [x, y, w, h] = annotation.bbox;
+    entry.annotations.push({
+      label,
+      box: { xmin: x, ymin: y, xmax: x + w, ymax: y + h },
+    });
+  }
+  return result;
+}
+
+/** Class names from a `classes.txt`, one per line; a line's index is its id. */
+export function parseClassNames(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reads YOLO label files (`class cx cy w h` per line, normalized 0-1).
+ * Without `classes`, class ids are used as labels.
+ */
+export function parseYoloGroundTruth(
+  files: { filename: string; text: string }[],
+  classes: string[] | null
+): GroundTruth | { error: string } {
+  const result: GroundTruth = new Map();
+  for (const { filename, text } of files) {
+    const annotations: Annotation[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      const values = line.split(/\s+/).map(Number);
+      const [id, cx, cy, w, h] = values;
+      if (values.length < 5 || values.some((v) => !Number.isFinite(v))) {
+        return {
+          error: `${filename} line ${i + 1}: expected "class cx cy w h"`,
+        };
+      }
+      const label = classes ? classes[id] : String(id);
+      if (label === undefined) {
+        return {
+          error: `${filename} line ${i + 1}: class ${id} is not in classes.txt`,
+        };
+      }
+      annotations.push({
+        label,
+        box: {
+          xmin: cx - w / 2,
+          ymin: cy - h / 2,
+          xmax: cx + w / 2,
+          ymax: cy + h / 2,
+        },
+      });
+    }
+    result.set(annotationKey(filename), { annotations, normalized: true });
+  }
+  return result;
+}
+
+/**
+ * Reads uploaded annotation files: one COCO `.json`, or YOLO `.txt` files
+ * with an optional `classes.txt`.
+ */
+export async function readGroundTruth(
+  files: File[]
+): Promise<GroundTruth | { error: string }> {
+  const json = files.filter((f) => f.name.toLowerCase().endsWith(".json"));
+  if (json.length > 1) return { error: "Upload a single COCO JSON file" };
+  if (json.length === 1) {
+    try {
+      return parseCocoGroundTruth(JSON.parse(await json[0].text()));
+    } catch {
+      return { error: `${json[0].name} is not valid JSON` };
+    }
+  }
+
+  const isClasses = (f: File) => f.name.toLowerCase() === "classes.txt";
+  const classesFile = files.find(isClasses);
+  const labelFiles = files.filter(
+    (f) => f.name.toLowerCase().endsWith(".txt") && !isClasses(f)
+  );
+  if (labelFiles.length === 0) {
+    return { error: "No COCO .json or YOLO .txt annotation files found" };
+  }
+  return parseYoloGroundTruth(
+    await Promise.all(
+      labelFiles.map(async (f) => ({ filename: f.name, text: await f.text() }))
+    ),
+    classesFile ? parseClassNames(await classesFile.text()) : null
+  );
+}
+
+/**
+ * Ground truth for an image in pixels, or `null` if the annotations don't
+ * cover it. An image listed without boxes has an empty array.
+ */
+export function groundTruthFor(
+  groundTruth: GroundTruth,
+  filename: string,
+  width: number,
+  height: number
+): Annotation[] | null {
+  const entry = groundTruth.get(annotationKey(filename));
+  if (!entry) return null;
+  if (!entry.normalized) return entry.annotations;
+  return entry.annotations.map(({ label, box }) => ({
+    label,
+    box: {
+      xmin: box.xmin * width,
+      ymin: box.ymin * height,
+      xmax: box.xmax * width,
+      ymax: box.ymax * height,
+    },
+  }));
+}
@@ -0,0 +1,127 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { JsonTable } from "./db";
+import { DatabaseError } from "./errors";
+
+export const API_SCOPES = ["detect", "admin"] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+interface StoredApiKey {
+  id: string;
+  name: string;
+  /** SHA-256 of the secret; the secret itself is only shown once. */
+  key_hash: string;
+  /** First characters of the secret, to tell keys apart in listings. */
+  prefix: string;
+  user_id: string;
+  scopes: ApiScope[];
+  /** Requests per minute; null uses `RATE_LIMIT_RPM`. */
+  rate_limit: number | null;
+  daily_quota: number | null;
+  monthly_quota: number | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  prefix: string;
+  userId: string;
+  scopes: ApiScope[];
+  rateLimit: number | null;
+  dailyQuota: number | null;
+  monthlyQuota: number | null;
+  createdAt: string;
+  revokedAt: string | null;
+};
+
+export type CreateApiKeyInput = {
+  name: string;
+  userId: string;
+  scopes: ApiScope[];
+  rateLimit?: number;
+  dailyQuota?: number;
+  monthlyQuota?: number;
+};
+
+const apiKeys = new JsonTable<StoredApiKey>("api_keys");
+
+const KEY_PREFIX = "rk_";
+
+const hashSecret = (secret: string) =>
+  createHash("sha256").update(secret).digest("hex");
+
+function toApiKey(row: StoredApiKey): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    userId: row.user_id,
+    scopes: row.scopes,
+    rateLimit: row.rate_limit,
+    dailyQuota: row.daily_quota,
+    monthlyQuota: row.monthly_quota,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+/**
+ * Issues a new key. The returned `secret` is the only copy; only its hash is
+ * stored.
+ */
+export async function createApiKey(
+  input: CreateApiKeyInput
+): Promise<{ key: ApiKey; secret: string }> {
+  const secret = KEY_PREFIX + randomBytes(24).toString("base64url");
+  const row: StoredApiKey = {
+    id: randomUUID(),
+    name: input.name,
+    key_hash: hashSecret(secret),
+    prefix: secret.slice(0, KEY_PREFIX.length + 6),
+    user_id: input.userId,
+    scopes: input.scopes,
+    rate_limit: input.rateLimit ?? null,
+    daily_quota: input.dailyQuota ?? null,
+    monthly_quota: input.monthlyQuota ?? null,
+    created_at: new Date().toISOString(),
+    revoked_at: null,
+  };
+  try {
+    await apiKeys.insert(row);
+  } catch (error) {
+    throw new DatabaseError("Failed to create API key", { cause: error });
+  }
+  return { key: toApiKey(row), secret };
+}
+
+/** The active key with this secret, or `null` if it is unknown or revoked. */
+export async function findApiKey(secret: string): Promise<ApiKey | null> {
+  if (!secret.startsWith(KEY_PREFIX)) return null;
+  const hash = hashSecret(secret);
+  const row = (await apiKeys.all()).find((key) => key.key_hash === hash);
+  return row && !row.revoked_at ? toApiKey(row) : null;
+}
+
+/** The active key with this id, or `null` if it is unknown or revoked. */
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+  const row = await apiKeys.find(id);
+  return row && !row.revoked_at ? toApiKey(row) : null;
+}
+
+/** Every key, revoked ones included, oldest first. */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return (await apiKeys.all()).map(toApiKey);
+}
+
+/** Revokes a key; `null` if there is no key with this id. */
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+  const existing = await apiKeys.find(id);
+  if (!existing) return null;
+  if (existing.revoked_at) return toApiKey(existing);
+  const row = await apiKeys.update(id, {
+    revoked_at: new Date().toISOString(),
+  });
+  return row ? toApiKey(row) : null;
+}
@@ -0,0 +1,301 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DetectApiResponse, DetectErrorBody } from "@/types/detection";
+import { Access, authorize, chargeQuota } from "./access";
+import {
+  DetectionError,
+  ImageTooLargeError,
+  InferenceHistoryError,
+  ProviderError,
+  RateLimitError,
+} from "./errors";
+import { MAX_UPLOAD_BYTES } from "./image";
+import { formatMegabytes } from "./image-format";
+import { Logger, logger } from "./logger";
+import { metrics, secondsSince } from "./metrics";
+import { ModelInfo, resolveModel } from "./models";
+import {
+  DetectionFieldValues,
+  DetectionParams,
+  TilingParams,
+  detectionParams,
+  tilingParams,
+} from "./params";
+import { DetectionProvider, getProvider } from "./providers";
+import { REQUEST_ID_HEADER, resolveRequestId } from "./request-id";
+import { Issue, Schema, formFields, parse } from "./schema";
+
+// Plumbing shared by the API routes, which can't export helpers themselves:
+// request logging and metrics, the error body contract, and reading the form
+// of a detection request.
+
+export type RequestContext = {
+  route: string;
+  log: Logger;
+  /** `performance.now()` when the request arrived. */
+  start: number;
+  /** Set once the response is a stream, which records itself when it ends. */
+  streaming: boolean;
+};
+
+/** Starts timing a request and gives it a logger carrying its id. */
+export function createRequestContext(
+  request: Request,
+  route: string
+): RequestContext {
+  return {
+    route,
+    log: logger.child({
+      requestId: resolveRequestId(request.headers.get(REQUEST_ID_HEADER)),
+      route,
+    }),
+    start: performance.now(),
+    streaming: false,
+  };
+}
+
+/** Counts the request by status and logs how long it took. */
+export function recordRequest(
+  { route, log, start }: RequestContext,
+  status: number
+) {
+  const seconds = secondsSince(start);
+  metrics.requests.inc({ route, status: String(status) });
+  metrics.requestDuration.observe({ route }, seconds);
+  log.info("request.completed", {
+    status,
+    durationMs: Math.round(seconds * 1000),
+  });
+}
+
+/** Maps a failed run to the status, headers and sanitized body the client sees. */
+export function errorBody(
+  error: unknown,
+  log: Logger
+): {
+  status: number;
+  headers?: Record<string, string>;
+  body: DetectErrorBody;
+} {
+  if (error instanceof ProviderError) {
+    // Raw upstream responses stay in the server log.
+    log.warn("detect.upstream_failed", {
+      code: error.code,
+      upstreamStatus: error.upstreamStatus ?? null,
+      details: error.details,
+    });
+    const retryAfter =
+      error.retryAfterMs === undefined
+        ? undefined
+        : Math.ceil(error.retryAfterMs / 1000);
+    return {
+      status: error.statusCode,
+      headers:
+        retryAfter === undefined
+          ? undefined
+          : { "Retry-After": String(retryAfter) },
+      body: {
+        error: error.message,
+        code: error.code,
+        retryable: error.retryable,
+        ...(retryAfter === undefined ? {} : { retryAfter }),
+      },
+    };
+  }
+  if (error instanceof RateLimitError) {
+    return {
+      status: error.statusCode,
+      headers: {
+        ...error.headers,
+        "Retry-After": String(error.retryAfterSeconds),
+      },
+      body: {
+        error: error.message,
+        code: error.code,
+        retryable: error.retryable,
+        retryAfter: error.retryAfterSeconds,
+      },
+    };
+  }
+  if (error instanceof DetectionError) {
+    return {
+      status: error.statusCode,
+      body: {
+        error: error.message,
+        code: error.code,
+        retryable: error.retryable,
+      },
+    };
+  }
+  if (error instanceof InferenceHistoryError) {
+    if (error.statusCode >= 500) {
+      log.error("request.failed", { error, cause: error.cause });
+    }
+    return {
+      status: error.statusCode,
+      body: {
+        error: error.message,
+        code: error.code,
+        retryable: error.statusCode >= 500,
+      },
+    };
+  }
+  log.error("detect.unexpected_error", { error });
+  return {
+    status: 500,
+    body: {
+      error: "Internal server error",
+      code: "internal_error",
+      retryable: true,
+    },
+  };
+}
+
+export function errorJson(
+  status: number,
+  body: DetectErrorBody,
+  headers?: Record<string, string>
+) {
+  const response: DetectApiResponse = { success: false, ...body };
+  return NextResponse.json(response, { status, headers });
+}
+
+/**
+ * The error response of a route outside the detection flow, logged with the
+ * request's id.
+ */
+export function errorResponse(error: unknown, request: Request, route: string) {
+  const { log } = createRequestContext(request, route);
+  const { status, headers, body } = errorBody(error, log);
+  return errorJson(status, body, headers);
+}
+
+export function badRequest(
+  message: string,
+  headers: Record<string, string>,
+  issues?: Issue[]
+) {
+  return errorJson(
+    400,
+    {
+      error: message,
+      code: "invalid_request",
+      retryable: false,
+      ...(issues ? { issues } : {}),
+    },
+    headers
+  );
+}
+
+/**
+ * A form field holding JSON, checked against `schema`; `null` when the field
+ * was not sent.
+ */
+export function readJsonField<T>(
+  name: string,
+  value: string | undefined,
+  schema: Schema<T>
+): T | { error: string } | null {
+  if (value === undefined) return null;
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    return { error: `${name} must be valid JSON` };
+  }
+  const parsed = parse(schema, json);
+  if ("error" in parsed) return { error: `${name} ${parsed.error}` };
+  return parsed.value;
+}
+
+// Room for the other form fields (zones, supplied detections and the like)
+// next to the uploads.
+const FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+export type DetectionRequest<T> = {
+  access: Access;
+  formData: FormData;
+  /** The form, checked against the route's schema. */
+  fields: T;
+  provider: DetectionProvider;
+  model?: ModelInfo;
+  params: DetectionParams;
+  tiling: TilingParams | null;
+};
+
+type DetectionRequestOptions = {
+  /**
+   * Charged against the quotas once the form and model check out; 0 when
+   * the route charges them itself.
+   */
+  cost?: number;
+  /** Uploads allowed in the body (default `MAX_UPLOAD_BYTES`). */
+  maxBytes?: number;
+  /** What `maxBytes` limits, for the error message. */
+  limitName?: string;
+};
+
+/**
+ * How the detection routes start: authorizes the caller, refuses oversized
+ * bodies before buffering them, checks the form against `schema`, resolves
+ * the provider, model and detection settings it asks for, and only then
+ * charges `cost`, so invalid requests don't use up quota.
+ *
+ * @returns The request, or the error response to send, which carries the
+ *   rate limit headers once the check passed
+ */
+export async function readDetectionRequest<
+  T extends DetectionFieldValues & { provider?: string; model?: string }
+>(
+  request: NextRequest,
+  schema: Schema<T>,
+  context: RequestContext,
+  {
+    cost = 1,
+    maxBytes = MAX_UPLOAD_BYTES,
+    limitName = "images",
+  }: DetectionRequestOptions = {}
+): Promise<DetectionRequest<T> | Response> {
+  // Rate limit headers go out with every response after the check passed.
+  let rateLimitHeaders: Record<string, string> = {};
+  try {
+    const access = await authorize(request, "detect", 0);
+    rateLimitHeaders = access.headers;
+
+    const length = Number(request.headers.get("content-length"));
+    if (length > maxBytes + FORM_OVERHEAD_BYTES) {
+      throw new ImageTooLargeError(
+        `Request is ${formatMegabytes(
+          length
+        )}; ${limitName} are limited to ${formatMegabytes(maxBytes)}`
+      );
+    }
+
+    const formData = await request.formData();
+    const form = parse(schema, formFields(formData));
+    if ("error" in form) {
+      return badRequest(form.error, rateLimitHeaders, form.issues);
+    }
+    const { value: fields } = form;
+
+    const resolved = resolveModel(fields.model, fields.provider);
+    if ("error" in resolved) {
+      return badRequest(resolved.error, rateLimitHeaders);
+    }
+    const { model } = resolved;
+    const provider = getProvider(fields.provider || model?.provider);
+
+    await chargeQuota(access, cost);
+    return {
+      access,
+      formData,
+      fields,
+      provider,
+      model,
+      params: detectionParams(fields, formData.getAll("labels").map(String)),
+      tiling: tilingParams(fields),
+    };
+  } catch (error) {
+    const { status, headers, body } = errorBody(error, context.log);
+    return errorJson(status, body, { ...rateLimitHeaders, ...headers });
+  }
+}
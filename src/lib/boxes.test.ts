@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { containsPoint, nonMaxSuppression, unscaleBox } from "./boxes";
+import { Detection } from "./types";
+
+const detection = (
+  label: string,
+  score: number,
+  xmin: number,
+  xmax: number
+): Detection => ({ label, score, box: { xmin, ymin: 0, xmax, ymax: 100 } });
+
+describe("nonMaxSuppression", () => {
+  it("keeps the highest-scoring box of overlapping duplicates", () => {
+    const kept = nonMaxSuppression([
+      detection("car", 0.6, 2, 102),
+      detection("car", 0.9, 0, 100),
+    ]);
+    expect(kept).toEqual([detection("car", 0.9, 0, 100)]);
+  });
+
+  it("only merges boxes of the same label", () => {
+    const kept = nonMaxSuppression([
+      detection("car", 0.9, 0, 100),
+      detection("truck", 0.8, 0, 100),
+    ]);
+    expect(kept.map((d) => d.label)).toEqual(["car", "truck"]);
+  });
+
+  it("merges across labels when not class-aware", () => {
+    const kept = nonMaxSuppression(
+      [detection("car", 0.9, 0, 100), detection("truck", 0.8, 0, 100)],
+      { classAware: false }
+    );
+    expect(kept.map((d) => d.label)).toEqual(["car"]);
+  });
+
+  it("keeps a nested object of the same label with IoU", () => {
+    const nested = [
+      detection("car", 0.9, 0, 300),
+      detection("car", 0.8, 100, 200),
+    ];
+    expect(nonMaxSuppression(nested)).toHaveLength(2);
+    expect(nonMaxSuppression(nested, { metric: "ios" })).toHaveLength(1);
+  });
+});
+
+describe("unscaleBox", () => {
+  it("maps a display box back to natural pixels, clamped to the image", () => {
+    const box = unscaleBox(
+      { xmin: 10, ymin: 20, xmax: 60, ymax: 110 },
+      1000,
+      800,
+      500,
+      400
+    );
+
+    expect(box).toEqual({ xmin: 20, ymin: 40, xmax: 120, ymax: 220 });
+    expect(
+      unscaleBox(
+        { xmin: -5, ymin: 0, xmax: 600, ymax: 50 },
+        1000,
+        800,
+        500,
+        400
+      )
+    ).toEqual({ xmin: 0, ymin: 0, xmax: 1000, ymax: 100 });
+  });
+});
+
+describe("containsPoint", () => {
+  it("includes the edges", () => {
+    const box = { xmin: 0, ymin: 0, xmax: 10, ymax: 10 };
+
+    expect(containsPoint(box, 10, 0)).toBe(true);
+    expect(containsPoint(box, 10.5, 5)).toBe(false);
+  });
+});
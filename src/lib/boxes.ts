@@ -1,4 +1,4 @@
-import { Detection } from "./types";
+import { BBox, Detection, Point } from "./types";
 
 export function clampBox(box: Detection["box"], w: number, h: number) {
   const xmin = Math.max(0, Math.min(box.xmin, w));
@@ -36,3 +36,170 @@ export function scaleDetections(
     };
   });
 }
+
+export function boxArea(box: BBox) {
+  return Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+}
+
+export function intersectionArea(a: BBox, b: BBox) {
+  const w = Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin);
+  const h = Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+export function iou(a: BBox, b: BBox) {
+  const inter = intersectionArea(a, b);
+  if (inter === 0) return 0;
+  return inter / (boxArea(a) + boxArea(b) - inter);
+}
+
+/**
+ * Intersection over the smaller box. Unlike IoU this stays high when one box
+ * is a fragment of the other, e.g. an object cut in half at a tile border.
+ */
+export function intersectionOverMin(a: BBox, b: BBox) {
+  const inter = intersectionArea(a, b);
+  if (inter === 0) return 0;
+  return inter / Math.min(boxArea(a), boxArea(b));
+}
+
+export function translateBox(box: BBox, dx: number, dy: number): BBox {
+  return {
+    xmin: box.xmin + dx,
+    ymin: box.ymin + dy,
+    xmax: box.xmax + dx,
+    ymax: box.ymax + dy,
+  };
+}
+
+/**
+ * How NMS measures overlap: `iou` (intersection over union) or `ios`
+ * (intersection over the smaller box, see `intersectionOverMin`).
+ */
+export const NMS_METRICS = ["iou", "ios"] as const;
+
+export type NmsMetric = (typeof NMS_METRICS)[number];
+
+export type NmsOptions = {
+  /** Overlap, in `metric`, above which the lower-scoring box is dropped. */
+  iouThreshold?: number;
+  /** Only suppress boxes that share a label. */
+  classAware?: boolean;
+  metric?: NmsMetric;
+};
+
+/**
+ * Keeps the highest-scoring box of each overlapping group. With `ios`, a
+ * fragment inside a larger box is dropped even when their IoU is low, which
+ * merges objects cut at tile borders but also drops a same-label object
+ * nested in another, e.g. a small car in front of a larger one.
+ */
+export function nonMaxSuppression(
+  dets: Detection[],
+  { iouThreshold = 0.5, classAware = true, metric = "iou" }: NmsOptions = {}
+) {
+  const overlap = metric === "ios" ? intersectionOverMin : iou;
+  const sorted = [...dets].sort((a, b) => b.score - a.score);
+  const kept: Detection[] = [];
+
+  for (const candidate of sorted) {
+    const suppressed = kept.some(
+      (k) =>
+        (!classAware || k.label === candidate.label) &&
+        overlap(k.box, candidate.box) > iouThreshold
+    );
+    if (!suppressed) kept.push(candidate);
+  }
+
+  return kept;
+}
+
+/** Inverse of `scaleDetections` for a single box: display → natural pixels. */
+export function unscaleBox(
+  box: BBox,
+  naturalW: number,
+  naturalH: number,
+  displayW: number,
+  displayH: number
+) {
+  const sx = naturalW / displayW;
+  const sy = naturalH / displayH;
+
+  return clampBox(
+    {
+      xmin: box.xmin * sx,
+      ymin: box.ymin * sy,
+      xmax: box.xmax * sx,
+      ymax: box.ymax * sy,
+    },
+    naturalW,
+    naturalH
+  );
+}
+
+export function containsPoint(box: BBox, x: number, y: number) {
+  return x >= box.xmin && x <= box.xmax && y >= box.ymin && y <= box.ymax;
+}
+
+export type BoxCorner = "nw" | "ne" | "sw" | "se";
+
+export const OPPOSITE_CORNER: Record<BoxCorner, BoxCorner> = {
+  nw: "se",
+  ne: "sw",
+  sw: "ne",
+  se: "nw",
+};
+
+export function boxCorners(box: BBox): Record<BoxCorner, Point> {
+  return {
+    nw: [box.xmin, box.ymin],
+    ne: [box.xmax, box.ymin],
+    sw: [box.xmin, box.ymax],
+    se: [box.xmax, box.ymax],
+  };
+}
+
+export function boxCenter(box: BBox): Point {
+  return [(box.xmin + box.xmax) / 2, (box.ymin + box.ymax) / 2];
+}
+
+/** Ray casting; points exactly on an edge may fall either way. */
+export function pointInPolygon([x, y]: Point, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Which side of the line a→b `p` lies on: 1 left, -1 right, 0 on it. */
+export function sideOfLine(p: Point, a: Point, b: Point) {
+  return Math.sign(
+    (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0])
+  );
+}
+
+/** Whether segment p1→p2 properly crosses segment a→b. */
+export function segmentsIntersect(p1: Point, p2: Point, a: Point, b: Point) {
+  return (
+    sideOfLine(p1, a, b) * sideOfLine(p2, a, b) < 0 &&
+    sideOfLine(a, p1, p2) * sideOfLine(b, p1, p2) < 0
+  );
+}
+
+/** Whether segment a→b touches the box: an end inside it or crossing an edge. */
+export function boxIntersectsSegment(box: BBox, a: Point, b: Point) {
+  if (containsPoint(box, ...a) || containsPoint(box, ...b)) return true;
+  const c = boxCorners(box);
+  const edges: [Point, Point][] = [
+    [c.nw, c.ne],
+    [c.ne, c.se],
+    [c.se, c.sw],
+    [c.sw, c.nw],
+  ];
+  return edges.some(([e1, e2]) => segmentsIntersect(a, b, e1, e2));
+}
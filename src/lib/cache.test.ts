@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DiskCache, LayeredCache, MemoryCache } from "./cache";
+
+describe("MemoryCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const cache = new MemoryCache<number>(2, 60_000);
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    // Reading `a` makes `b` the least recently used.
+    await cache.get("a");
+    await cache.set("c", 3);
+
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBe(3);
+  });
+
+  it("expires entries after the TTL", async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCache<number>(10, 1000);
+    await cache.set("a", 1);
+
+    vi.advanceTimersByTime(999);
+    expect(await cache.get("a")).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(await cache.get("a")).toBeUndefined();
+  });
+});
+
+describe("DiskCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "resario-cache-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps entries across instances", async () => {
+    await new DiskCache<string[]>(dir, 10, 60_000).set("key", ["car"]);
+
+    expect(await new DiskCache<string[]>(dir, 10, 60_000).get("key")).toEqual([
+      "car",
+    ]);
+  });
+
+  it("deletes expired entries when read", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const cache = new DiskCache<number>(dir, 10, 1000);
+    await cache.set("key", 1);
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.get("key")).toBeUndefined();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("prunes the least recently read entries past maxEntries", async () => {
+    const cache = new DiskCache<number>(dir, 2, 60_000);
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    const age = (seconds: number) => new Date(Date.now() - seconds * 1000);
+    await fs.utimes(path.join(dir, "a.json"), age(20), age(20));
+    await fs.utimes(path.join(dir, "b.json"), age(10), age(10));
+
+    // Reading `a` touches it, leaving `b` the oldest.
+    await cache.get("a");
+    await cache.set("c", 3);
+
+    expect((await fs.readdir(dir)).sort()).toEqual(["a.json", "c.json"]);
+  });
+});
+
+describe("LayeredCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "resario-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads through to disk and backfills memory", async () => {
+    const memory = new MemoryCache<number>(10, 60_000);
+    const disk = new DiskCache<number>(dir, 10, 60_000);
+    const getFromDisk = vi.spyOn(disk, "get");
+    await disk.set("key", 1);
+    const cache = new LayeredCache([memory, disk]);
+
+    expect(await cache.get("key")).toBe(1);
+    expect(await memory.get("key")).toBe(1);
+    await cache.get("key");
+    expect(getFromDisk).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes to every layer", async () => {
+    const memory = new MemoryCache<number>(10, 60_000);
+    await new LayeredCache([
+      memory,
+      new DiskCache<number>(dir, 10, 60_000),
+    ]).set("key", 1);
+
+    expect(await memory.get("key")).toBe(1);
+    expect(await new DiskCache<number>(dir, 10, 60_000).get("key")).toBe(1);
+  });
+});
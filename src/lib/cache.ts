@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { readJsonFile, writeJsonFile } from "./db";
+
+export interface CacheBackend<V> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, value: V): Promise<void>;
+}
+
+type Entry<V> = { value: V; expiresAt: number };
+
+/** In-memory LRU: reads refresh an entry, the least recently used goes first. */
+export class MemoryCache<V> implements CacheBackend<V> {
+  private entries = new Map<string, Entry<V>>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    // Maps iterate in insertion order, so re-inserting marks it most recent.
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * One JSON file per entry under `dir`. File mtimes are touched on reads so
+ * pruning past `maxEntries` drops the least recently used entries.
+ */
+export class DiskCache<V> implements CacheBackend<V> {
+  constructor(
+    private readonly dir: string,
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  private file(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string) {
+    const file = this.file(key);
+    const entry = await readJsonFile<Entry<V> | null>(file, null);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await fs.unlink(file).catch(() => undefined);
+      return undefined;
+    }
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => undefined);
+    return entry.value;
+  }
+
+  async set(key: string, value: V) {
+    await writeJsonFile(this.file(key), {
+      value,
+      expiresAt: Date.now() + this.ttlMs,
+    });
+    await this.prune();
+  }
+
+  private async prune() {
+    const names = (await fs.readdir(this.dir)).filter((name) =>
+      name.endsWith(".json")
+    );
+    if (names.length <= this.maxEntries) return;
+
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(this.dir, name);
+        const { mtimeMs } = await fs.stat(file);
+        return { file, mtimeMs };
+      })
+    );
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    await Promise.all(
+      files
+        .slice(0, files.length - this.maxEntries)
+        .map(({ file }) => fs.unlink(file).catch(() => undefined))
+    );
+  }
+}
+
+/**
+ * Reads through `layers` in order (fastest first) and backfills the faster
+ * layers on a hit. Writes go to every layer.
+ */
+export class LayeredCache<V> implements CacheBackend<V> {
+  constructor(private readonly layers: CacheBackend<V>[]) {}
+
+  async get(key: string) {
+    for (const [index, layer] of this.layers.entries()) {
+      const value = await layer.get(key);
+      if (value === undefined) continue;
+      await Promise.all(
+        this.layers.slice(0, index).map((faster) => faster.set(key, value))
+      );
+      return value;
+    }
+    return undefined;
+  }
+
+  async set(key: string, value: V) {
+    await Promise.all(this.layers.map((layer) => layer.set(key, value)));
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { labelColor, textColorFor, trackColor, withAlpha } from "./colors";
+
+describe("labelColor", () => {
+  it("is the same for a label in any case", () => {
+    expect(labelColor("Person")).toBe(labelColor("person"));
+    expect(labelColor("person")).toMatch(/^#[0-9A-F]{6}$/);
+  });
+});
+
+describe("trackColor", () => {
+  it("gives neighbouring track ids different colors", () => {
+    const colors = [1, 2, 3, 4, 5].map(trackColor);
+
+    expect(new Set(colors).size).toBe(5);
+    for (const color of colors) expect(color).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
+
+describe("withAlpha", () => {
+  it("converts hex to rgba", () => {
+    expect(withAlpha("#FF6B6B", 0.5)).toBe("rgba(255, 107, 107, 0.5)");
+  });
+});
+
+describe("textColorFor", () => {
+  it("picks dark text on light colors and white on dark ones", () => {
+    expect(textColorFor("#FFEAA7")).toBe("#111827");
+    expect(textColorFor("#1E3A8A")).toBe("#ffffff");
+  });
+});
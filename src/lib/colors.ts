@@ -0,0 +1,76 @@
+import { MatchKind } from "./evaluation";
+
+const PALETTE = [
+  "#FF6B6B",
+  "#4ECDC4",
+  "#45B7D1",
+  "#96CEB4",
+  "#FFEAA7",
+  "#DDA0DD",
+  "#98D8C8",
+  "#F7DC6F",
+  "#BB8FCE",
+  "#85C1E9",
+];
+
+function hashString(value: string) {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Stable color for a class label, so the same label looks the same on the
+ * canvas, in the result cards and across images.
+ */
+export function labelColor(label: string): string {
+  return PALETTE[hashString(label.toLowerCase()) % PALETTE.length];
+}
+
+/**
+ * Distinct color per track id. Successive ids are spread around the hue
+ * circle by the golden angle so neighbouring tracks never look alike.
+ */
+export function trackColor(id: number): string {
+  const hue = (id * 137.508) % 360;
+  const s = 0.7;
+  const l = 0.55;
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const c =
+      l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+export function withAlpha(hex: string, alpha: number): string {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/** Black or white, whichever reads better on `hex`. */
+export function textColorFor(hex: string): string {
+  const [r, g, b] = hexToRgb(hex);
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? "#111827" : "#ffffff";
+}
+
+/** Evaluation outcome colors: found, wrong and missed boxes. */
+export const MATCH_COLORS: Record<MatchKind, string> = {
+  tp: "#22C55E",
+  fp: "#EF4444",
+  fn: "#F59E0B",
+};
+
+/** Ground-truth boxes that a prediction matched. */
+export const GROUND_TRUTH_COLOR = "#E5E7EB";
@@ -0,0 +1,61 @@
+import { iou } from "./boxes";
+import { matchBoxes } from "./evaluation";
+import { Detection } from "./types";
+
+/** One object as seen by each compared run. */
+export type ComparedObject = {
+  label: string;
+  /** Per run, the index of its detection of this object, or `null`. */
+  members: (number | null)[];
+  /** Lowest IoU between a member and the first run that found the object. */
+  minIou: number | null;
+};
+
+/**
+ * Groups the detections of several runs on the same image into objects:
+ * boxes with the same label whose IoU with the object's first box reaches
+ * `iouThreshold` are taken to be the same object, matched greedily by score
+ * as in evaluation.
+ */
+export function compareDetections(
+  runs: Detection[][],
+  iouThreshold: number = 0.5
+): ComparedObject[] {
+  const objects: (ComparedObject & { first: Detection })[] = [];
+
+  runs.forEach((detections, run) => {
+    // Objects found by earlier runs, stand-ins for ground truth.
+    const open = objects.filter((o) => o.members[run] === null);
+    const matches = matchBoxes(
+      detections,
+      open.map((o) => o.first),
+      iouThreshold
+    );
+
+    detections.forEach((detection, index) => {
+      const match = matches[index];
+      if (match === null) {
+        const members = runs.map((): number | null => null);
+        members[run] = index;
+        objects.push({
+          label: detection.label,
+          members,
+          minIou: null,
+          first: detection,
+        });
+        return;
+      }
+      const object = open[match];
+      object.members[run] = index;
+      const overlap = iou(object.first.box, detection.box);
+      object.minIou =
+        object.minIou === null ? overlap : Math.min(object.minIou, overlap);
+    });
+  });
+
+  return objects.map(({ label, members, minIou }) => ({
+    label,
+    members,
+    minIou,
+  }));
+}
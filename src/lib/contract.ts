@@ -0,0 +1,437 @@
+import { MAX_DETECTIONS_LIMIT } from "./params";
+import { RENDER_FORMATS } from "./annotation-svg";
+import { NMS_METRICS } from "./boxes";
+import { MAX_REDACTION_PADDING, REDACTION_METHODS } from "./redaction";
+import {
+  array,
+  boolean,
+  describe,
+  enumOf,
+  extend,
+  file,
+  flag,
+  literal,
+  nullable,
+  number,
+  numeric,
+  object,
+  optional,
+  record,
+  string,
+  union,
+} from "./schema";
+
+/**
+ * The `/api/v1` contract. Request, upstream and response shapes are defined
+ * here once; the TypeScript types are inferred from these schemas and the
+ * OpenAPI document is generated from them.
+ */
+export const API_VERSION = "v1";
+
+export const BBoxSchema = object({
+  xmin: number(),
+  ymin: number(),
+  xmax: number(),
+  ymax: number(),
+});
+
+/** One detected object. Also the shape Hugging Face returns per object. */
+export const DetectionSchema = object({
+  label: string(),
+  score: number({ min: 0, max: 1 }),
+  box: describe(BBoxSchema, "Pixel coordinates"),
+});
+
+export const ImageSizeSchema = object({
+  width: number({ min: 0, integer: true }),
+  height: number({ min: 0, integer: true }),
+});
+
+export const ZoneKindSchema = enumOf(["polygon", "line"]);
+
+export const ZoneResultSchema = object({
+  zoneId: string(),
+  name: string(),
+  kind: ZoneKindSchema,
+  count: describe(
+    number({ min: 0, integer: true }),
+    "Polygons: detections whose box center is inside. Lines: detections whose box touches the line."
+  ),
+  byLabel: record(number({ min: 0, integer: true })),
+});
+
+export const NmsMetricSchema = enumOf(NMS_METRICS);
+
+export const DetectionParamsSchema = object({
+  minScore: number({ min: 0, max: 1 }),
+  maxDetections: optional(number({ min: 1, integer: true })),
+  labels: optional(array(string())),
+});
+
+export const DetectResponseSchema = object({
+  inferenceId: describe(
+    nullable(string()),
+    "History id, null when the result was not saved"
+  ),
+  detections: describe(
+    array(DetectionSchema),
+    "In the original image's pixel space, after EXIF orientation"
+  ),
+  image: object({ original: ImageSizeSchema, inference: ImageSizeSchema }),
+  provider: string(),
+  model: nullable(string()),
+  params: DetectionParamsSchema,
+  tiling: nullable(
+    object({
+      tileSize: number(),
+      overlap: number(),
+      nmsThreshold: number(),
+      nmsMetric: NmsMetricSchema,
+      tiles: number({ min: 0, integer: true }),
+    })
+  ),
+  cached: describe(
+    boolean(),
+    "Answered from the result cache without calling the provider"
+  ),
+  zones: describe(
+    nullable(array(ZoneResultSchema)),
+    "Zone occupancy, when `zones` or `project` was sent"
+  ),
+});
+
+export const DETECT_ERROR_CODES = [
+  "invalid_request",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "quota_exceeded",
+  "image_too_large",
+  "unsupported_media_type",
+  "invalid_image",
+  "fetch_failed",
+  "timeout",
+  "model_loading",
+  "rate_limited",
+  "circuit_open",
+  "upstream_timeout",
+  "upstream_unavailable",
+  "upstream_rejected",
+  "upstream_misconfigured",
+  "bad_upstream_response",
+  "internal_error",
+] as const;
+
+export const DetectErrorBodySchema = object({
+  error: string(),
+  code: enumOf(DETECT_ERROR_CODES),
+  retryable: describe(
+    boolean(),
+    "Whether the same request may succeed if sent again later"
+  ),
+  retryAfter: optional(
+    describe(
+      number({ min: 0 }),
+      "Seconds to wait before retrying, when the upstream said so"
+    )
+  ),
+  issues: optional(
+    describe(
+      array(object({ path: string(), message: string() })),
+      "Every invalid field, for `invalid_request`"
+    )
+  ),
+});
+
+/** Body of a non-streamed `/api/v1/detect` response, told apart by `success`. */
+export const DetectApiResponseSchema = union(
+  extend(DetectResponseSchema, { success: literal(true) }),
+  extend(DetectErrorBodySchema, { success: literal(false) })
+);
+
+export const DetectStageSchema = enumOf([
+  "received",
+  "resized",
+  "detecting",
+  "tiles",
+  "done",
+]);
+
+export const DetectProgressSchema = object({
+  stage: DetectStageSchema,
+  completed: optional(
+    describe(number({ min: 0, integer: true }), "Tiles finished")
+  ),
+  total: optional(describe(number({ min: 0, integer: true }), "Tiles planned")),
+  detections: optional(
+    describe(
+      array(DetectionSchema),
+      "Found so far with the request's params applied; final results may still merge or drop some"
+    )
+  ),
+});
+
+/** One line of a streamed (`stream=true`) response. */
+export const DetectStreamEventSchema = union(
+  extend(DetectProgressSchema, { type: literal("progress") }),
+  object({ type: literal("result"), result: DetectResponseSchema }),
+  extend(DetectErrorBodySchema, {
+    type: literal("error"),
+    status: number({ integer: true }),
+  })
+);
+
+// Fields choosing the model and what it detects, shared by detect and redact.
+const detectionFields = {
+  image: file(),
+  provider: optional(describe(string(), "Provider id, see the README")),
+  model: optional(describe(string(), "Model id from `/api/models`")),
+  minScore: optional(
+    describe(numeric({ min: 0, max: 1 }), "Minimum confidence (default 0.3)")
+  ),
+  maxDetections: optional(
+    describe(
+      numeric({ min: 1, max: MAX_DETECTIONS_LIMIT, integer: true }),
+      "Keep only the N highest-scoring detections"
+    )
+  ),
+  labels: optional(
+    describe(string(), "Label allow-list, repeated or comma-separated")
+  ),
+  tiling: optional(
+    describe(flag(), "Also run the model over tiles of the full image")
+  ),
+  tileSize: optional(numeric({ min: 128, max: 2048, integer: true })),
+  tileOverlap: optional(numeric({ min: 0, max: 0.5 })),
+  nmsThreshold: optional(
+    describe(
+      numeric({ min: 0, max: 1 }),
+      "Overlap, in `nmsMetric`, above which duplicates are merged (default 0.5)"
+    )
+  ),
+  nmsMetric: optional(
+    describe(
+      NmsMetricSchema,
+      "`iou` (default), or `ios` to also merge objects cut at tile borders"
+    )
+  ),
+};
+
+const hexColor = () => string({ pattern: /^#[0-9a-fA-F]{6}$/ });
+
+const suppliedDetections = optional(
+  describe(
+    string(),
+    "JSON array of detections to use instead of running the model, e.g. corrected boxes"
+  )
+);
+
+/** Multipart fields of `POST /api/v1/detect`. */
+export const DetectFormSchema = object({
+  ...detectionFields,
+  zones: optional(describe(string(), "JSON array of zones to evaluate")),
+  project: optional(
+    describe(
+      string({ pattern: /^[\w-]{1,64}$/ }),
+      "Use the zones saved for this project"
+    )
+  ),
+  save: optional(describe(flag(), "false to skip storing the result")),
+  noCache: optional(describe(flag(), "true to skip the result cache")),
+  stream: optional(describe(flag(), "true to stream NDJSON progress events")),
+});
+
+export const RedactionMethodSchema = enumOf(REDACTION_METHODS);
+
+/** Multipart fields of `POST /api/v1/redact`. */
+export const RedactFormSchema = object({
+  ...detectionFields,
+  labels: optional(
+    describe(
+      string(),
+      "Labels to redact, repeated or comma-separated (default: every detection)"
+    )
+  ),
+  method: optional(describe(RedactionMethodSchema, "Default `blur`")),
+  padding: optional(
+    describe(
+      numeric({ min: 0, max: MAX_REDACTION_PADDING }),
+      "Grows each box by this fraction of its size on every side (default 0.1)"
+    )
+  ),
+  color: optional(
+    describe(hexColor(), "Fill color for `fill`, as #rrggbb (default #000000)")
+  ),
+  detections: suppliedDetections,
+});
+
+export const RenderFormatSchema = enumOf(RENDER_FORMATS);
+
+/** Box colors by label, sent as JSON in the `colors` field. */
+export const LabelColorsSchema = record(hexColor());
+
+/** Multipart fields of `POST /api/v1/render`. */
+export const RenderFormSchema = object({
+  ...detectionFields,
+  detections: suppliedDetections,
+  format: optional(describe(RenderFormatSchema, "Default `png`")),
+  lineWidth: optional(
+    describe(numeric({ min: 0.5, max: 100 }), "Box outline width in pixels")
+  ),
+  padding: optional(
+    describe(numeric({ min: 0, max: 100 }), "Space around label text in pixels")
+  ),
+  fontSize: optional(
+    describe(numeric({ min: 4, max: 400 }), "Label text size in pixels")
+  ),
+  colors: optional(
+    describe(
+      string(),
+      'JSON object of box colors by label, e.g. {"person": "#ff0000"}'
+    )
+  ),
+});
+
+export const RedactedRegionSchema = object({
+  label: string(),
+  score: number({ min: 0, max: 1 }),
+  box: describe(BBoxSchema, "The detection, in pixels"),
+  region: describe(
+    object({
+      left: number({ min: 0, integer: true }),
+      top: number({ min: 0, integer: true }),
+      width: number({ min: 1, integer: true }),
+      height: number({ min: 1, integer: true }),
+    }),
+    "The pixels that were redacted: the padded box, clipped to the image"
+  ),
+});
+
+export const RedactResponseSchema = object({
+  image: object({
+    format: describe(string(), "Same as the upload, e.g. `jpeg` or `png`"),
+    width: number({ min: 0, integer: true }),
+    height: number({ min: 0, integer: true }),
+    data: describe(
+      string(),
+      "Base64 of the full-resolution redacted image, metadata stripped"
+    ),
+  }),
+  method: RedactionMethodSchema,
+  padding: number({ min: 0 }),
+  regions: describe(array(RedactedRegionSchema), "Audit of what was redacted"),
+  provider: describe(
+    nullable(string()),
+    "Null when `detections` were supplied"
+  ),
+  model: nullable(string()),
+  cached: boolean(),
+});
+
+/** Body of a `/api/v1/redact` response, told apart by `success`. */
+export const RedactApiResponseSchema = union(
+  extend(RedactResponseSchema, { success: literal(true) }),
+  extend(DetectErrorBodySchema, { success: literal(false) })
+);
+
+const httpUrl = () => string({ pattern: /^https?:\/\/\S+$/i });
+
+/** Multipart fields of `POST /api/v1/jobs`. */
+export const JobFormSchema = object({
+  ...detectionFields,
+  image: optional(describe(file(), "An image; repeat for several")),
+  url: optional(
+    describe(httpUrl(), "An http(s) image URL to download; repeat for several")
+  ),
+  save: optional(describe(flag(), "false to skip storing the results")),
+  webhookUrl: optional(
+    describe(httpUrl(), "Receives a signed `job.completed` POST when done")
+  ),
+  webhookSecret: optional(
+    describe(
+      string({ maxLength: 256 }),
+      "Signs the webhook instead of the server's `WEBHOOK_SECRET`"
+    )
+  ),
+});
+
+export const JobStatusSchema = enumOf(["queued", "running", "completed"]);
+
+export const JobItemStatusSchema = enumOf([
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+]);
+
+export const JobItemSchema = object({
+  index: describe(
+    number({ min: 0, integer: true }),
+    "Position among the submitted images, uploads before URLs"
+  ),
+  filename: describe(nullable(string()), "Upload filename, null for URLs"),
+  url: nullable(string()),
+  status: JobItemStatusSchema,
+  attempts: describe(
+    number({ min: 0, integer: true }),
+    "Runs so far; retryable failures are tried again"
+  ),
+  result: nullable(
+    object({
+      inferenceId: describe(
+        nullable(string()),
+        "History id, null when the job has `save=false`"
+      ),
+      detections: array(DetectionSchema),
+      image: ImageSizeSchema,
+      cached: boolean(),
+    })
+  ),
+  error: describe(
+    nullable(DetectErrorBodySchema),
+    "Why the image failed, as a detect error body"
+  ),
+});
+
+export const JobSchema = object({
+  id: string(),
+  status: JobStatusSchema,
+  provider: string(),
+  model: nullable(string()),
+  params: DetectionParamsSchema,
+  tiling: nullable(
+    object({
+      tileSize: number(),
+      overlap: number(),
+      nmsThreshold: number(),
+      nmsMetric: NmsMetricSchema,
+    })
+  ),
+  save: boolean(),
+  progress: object({
+    total: number({ min: 0, integer: true }),
+    queued: number({ min: 0, integer: true }),
+    running: number({ min: 0, integer: true }),
+    succeeded: number({ min: 0, integer: true }),
+    failed: number({ min: 0, integer: true }),
+  }),
+  webhook: nullable(
+    object({
+      url: string(),
+      status: enumOf(["pending", "delivered", "failed"]),
+      attempts: number({ min: 0, integer: true }),
+      lastError: nullable(string()),
+      deliveredAt: nullable(string()),
+    })
+  ),
+  items: array(JobItemSchema),
+  createdAt: string(),
+  startedAt: nullable(string()),
+  completedAt: nullable(string()),
+});
+
+/** Body of a `/api/v1/jobs` response, told apart by `success`. */
+export const JobApiResponseSchema = union(
+  extend(object({ job: JobSchema }), { success: literal(true) }),
+  extend(DetectErrorBodySchema, { success: literal(false) })
+);
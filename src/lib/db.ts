@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DatabaseError } from "./errors";
+
+export const DATA_DIR =
+  process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Serializes async work per key so concurrent requests in the same process
+ * never interleave read-modify-write cycles on the same file.
+ */
+export function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  locks.set(
+    key,
+    next.catch(() => undefined)
+  );
+  return next;
+}
+
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw new DatabaseError(`Failed to read ${path.basename(file)}`, {
+      cause: error,
+    });
+  }
+}
+
+/** Writes via a temp file and rename so a crash never leaves half a file. */
+export async function writeJsonFile(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * A table of rows persisted as a single JSON file under `DATA_DIR`.
+ * Good enough for a single-node deployment without a database server.
+ */
+export class JsonTable<T extends { id: string }> {
+  private file: string;
+
+  constructor(name: string) {
+    this.file = path.join(DATA_DIR, `${name}.json`);
+  }
+
+  all(): Promise<T[]> {
+    return readJsonFile<T[]>(this.file, []);
+  }
+
+  async find(id: string): Promise<T | undefined> {
+    return (await this.all()).find((row) => row.id === id);
+  }
+
+  insert(...rows: T[]): Promise<void> {
+    return this.mutate((current) => [...current, ...rows]);
+  }
+
+  update(id: string, patch: Partial<T>): Promise<T | undefined> {
+    let updated: T | undefined;
+    return this.mutate((current) =>
+      current.map((row) => {
+        if (row.id !== id) return row;
+        updated = { ...row, ...patch };
+        return updated;
+      })
+    ).then(() => updated);
+  }
+
+  /** Inserts `row`, or replaces the row with the same id. */
+  upsert(row: T): Promise<void> {
+    return this.mutate((current) => [
+      ...current.filter((r) => r.id !== row.id),
+      row,
+    ]);
+  }
+
+  async deleteWhere(predicate: (row: T) => boolean): Promise<T[]> {
+    let deleted: T[] = [];
+    await this.mutate((current) => {
+      deleted = current.filter(predicate);
+      return current.filter((row) => !predicate(row));
+    });
+    return deleted;
+  }
+
+  private mutate(fn: (rows: T[]) => T[]): Promise<void> {
+    return withLock(this.file, async () => {
+      const rows = await this.all();
+      await writeJsonFile(this.file, fn(rows));
+    });
+  }
+}
@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DetectResponse } from "@/types/detection";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectRequestError,
+  detectImage,
+} from "./detectClient";
+
+const file = new File(["image"], "cat.png", { type: "image/png" });
+
+const result: DetectResponse = {
+  inferenceId: null,
+  detections: [
+    { label: "cat", score: 0.9, box: { xmin: 1, ymin: 2, xmax: 3, ymax: 4 } },
+  ],
+  image: {
+    original: { width: 640, height: 480 },
+    inference: { width: 512, height: 384 },
+  },
+  provider: "mock",
+  model: null,
+  params: { minScore: 0.3 },
+  tiling: null,
+  cached: false,
+  zones: null,
+};
+
+function answering(response: Response) {
+  const fetch = vi.fn(async () => response);
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+/** A response streaming `lines` as NDJSON. */
+function stream(...lines: string[]) {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const line of lines) controller.enqueue(encoder.encode(line));
+        controller.close();
+      },
+    })
+  );
+}
+
+/** The rejection of `promise`, which must be a `DetectRequestError`. */
+async function requestError(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => expect.fail("expected a rejection"),
+    (error) => error
+  );
+  expect(error).toBeInstanceOf(DetectRequestError);
+  return error as DetectRequestError;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("detectImage", () => {
+  it("sends the image and settings and returns the result", async () => {
+    const fetch = answering(Response.json({ success: true, ...result }));
+
+    expect(
+      await detectImage(file, { ...DEFAULT_DETECTION_SETTINGS, labels: "cat" })
+    ).toEqual({ success: true, ...result });
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const form = init.body as FormData;
+    expect(url).toBe("/api/v1/detect");
+    expect(form.get("labels")).toBe("cat");
+    expect(form.get("minScore")).toBe(
+      String(DEFAULT_DETECTION_SETTINGS.minScore)
+    );
+  });
+
+  it("throws the server's error with its retry hints", async () => {
+    answering(
+      Response.json(
+        {
+          success: false,
+          error: "Too many requests",
+          code: "rate_limited",
+          retryable: true,
+          retryAfter: 7,
+        },
+        { status: 429 }
+      )
+    );
+
+    const error = await requestError(
+      detectImage(file, DEFAULT_DETECTION_SETTINGS)
+    );
+    expect(error).toMatchObject({
+      message: "Too many requests",
+      status: 429,
+      retryable: true,
+      retryAfter: 7,
+    });
+  });
+
+  it("judges errors without a body by their status", async () => {
+    answering(new Response("Bad gateway", { status: 502 }));
+    const gateway = await requestError(
+      detectImage(file, DEFAULT_DETECTION_SETTINGS)
+    );
+    expect(gateway).toMatchObject({ status: 502, retryable: true });
+
+    answering(new Response("Not found", { status: 404 }));
+    const missing = await requestError(
+      detectImage(file, DEFAULT_DETECTION_SETTINGS)
+    );
+    expect(missing).toMatchObject({ status: 404, retryable: false });
+  });
+
+  it("reports the rate limit policy", async () => {
+    answering(
+      Response.json(
+        { success: true, ...result },
+        { headers: { "RateLimit-Policy": "120;w=60" } }
+      )
+    );
+    const onRateLimit = vi.fn();
+
+    await detectImage(file, DEFAULT_DETECTION_SETTINGS, { onRateLimit });
+    expect(onRateLimit).toHaveBeenCalledWith({ limit: 120, windowSeconds: 60 });
+  });
+});
+
+describe("detectImage streaming", () => {
+  it("reports progress and returns the result line", async () => {
+    const resultLine = JSON.stringify({ type: "result", result });
+    answering(
+      stream(
+        '{"type":"progress","stage":"received"}\n{"type":"progress",',
+        '"stage":"tiles","completed":1,"total":4}\n',
+        `${resultLine.slice(0, 10)}`,
+        `${resultLine.slice(10)}\n`
+      )
+    );
+    const onProgress = vi.fn();
+
+    expect(
+      await detectImage(file, DEFAULT_DETECTION_SETTINGS, { onProgress })
+    ).toEqual(result);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { stage: "received" },
+      { stage: "tiles", completed: 1, total: 4 },
+    ]);
+  });
+
+  it("throws an error event", async () => {
+    answering(
+      stream(
+        JSON.stringify({
+          type: "error",
+          error: "The model timed out",
+          code: "timeout",
+          status: 408,
+          retryable: true,
+        }) + "\n"
+      )
+    );
+
+    const error = await requestError(
+      detectImage(file, DEFAULT_DETECTION_SETTINGS, { onProgress: vi.fn() })
+    );
+    expect(error).toMatchObject({
+      message: "The model timed out",
+      status: 408,
+    });
+  });
+
+  it("refuses malformed lines and streams that end early", async () => {
+    answering(stream("not json\n"));
+    const malformed = await requestError(
+      detectImage(file, DEFAULT_DETECTION_SETTINGS, { onProgress: vi.fn() })
+    );
+    expect(malformed.status).toBe(502);
+
+    answering(stream('{"type":"progress","stage":"received"}\n'));
+    const ended = await requestError(
+      detectImage(file, DEFAULT_DETECTION_SETTINGS, { onProgress: vi.fn() })
+    );
+    expect(ended).toMatchObject({
+      message: "Detection stream ended unexpectedly",
+      status: 502,
+    });
+  });
+});
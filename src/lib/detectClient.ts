@@ -0,0 +1,287 @@
+import {
+  DetectProgress,
+  DetectResponse,
+  RedactResponse,
+} from "@/types/detection";
+import {
+  API_VERSION,
+  DetectApiResponseSchema,
+  DetectStreamEventSchema,
+  RedactApiResponseSchema,
+} from "./contract";
+import { RenderFormat } from "./annotation-svg";
+import { DEFAULT_MIN_SCORE } from "./params";
+import { RedactionMethod } from "./redaction";
+import { parse } from "./schema";
+import { Detection } from "./types";
+
+export type DetectionSettingsValue = {
+  model: string;
+  minScore: number;
+  maxDetections: string;
+  labels: string;
+  tiling: boolean;
+};
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettingsValue = {
+  model: "",
+  minScore: DEFAULT_MIN_SCORE,
+  maxDetections: "",
+  labels: "",
+  tiling: false,
+};
+
+export function appendDetectionSettings(
+  formData: FormData,
+  settings: DetectionSettingsValue
+) {
+  if (settings.model) formData.append("model", settings.model);
+  formData.append("minScore", String(settings.minScore));
+  if (settings.maxDetections) {
+    formData.append("maxDetections", settings.maxDetections);
+  }
+  if (settings.labels.trim()) formData.append("labels", settings.labels);
+  if (settings.tiling) formData.append("tiling", "true");
+}
+
+export class DetectRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    private serverRetryable?: boolean,
+    /** Seconds the server asked to wait, e.g. on a rate limit. */
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "DetectRequestError";
+  }
+
+  /**
+   * Whether the server said another attempt may succeed. Without a body
+   * (e.g. a proxy error), timeouts, rate limits and server errors are.
+   */
+  get retryable() {
+    return (
+      this.serverRetryable ??
+      (this.status === 408 || this.status === 429 || this.status >= 500)
+    );
+  }
+}
+
+/** A `RateLimit-Policy` header: `limit` requests per `windowSeconds`. */
+export type RateLimitPolicy = { limit: number; windowSeconds: number };
+
+function readRateLimitPolicy(headers: Headers): RateLimitPolicy | null {
+  const match = /^(\d+);w=(\d+)$/.exec(headers.get("RateLimit-Policy") ?? "");
+  if (!match || Number(match[2]) === 0) return null;
+  return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+export type DetectImageOptions = {
+  signal?: AbortSignal;
+  /** Store the result in history (default true). */
+  save?: boolean;
+  /** Allow answers from the server's result cache (default true). */
+  cache?: boolean;
+  /** Streams progress from the server; called for every stage. */
+  onProgress?: (progress: DetectProgress) => void;
+  /** Called with the caller's rate limit whenever the server reports it. */
+  onRateLimit?: (policy: RateLimitPolicy) => void;
+};
+
+export async function detectImage(
+  file: File,
+  settings: DetectionSettingsValue,
+  {
+    signal,
+    save = true,
+    cache = true,
+    onProgress,
+    onRateLimit,
+  }: DetectImageOptions = {}
+): Promise<DetectResponse> {
+  const formData = new FormData();
+  formData.append("image", file);
+  appendDetectionSettings(formData, settings);
+  if (!save) formData.append("save", "false");
+  if (!cache) formData.append("noCache", "true");
+  if (onProgress) formData.append("stream", "true");
+
+  const response = await fetch(`/api/${API_VERSION}/detect`, {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+  const policy = readRateLimitPolicy(response.headers);
+  if (policy) onRateLimit?.(policy);
+
+  if (onProgress && response.ok && response.body) {
+    return readDetectStream(response.body, onProgress);
+  }
+
+  const data = parse(
+    DetectApiResponseSchema,
+    await response.json().catch(() => null)
+  );
+  if ("error" in data) {
+    throw new DetectRequestError(
+      response.ok ? "Unexpected response from the server" : "Detection failed",
+      response.ok ? 502 : response.status
+    );
+  }
+  if (!data.value.success) {
+    throw new DetectRequestError(
+      data.value.error,
+      response.status,
+      data.value.retryable,
+      data.value.retryAfter
+    );
+  }
+
+  return data.value;
+}
+
+async function readDetectStream(
+  body: ReadableStream<Uint8Array>,
+  onProgress: (progress: DetectProgress) => void
+): Promise<DetectResponse> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let json: unknown;
+      try {
+        json = JSON.parse(line);
+      } catch {
+        throw new DetectRequestError(
+          "Unexpected response from the server",
+          502
+        );
+      }
+      const parsed = parse(DetectStreamEventSchema, json);
+      if ("error" in parsed) {
+        throw new DetectRequestError(
+          "Unexpected response from the server",
+          502
+        );
+      }
+      const event = parsed.value;
+      if (event.type === "progress") {
+        const { stage, completed, total, detections } = event;
+        onProgress({ stage, completed, total, detections });
+      } else if (event.type === "result") {
+        return event.result;
+      } else {
+        throw new DetectRequestError(
+          event.error,
+          event.status,
+          event.retryable
+        );
+      }
+    }
+  }
+
+  throw new DetectRequestError("Detection stream ended unexpectedly", 502);
+}
+
+export type RedactionRequest = {
+  /** Boxes to redact; the server doesn't run the model again. */
+  detections: Detection[];
+  method: RedactionMethod;
+  padding: number;
+  color?: string;
+  signal?: AbortSignal;
+};
+
+/** Sends an image to `/api/v1/redact` and returns the redacted copy. */
+export async function redactImage(
+  image: Blob,
+  filename: string,
+  { detections, method, padding, color, signal }: RedactionRequest
+): Promise<RedactResponse> {
+  const formData = new FormData();
+  formData.append("image", image, filename);
+  formData.append("detections", JSON.stringify(detections));
+  // The boxes are already filtered by the caller.
+  formData.append("minScore", "0");
+  formData.append("method", method);
+  formData.append("padding", String(padding));
+  if (color) formData.append("color", color);
+
+  const response = await fetch(`/api/${API_VERSION}/redact`, {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+  const data = parse(
+    RedactApiResponseSchema,
+    await response.json().catch(() => null)
+  );
+  if ("error" in data) {
+    throw new DetectRequestError(
+      response.ok ? "Unexpected response from the server" : "Redaction failed",
+      response.ok ? 502 : response.status
+    );
+  }
+  if (!data.value.success) {
+    throw new DetectRequestError(
+      data.value.error,
+      response.status,
+      data.value.retryable
+    );
+  }
+  return data.value;
+}
+
+export type RenderRequest = {
+  /** Boxes to draw; the server doesn't run the model again. */
+  detections: Detection[];
+  format?: RenderFormat;
+  signal?: AbortSignal;
+};
+
+/**
+ * Has `/api/v1/render` draw `detections` over the image at full resolution,
+ * unlike the canvas, which is limited to its display size.
+ */
+export async function renderAnnotatedImage(
+  image: Blob,
+  filename: string,
+  { detections, format = "png", signal }: RenderRequest
+): Promise<Blob> {
+  const formData = new FormData();
+  formData.append("image", image, filename);
+  formData.append("detections", JSON.stringify(detections));
+  // The boxes are already filtered by the caller.
+  formData.append("minScore", "0");
+  formData.append("format", format);
+
+  const response = await fetch(`/api/${API_VERSION}/render`, {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+  if (response.ok) return response.blob();
+
+  const data = parse(
+    DetectApiResponseSchema,
+    await response.json().catch(() => null)
+  );
+  if ("error" in data || data.value.success) {
+    throw new DetectRequestError("Rendering failed", response.status);
+  }
+  throw new DetectRequestError(
+    data.value.error,
+    response.status,
+    data.value.retryable
+  );
+}
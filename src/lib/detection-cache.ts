@@ -0,0 +1,62 @@
+import { createHash } from "crypto";
+import path from "path";
+import { DetectionResult } from "@/types/detection";
+import { CacheBackend, DiskCache, LayeredCache, MemoryCache } from "./cache";
+import { DATA_DIR } from "./db";
+import { DetectionParams, TilingParams } from "./params";
+
+const MAX_ENTRIES = Number(process.env.RESULT_CACHE_MAX_ENTRIES ?? 500);
+const TTL_MS = Number(process.env.RESULT_CACHE_TTL_MS) || 24 * 60 * 60 * 1000;
+const DISK_MAX_ENTRIES =
+  Number(process.env.RESULT_CACHE_DISK_MAX_ENTRIES) || 10000;
+
+function createDetectionCache(): CacheBackend<DetectionResult[]> | null {
+  if (!(MAX_ENTRIES > 0)) return null;
+
+  const memory = new MemoryCache<DetectionResult[]>(MAX_ENTRIES, TTL_MS);
+  if (process.env.RESULT_CACHE_DISK !== "true") return memory;
+
+  return new LayeredCache([
+    memory,
+    new DiskCache<DetectionResult[]>(
+      path.join(DATA_DIR, "cache"),
+      DISK_MAX_ENTRIES,
+      TTL_MS
+    ),
+  ]);
+}
+
+/**
+ * Final detections by `detectionCacheKey`, so re-running the same image
+ * with the same settings doesn't call the paid upstream again. `null` when
+ * disabled with `RESULT_CACHE_MAX_ENTRIES=0`.
+ */
+export const detectionCache = createDetectionCache();
+
+export type DetectionCacheKeyInput = {
+  provider: string;
+  model: string | null;
+  params: DetectionParams;
+  tiling: TilingParams | null;
+};
+
+/**
+ * SHA-256 of the normalized image (EXIF orientation applied and metadata
+ * stripped, so copies that only differ in metadata match) plus everything
+ * that changes the result.
+ */
+export function detectionCacheKey(
+  image: Buffer,
+  { provider, model, params, tiling }: DetectionCacheKeyInput
+): string {
+  const settings = {
+    provider,
+    model,
+    params: { ...params, labels: params.labels && [...params.labels].sort() },
+    tiling,
+  };
+  return createHash("sha256")
+    .update(image)
+    .update(JSON.stringify(settings))
+    .digest("hex");
+}
@@ -0,0 +1,295 @@
+import { DetectProgress, DetectionResult } from "@/types/detection";
+import { nonMaxSuppression, scaleDetections } from "./boxes";
+import { DetectionTimeoutError } from "./errors";
+import { detectionCache, detectionCacheKey } from "./detection-cache";
+import { PreparedImage, prepareImage } from "./image";
+import { storeInference } from "./inference-service";
+import { Logger, logger } from "./logger";
+import { metrics, secondsSince } from "./metrics";
+import { ModelInfo } from "./models";
+import { DetectionParams, TilingParams, applyDetectionParams } from "./params";
+import { DetectionProvider } from "./providers/types";
+import { TILE_CONCURRENCY, countTiles, detectTiled } from "./tiling";
+import { Detection } from "./types";
+import { Zone, evaluateZones } from "./zones";
+
+/**
+ * Overall deadline for one provider call including its retries (see
+ * `PROVIDER_TIMEOUT_MS` and friends for single attempts).
+ */
+export const DETECTION_TIMEOUT_MS =
+  Number(process.env.DETECTION_TIMEOUT_MS) || 60000;
+
+/** A validated `/api/detect` request. */
+export type DetectionJob = {
+  image: Buffer;
+  filename: string;
+  userId: string;
+  provider: DetectionProvider;
+  model?: ModelInfo;
+  params: DetectionParams;
+  tiling: TilingParams | null;
+  zones: Zone[] | null;
+  /** Store the result in history. */
+  save: boolean;
+  /** Answer from and fill the result cache; off for `noCache` requests. */
+  cache: boolean;
+};
+
+export type RunDetectionOptions = {
+  /** Aborts the run, e.g. when the client disconnects. */
+  signal?: AbortSignal;
+  onProgress?: (progress: DetectProgress) => void;
+  /** Logger carrying the request id; defaults to the root logger. */
+  log?: Logger;
+};
+
+/**
+ * Wraps `provider` to record the latency of every call, tiles included, in
+ * the upstream histogram and the debug log.
+ */
+function instrumentProvider(
+  provider: DetectionProvider,
+  model: string,
+  log: Logger
+): DetectionProvider {
+  return {
+    ...provider,
+    async detect(image, options) {
+      const start = performance.now();
+      let outcome = "error";
+      try {
+        const detections = await provider.detect(image, options);
+        outcome = "ok";
+        return detections;
+      } finally {
+        const seconds = secondsSince(start);
+        metrics.upstreamDuration.observe(
+          { provider: provider.id, model, outcome },
+          seconds
+        );
+        log.debug("detect.upstream", {
+          provider: provider.id,
+          model,
+          outcome,
+          bytes: image.length,
+          durationMs: Math.round(seconds * 1000),
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Calls the provider on the full image (and its tiles when tiling) and
+ * applies the request params.
+ *
+ * @throws {DetectionTimeoutError} If the provider doesn't finish in time
+ */
+async function detectWithProvider(
+  { provider, model, params, tiling }: DetectionJob,
+  prepared: PreparedImage,
+  tileCount: number,
+  { signal, onProgress }: RunDetectionOptions
+): Promise<DetectionResult[]> {
+  const { original, inferenceSize } = prepared;
+
+  // Tiled runs get one timeout window per round of concurrent tile calls.
+  const timeoutMs =
+    DETECTION_TIMEOUT_MS * (1 + Math.ceil(tileCount / TILE_CONCURRENCY));
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+
+  try {
+    const options = { signal: controller.signal, model: model?.id };
+    onProgress?.({ stage: "detecting" });
+
+    let detections = scaleDetections(
+      await provider.detect(prepared.inference, options),
+      inferenceSize.width,
+      inferenceSize.height,
+      original.width,
+      original.height
+    );
+
+    if (tiling) {
+      let found: Detection[] = detections;
+      onProgress?.({
+        stage: "tiles",
+        completed: 0,
+        total: tileCount,
+        detections: applyDetectionParams(detections, params),
+      });
+
+      const tiled = await detectTiled(
+        provider,
+        prepared.oriented,
+        original,
+        tiling,
+        {
+          ...options,
+          onTile: (completed, total, tileDetections) => {
+            found = [...found, ...tileDetections];
+            onProgress?.({
+              stage: "tiles",
+              completed,
+              total,
+              detections: applyDetectionParams(
+                nonMaxSuppression(found, {
+                  iouThreshold: tiling.nmsThreshold,
+                  metric: tiling.nmsMetric,
+                }),
+                params
+              ),
+            });
+          },
+        }
+      );
+      detections = nonMaxSuppression([...detections, ...tiled], {
+        iouThreshold: tiling.nmsThreshold,
+        metric: tiling.nmsMetric,
+      });
+    }
+
+    return applyDetectionParams(detections, params);
+  } catch (error) {
+    if ((error as Error).name === "AbortError" && !signal?.aborted) {
+      throw new DetectionTimeoutError(timeoutMs, provider.name);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Runs a detection job end to end: prepares the image, answers from the
+ * result cache or calls the provider, and stores the result.
+ *
+ * @throws {DetectionTimeoutError} If the provider doesn't finish in time
+ */
+export async function runDetection(
+  job: DetectionJob,
+  { signal, onProgress, log = logger }: RunDetectionOptions = {}
+) {
+  const { provider, model, params, tiling } = job;
+  const modelId = model?.id ?? null;
+  onProgress?.({ stage: "received" });
+
+  // Milliseconds per stage, for the completion log line.
+  const timings: Record<string, number> = {};
+  const timed = async <T>(stage: string, fn: () => Promise<T>) => {
+    const start = performance.now();
+    try {
+      return await fn();
+    } finally {
+      const seconds = secondsSince(start);
+      timings[stage] = Math.round(seconds * 1000);
+      metrics.stageDuration.observe({ stage }, seconds);
+    }
+  };
+
+  const prepared = await timed("prepare", () => prepareImage(job.image));
+  const { original, inferenceSize } = prepared;
+  onProgress?.({ stage: "resized" });
+  log.info("detect.prepared", {
+    bytes: job.image.length,
+    format: prepared.format,
+    original,
+    inference: inferenceSize,
+    durationMs: timings.prepare,
+  });
+
+  const tileCount = tiling ? countTiles(original, tiling) : 0;
+
+  // Cache failures only cost an upstream call, so they never fail the run.
+  // Keyed on the model that runs, so changing a provider's default model
+  // doesn't keep serving the old model's results.
+  const cacheKey =
+    job.cache && detectionCache
+      ? detectionCacheKey(prepared.oriented, {
+          provider: provider.id,
+          model: model?.id ?? provider.defaultModel ?? null,
+          params,
+          tiling,
+        })
+      : null;
+  const cached = cacheKey
+    ? await timed("cache", async () =>
+        detectionCache?.get(cacheKey).catch(() => undefined)
+      )
+    : undefined;
+  if (cacheKey) {
+    metrics.cacheLookups.inc({ result: cached ? "hit" : "miss" });
+  }
+
+  const detectionResults =
+    cached ??
+    (await timed("detect", () =>
+      detectWithProvider(
+        {
+          ...job,
+          provider: instrumentProvider(provider, modelId ?? "default", log),
+        },
+        prepared,
+        tileCount,
+        { signal, onProgress }
+      )
+    ));
+  if (cacheKey && !cached) {
+    await detectionCache
+      ?.set(cacheKey, detectionResults)
+      .catch(() => undefined);
+  }
+
+  // History is best effort: a storage failure should not lose the result.
+  // Callers sending many frames (video mode) opt out with `save=false`.
+  const inferenceId = !job.save
+    ? null
+    : await timed("store", () =>
+        storeInference({
+          userId: job.userId,
+          image: prepared.oriented,
+          format: prepared.format,
+          originalFilename: job.filename,
+          width: original.width,
+          height: original.height,
+          model: modelId,
+          provider: provider.id,
+          detectionResults,
+        }).catch(() => null)
+      );
+
+  onProgress?.({ stage: "done", detections: detectionResults });
+  metrics.detectionsPerImage.observe(
+    { provider: provider.id },
+    detectionResults.length
+  );
+  log.info("detect.completed", {
+    provider: provider.id,
+    model: modelId,
+    tiles: tileCount,
+    cached: cached !== undefined,
+    detections: detectionResults.length,
+    saved: inferenceId !== null,
+    timingsMs: timings,
+  });
+
+  return {
+    inferenceId,
+    detections: detectionResults,
+    image: { original, inference: inferenceSize },
+    provider: provider.id,
+    model: modelId,
+    params,
+    tiling: tiling ? { ...tiling, tiles: tileCount } : null,
+    cached: cached !== undefined,
+    zones: job.zones
+      ? evaluateZones(job.zones, detectionResults, original)
+      : null,
+  };
+}
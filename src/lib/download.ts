@@ -0,0 +1,17 @@
+import { ExportFile } from "./exporters";
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadExport(file: ExportFile) {
+  downloadBlob(
+    new Blob([file.body as BlobPart], { type: file.contentType }),
+    file.filename
+  );
+}
@@ -0,0 +1,209 @@
+import { DetectErrorCode } from "@/types/detection";
+
+const RETRYABLE_CODES: DetectErrorCode[] = [
+  "timeout",
+  "model_loading",
+  "rate_limited",
+  "circuit_open",
+  "upstream_timeout",
+  "upstream_unavailable",
+];
+
+export class DetectionError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500,
+    public code: DetectErrorCode = "internal_error"
+  ) {
+    super(message);
+    this.name = "DetectionError";
+  }
+
+  get retryable() {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+export class UnknownProviderError extends DetectionError {
+  constructor(providerId: string) {
+    super(`Unknown detection provider "${providerId}"`, 400, "invalid_request");
+    this.name = "UnknownProviderError";
+  }
+}
+
+/** The upload is bigger than `MAX_UPLOAD_BYTES` or `MAX_IMAGE_PIXELS`. */
+export class ImageTooLargeError extends DetectionError {
+  constructor(message: string) {
+    super(message, 413, "image_too_large");
+    this.name = "ImageTooLargeError";
+  }
+}
+
+/** The upload's content is not an image format we decode, e.g. SVG. */
+export class UnsupportedImageError extends DetectionError {
+  constructor(message: string) {
+    super(message, 415, "unsupported_media_type");
+    this.name = "UnsupportedImageError";
+  }
+}
+
+/** The upload claims a supported format but can't be decoded. */
+export class InvalidImageError extends DetectionError {
+  constructor(
+    message: string = "The image could not be read; it may be corrupt or truncated"
+  ) {
+    super(message, 422, "invalid_image");
+    this.name = "InvalidImageError";
+  }
+}
+
+/** An image URL of a job could not be downloaded. */
+export class ImageFetchError extends DetectionError {
+  constructor(message: string) {
+    super(message, 422, "fetch_failed");
+    this.name = "ImageFetchError";
+  }
+}
+
+/** No job with that id belongs to the caller. */
+export class JobNotFoundError extends DetectionError {
+  constructor(jobId: string) {
+    super(`Job ${jobId} not found`, 404, "not_found");
+    this.name = "JobNotFoundError";
+  }
+}
+
+/** No valid API key or session, when one is required. */
+export class UnauthorizedError extends DetectionError {
+  constructor(message: string) {
+    super(message, 401, "unauthorized");
+    this.name = "UnauthorizedError";
+  }
+}
+
+/** The API key is valid but lacks the scope for this endpoint. */
+export class ForbiddenError extends DetectionError {
+  constructor(message: string) {
+    super(message, 403, "forbidden");
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * The client exceeded its rate limit or usage quota. `headers` carries the
+ * `RateLimit-*` headers to send back with the 429.
+ */
+export class RateLimitError extends DetectionError {
+  constructor(
+    message: string,
+    code: "rate_limited" | "quota_exceeded",
+    public retryAfterSeconds: number,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message, 429, code);
+    this.name = "RateLimitError";
+  }
+}
+
+export type ProviderErrorCode = Exclude<
+  DetectErrorCode,
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "quota_exceeded"
+  | "image_too_large"
+  | "unsupported_media_type"
+  | "invalid_image"
+  | "fetch_failed"
+  | "timeout"
+  | "internal_error"
+>;
+
+const PROVIDER_ERROR_STATUS: Record<ProviderErrorCode, number> = {
+  model_loading: 503,
+  rate_limited: 429,
+  circuit_open: 503,
+  upstream_timeout: 504,
+  upstream_unavailable: 502,
+  upstream_rejected: 422,
+  upstream_misconfigured: 502,
+  bad_upstream_response: 502,
+};
+
+/**
+ * A failed upstream model call. `details` holds the raw upstream response for
+ * server logs only; clients get the message, code and `retryAfterMs`.
+ */
+export class ProviderError extends DetectionError {
+  constructor(
+    message: string,
+    code: ProviderErrorCode,
+    public upstreamStatus?: number,
+    public details?: string,
+    public retryAfterMs?: number
+  ) {
+    super(message, PROVIDER_ERROR_STATUS[code], code);
+    this.name = "ProviderError";
+  }
+}
+
+export class DetectionTimeoutError extends DetectionError {
+  constructor(public timeoutMs: number, public providerName: string) {
+    super(
+      `Request timed out after ${timeoutMs / 1000} seconds`,
+      408,
+      "timeout"
+    );
+    this.name = "DetectionTimeoutError";
+  }
+}
+
+/**
+ * Base exception for inference history operations
+ */
+export class InferenceHistoryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500,
+    public code: DetectErrorCode = "internal_error",
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "InferenceHistoryError";
+  }
+}
+
+/**
+ * Raised when inference ID is not found or access denied
+ */
+export class InferenceNotFoundError extends InferenceHistoryError {
+  constructor(message: string = "Inference not found or access denied") {
+    super(message, 404, "not_found");
+    this.name = "InferenceNotFoundError";
+  }
+}
+
+/**
+ * Raised when database operations fail; `cause` holds the underlying error
+ * for the server log
+ */
+export class DatabaseError extends InferenceHistoryError {
+  constructor(
+    message: string = "Database operation failed",
+    options?: ErrorOptions
+  ) {
+    super(message, 500, "internal_error", options);
+    this.name = "DatabaseError";
+  }
+}
+
+/**
+ * Raised when input validation fails
+ */
+export class ValidationError extends InferenceHistoryError {
+  constructor(message: string = "Invalid input parameters") {
+    super(message, 400, "invalid_request");
+    this.name = "ValidationError";
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKGROUND,
+  averagePrecision,
+  evaluate,
+  matchImage,
+} from "./evaluation";
+import { BBox, Detection } from "./types";
+
+const square = (x: number, size = 100): BBox => ({
+  xmin: x,
+  ymin: 0,
+  xmax: x + size,
+  ymax: size,
+});
+
+const prediction = (label: string, score: number, box: BBox): Detection => ({
+  label,
+  score,
+  box,
+});
+
+describe("evaluate", () => {
+  it("scores a perfect match as 1 everywhere", () => {
+    const report = evaluate([
+      {
+        predictions: [prediction("car", 0.9, square(0))],
+        groundTruth: [{ label: "car", box: square(0) }],
+      },
+    ]);
+
+    expect(report.classes).toEqual([
+      {
+        label: "car",
+        groundTruth: 1,
+        predictions: 1,
+        truePositives: 1,
+        falsePositives: 0,
+        falseNegatives: 0,
+        precision: 1,
+        recall: 1,
+        ap50: 1,
+        ap: 1,
+      },
+    ]);
+    expect(report.map50).toBe(1);
+    expect(report.map).toBe(1);
+    expect(report.confusion).toEqual({
+      labels: ["car", BACKGROUND],
+      counts: [
+        [1, 0],
+        [0, 0],
+      ],
+    });
+  });
+
+  it("counts one false positive and one false negative", () => {
+    const report = evaluate([
+      {
+        predictions: [
+          prediction("car", 0.9, square(0)),
+          prediction("car", 0.8, square(400)),
+        ],
+        groundTruth: [
+          { label: "car", box: square(0) },
+          { label: "car", box: square(200) },
+        ],
+      },
+    ]);
+
+    const [car] = report.classes;
+    expect(car).toMatchObject({
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+    });
+    // Recall reaches 0.5 at precision 1: 51 of the 101 points.
+    expect(car.ap50).toBeCloseTo(51 / 101);
+    expect(report.confusion.counts).toEqual([
+      [1, 1],
+      [1, 0],
+    ]);
+  });
+
+  it("records a box found with the wrong label as a confusion", () => {
+    const report = evaluate([
+      {
+        predictions: [prediction("truck", 0.9, square(0))],
+        groundTruth: [{ label: "car", box: square(0) }],
+      },
+    ]);
+
+    expect(report.confusion).toEqual({
+      labels: ["car", "truck", BACKGROUND],
+      counts: [
+        [0, 1, 0],
+        [0, 0, 0],
+        [0, 0, 0],
+      ],
+    });
+    const [car, truck] = report.classes;
+    expect(car).toMatchObject({ falseNegatives: 1, ap50: 0, ap: 0 });
+    expect(truck).toMatchObject({ falsePositives: 1, ap50: null, ap: null });
+    // Only classes with ground truth count towards the mean.
+    expect(report.map50).toBe(0);
+  });
+
+  it("averages AP over the COCO IoU thresholds", () => {
+    // IoU 0.72 matches at 0.5 to 0.7, half of the ten thresholds.
+    const report = evaluate([
+      {
+        predictions: [prediction("car", 0.9, { ...square(0), ymax: 72 })],
+        groundTruth: [{ label: "car", box: square(0) }],
+      },
+    ]);
+
+    expect(report.classes[0].ap50).toBe(1);
+    expect(report.map).toBeCloseTo(0.5);
+  });
+});
+
+describe("averagePrecision", () => {
+  it("interpolates precision at 101 recall points", () => {
+    // Precision 1 up to recall 0.5 (51 points), then 2/3 up to 1 (50 points).
+    expect(averagePrecision([true, false, true], 2)).toBeCloseTo(
+      (51 + (50 * 2) / 3) / 101
+    );
+  });
+
+  it("is 0 without ground truth", () => {
+    expect(averagePrecision([false], 0)).toBe(0);
+  });
+});
+
+describe("matchImage", () => {
+  it("matches higher scores first and skips predictions below minScore", () => {
+    const match = matchImage(
+      {
+        predictions: [
+          prediction("car", 0.6, square(5)),
+          prediction("car", 0.9, square(0)),
+          prediction("car", 0.1, square(200)),
+        ],
+        groundTruth: [{ label: "car", box: square(0) }],
+      },
+      { minScore: 0.5 }
+    );
+
+    expect(match).toEqual({ predictions: ["fp", "tp", null], matched: [true] });
+  });
+});
@@ -0,0 +1,281 @@
+import { iou } from "./boxes";
+import { BBox, Detection } from "./types";
+
+/** A ground-truth box; unlike a detection it has no score. */
+export type Annotation = { label: string; box: BBox };
+
+export type EvaluationImage = {
+  predictions: Detection[];
+  groundTruth: Annotation[];
+};
+
+/** True positive, false positive (predictions) or false negative (missed GT). */
+export type MatchKind = "tp" | "fp" | "fn";
+
+export type ImageMatch = {
+  /** Per prediction, in input order; `null` below the score threshold. */
+  predictions: (MatchKind | null)[];
+  /** Per ground-truth box: whether a prediction found it. */
+  matched: boolean[];
+};
+
+export type ClassMetrics = {
+  label: string;
+  groundTruth: number;
+  /** Predictions at or above the score threshold. */
+  predictions: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  /** AP at IoU 0.5; `null` for classes without ground truth. */
+  ap50: number | null;
+  /** AP averaged over IoU 0.5:0.05:0.95; `null` without ground truth. */
+  ap: number | null;
+};
+
+export type ConfusionMatrix = {
+  /** Class labels, then `BACKGROUND` for unmatched boxes. */
+  labels: string[];
+  /** `counts[groundTruth][predicted]`, indexed like `labels`. */
+  counts: number[][];
+};
+
+export type EvaluationReport = {
+  iouThreshold: number;
+  minScore: number;
+  classes: ClassMetrics[];
+  /** Mean AP@0.5 over classes with ground truth. */
+  map50: number;
+  /** Mean AP@[.5:.95] over classes with ground truth, the COCO metric. */
+  map: number;
+  confusion: ConfusionMatrix;
+};
+
+export const BACKGROUND = "background";
+
+/** IoU thresholds of the COCO AP@[.5:.95] metric. */
+export const COCO_IOU_THRESHOLDS = Array.from(
+  { length: 10 },
+  (_, i) => 0.5 + i * 0.05
+);
+
+const byScore = (predictions: Detection[]) =>
+  predictions
+    .map((prediction, index) => ({ prediction, index }))
+    .sort((a, b) => b.prediction.score - a.prediction.score);
+
+/**
+ * Greedy matching as in COCO: predictions in descending score order each
+ * take the unmatched ground-truth box of their class with the highest IoU,
+ * if it reaches `iouThreshold`.
+ *
+ * @returns Per prediction (input order) the index of its ground-truth box,
+ *   or `null` for a false positive
+ */
+export function matchBoxes(
+  predictions: Detection[],
+  groundTruth: Annotation[],
+  iouThreshold: number,
+  { classAware = true }: { classAware?: boolean } = {}
+): (number | null)[] {
+  const taken = new Array<boolean>(groundTruth.length).fill(false);
+  const matches = new Array<number | null>(predictions.length).fill(null);
+
+  for (const { prediction, index } of byScore(predictions)) {
+    let best = -1;
+    let bestIou = iouThreshold;
+    groundTruth.forEach((gt, gtIndex) => {
+      if (taken[gtIndex]) return;
+      if (classAware && gt.label !== prediction.label) return;
+      const overlap = iou(prediction.box, gt.box);
+      if (overlap >= bestIou) {
+        best = gtIndex;
+        bestIou = overlap;
+      }
+    });
+    if (best >= 0) {
+      taken[best] = true;
+      matches[index] = best;
+    }
+  }
+  return matches;
+}
+
+/** TP/FP/FN outcome of every box in one image, e.g. for drawing. */
+export function matchImage(
+  { predictions, groundTruth }: EvaluationImage,
+  { iouThreshold = 0.5, minScore = 0 } = {}
+): ImageMatch {
+  const kept = predictions.filter((p) => p.score >= minScore);
+  const matches = matchBoxes(kept, groundTruth, iouThreshold);
+  const matched = groundTruth.map((_, i) => matches.includes(i));
+
+  let keptIndex = 0;
+  return {
+    predictions: predictions.map((p) => {
+      if (p.score < minScore) return null;
+      return matches[keptIndex++] === null ? "fp" : "tp";
+    }),
+    matched,
+  };
+}
+
+/**
+ * Area under the precision/recall curve with COCO's 101-point interpolation.
+ *
+ * @param ranked - Whether each prediction was a true positive, in
+ *   descending score order across all images
+ */
+export function averagePrecision(ranked: boolean[], groundTruth: number) {
+  if (groundTruth === 0) return 0;
+
+  const precision: number[] = [];
+  const recall: number[] = [];
+  let tp = 0;
+  ranked.forEach((isTp, i) => {
+    if (isTp) tp++;
+    precision.push(tp / (i + 1));
+    recall.push(tp / groundTruth);
+  });
+  // Precision envelope: the best precision at this recall or any higher one.
+  for (let i = precision.length - 2; i >= 0; i--) {
+    precision[i] = Math.max(precision[i], precision[i + 1]);
+  }
+
+  let sum = 0;
+  for (let step = 0; step <= 100; step++) {
+    const i = recall.findIndex((r) => r >= step / 100);
+    sum += i === -1 ? 0 : precision[i];
+  }
+  return sum / 101;
+}
+
+/** AP of one class at one IoU threshold. */
+function classAp(images: EvaluationImage[], label: string, threshold: number) {
+  const ranked: { score: number; tp: boolean }[] = [];
+  let groundTruth = 0;
+
+  for (const image of images) {
+    const gts = image.groundTruth.filter((gt) => gt.label === label);
+    const preds = image.predictions.filter((p) => p.label === label);
+    groundTruth += gts.length;
+    matchBoxes(preds, gts, threshold).forEach((match, i) =>
+      ranked.push({ score: preds[i].score, tp: match !== null })
+    );
+  }
+
+  ranked.sort((a, b) => b.score - a.score);
+  return averagePrecision(
+    ranked.map((r) => r.tp),
+    groundTruth
+  );
+}
+
+/**
+ * Confusion matrix at `iouThreshold`, matching boxes regardless of class so
+ * that a box found with the wrong label counts as a confusion rather than a
+ * miss plus a false positive.
+ */
+function confusionMatrix(
+  images: EvaluationImage[],
+  labels: string[],
+  iouThreshold: number,
+  minScore: number
+): ConfusionMatrix {
+  const all = [...labels, BACKGROUND];
+  const indexOf = (label: string) => all.indexOf(label);
+  const background = all.length - 1;
+  const counts = all.map(() => new Array<number>(all.length).fill(0));
+
+  for (const image of images) {
+    const preds = image.predictions.filter((p) => p.score >= minScore);
+    const matches = matchBoxes(preds, image.groundTruth, iouThreshold, {
+      classAware: false,
+    });
+    matches.forEach((gtIndex, i) => {
+      const row =
+        gtIndex === null
+          ? background
+          : indexOf(image.groundTruth[gtIndex].label);
+      counts[row][indexOf(preds[i].label)]++;
+    });
+    image.groundTruth.forEach((gt, gtIndex) => {
+      if (!matches.includes(gtIndex)) counts[indexOf(gt.label)][background]++;
+    });
+  }
+  return { labels: all, counts };
+}
+
+const ratio = (a: number, b: number) => (b === 0 ? 0 : a / b);
+
+const mean = (values: number[]) =>
+  values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Scores predictions against ground truth. AP uses every prediction, so
+ * request detections with a low `minScore` for meaningful curves; precision,
+ * recall and the confusion matrix only count those at or above `minScore`.
+ */
+export function evaluate(
+  images: EvaluationImage[],
+  { iouThreshold = 0.5, minScore = 0 } = {}
+): EvaluationReport {
+  const labels = Array.from(
+    new Set(
+      images.flatMap((image) => [
+        ...image.groundTruth.map((gt) => gt.label),
+        ...image.predictions.map((p) => p.label),
+      ])
+    )
+  ).sort();
+
+  const classes = labels.map((label): ClassMetrics => {
+    let groundTruth = 0;
+    let predictions = 0;
+    let truePositives = 0;
+    for (const image of images) {
+      const gts = image.groundTruth.filter((gt) => gt.label === label);
+      const preds = image.predictions.filter(
+        (p) => p.label === label && p.score >= minScore
+      );
+      groundTruth += gts.length;
+      predictions += preds.length;
+      truePositives += matchBoxes(preds, gts, iouThreshold).filter(
+        (match) => match !== null
+      ).length;
+    }
+
+    const hasGroundTruth = groundTruth > 0;
+    return {
+      label,
+      groundTruth,
+      predictions,
+      truePositives,
+      falsePositives: predictions - truePositives,
+      falseNegatives: groundTruth - truePositives,
+      precision: ratio(truePositives, predictions),
+      recall: ratio(truePositives, groundTruth),
+      ap50: hasGroundTruth ? classAp(images, label, 0.5) : null,
+      ap: hasGroundTruth
+        ? mean(COCO_IOU_THRESHOLDS.map((t) => classAp(images, label, t)))
+        : null,
+    };
+  });
+
+  const scored = classes.filter(
+    (c): c is ClassMetrics & { ap50: number; ap: number } =>
+      c.ap50 !== null && c.ap !== null
+  );
+  return {
+    iouThreshold,
+    minScore,
+    classes,
+    map50: mean(scored.map((c) => c.ap50)),
+    map: mean(scored.map((c) => c.ap)),
+    confusion: confusionMatrix(images, labels, iouThreshold, minScore),
+  };
+}
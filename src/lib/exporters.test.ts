@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ExportImage,
+  exportDetections,
+  toCoco,
+  toCsv,
+  toPascalVoc,
+  toYolo,
+} from "./exporters";
+
+const image: ExportImage = {
+  filename: 'my "street", 1.jpg',
+  width: 200,
+  height: 100,
+  detections: [
+    {
+      label: "car",
+      score: 0.91234,
+      box: { xmin: 10, ymin: 20, xmax: 110, ymax: 70 },
+    },
+    // Sticks out of the image; exports clamp it to 150,0 → 200,90.
+    {
+      label: "a&b <x>",
+      score: 0.5,
+      box: { xmin: 150, ymin: -10, xmax: 250, ymax: 90 },
+    },
+  ],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("toCoco", () => {
+  it("writes 1-based ids and xywh boxes", () => {
+    vi.useFakeTimers({ now: new Date("2026-03-10T12:00:00Z") });
+
+    expect(JSON.parse(toCoco([image]))).toEqual({
+      info: {
+        description: "Resario object detection export",
+        date_created: "2026-03-10T12:00:00.000Z",
+      },
+      images: [{ id: 1, file_name: image.filename, width: 200, height: 100 }],
+      categories: [
+        { id: 1, name: "a&b <x>" },
+        { id: 2, name: "car" },
+      ],
+      annotations: [
+        {
+          id: 1,
+          image_id: 1,
+          category_id: 2,
+          bbox: [10, 20, 100, 50],
+          area: 5000,
+          iscrowd: 0,
+          score: 0.9123,
+        },
+        {
+          id: 2,
+          image_id: 1,
+          category_id: 1,
+          bbox: [150, 0, 50, 90],
+          area: 4500,
+          iscrowd: 0,
+          score: 0.5,
+        },
+      ],
+    });
+  });
+});
+
+describe("toPascalVoc", () => {
+  it("writes 1-based inclusive pixels and escapes XML", () => {
+    expect(toPascalVoc(image)).toBe(`<annotation>
+  <filename>my &quot;street&quot;, 1.jpg</filename>
+  <size>
+    <width>200</width>
+    <height>100</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+  <object>
+    <name>car</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <confidence>0.9123</confidence>
+    <bndbox>
+      <xmin>11</xmin>
+      <ymin>21</ymin>
+      <xmax>110</xmax>
+      <ymax>70</ymax>
+    </bndbox>
+  </object>
+  <object>
+    <name>a&amp;b &lt;x&gt;</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <confidence>0.5</confidence>
+    <bndbox>
+      <xmin>151</xmin>
+      <ymin>1</ymin>
+      <xmax>200</xmax>
+      <ymax>90</ymax>
+    </bndbox>
+  </object>
+</annotation>
+`);
+  });
+});
+
+describe("toYolo", () => {
+  it("writes class ids and normalized center boxes", () => {
+    expect(toYolo(image, ["a&b <x>", "car"])).toBe(
+      [
+        "1 0.300000 0.450000 0.500000 0.500000",
+        "0 0.875000 0.450000 0.250000 0.900000",
+      ].join("\n")
+    );
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells with commas and quotes", () => {
+    expect(toCsv([image]).split("\n")).toEqual([
+      "filename,image_width,image_height,label,score,xmin,ymin,xmax,ymax,xmin_norm,ymin_norm,xmax_norm,ymax_norm",
+      '"my ""street"", 1.jpg",200,100,car,0.9123,10,20,110,70,0.05,0.2,0.55,0.7',
+      '"my ""street"", 1.jpg",200,100,a&b <x>,0.5,150,0,200,90,0.75,0,1,0.9',
+    ]);
+  });
+});
+
+describe("exportDetections", () => {
+  it("zips one file per image for VOC and YOLO", () => {
+    const voc = exportDetections([image], "voc", "history");
+    expect(voc).toMatchObject({
+      filename: "history.voc.zip",
+      contentType: "application/zip",
+    });
+
+    const yolo = exportDetections([image, image], "yolo");
+    const listing = Buffer.from(yolo.body).toString("latin1");
+    expect(yolo.filename).toBe("detections.yolo.zip");
+    // Uploads sharing a name get suffixed files.
+    for (const name of [
+      "classes.txt",
+      'labels/my "street", 1.txt',
+      'labels/my "street", 1_1.txt',
+    ]) {
+      expect(listing).toContain(name);
+    }
+  });
+});
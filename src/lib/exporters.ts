@@ -0,0 +1,257 @@
+import { clampBox } from "./boxes";
+import { Detection } from "./types";
+import { createZip } from "./zip";
+
+export type ExportFormat = "coco" | "voc" | "yolo" | "csv";
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string }[] = [
+  { id: "coco", name: "COCO JSON" },
+  { id: "voc", name: "Pascal VOC XML" },
+  { id: "yolo", name: "YOLO txt" },
+  { id: "csv", name: "CSV" },
+];
+
+export type ExportImage = {
+  filename: string;
+  width: number;
+  height: number;
+  detections: Detection[];
+};
+
+export type ExportFile = {
+  filename: string;
+  contentType: string;
+  body: string | Uint8Array;
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.some((format) => format.id === value);
+}
+
+/** Sorted unique labels; a label's index is its class id in every format. */
+export function buildClassMap(images: ExportImage[]): string[] {
+  const labels = new Set(
+    images.flatMap((image) => image.detections.map((d) => d.label))
+  );
+  return Array.from(labels).sort();
+}
+
+function baseName(filename: string) {
+  return filename.replace(/\.[^./\\]+$/, "") || "image";
+}
+
+/** Base names for per-image files, suffixed where uploads share a name. */
+function uniqueBaseNames(images: ExportImage[]) {
+  const seen = new Map<string, number>();
+  return images.map((image) => {
+    const base = baseName(image.filename);
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count}`;
+  });
+}
+
+function clampedBoxes(image: ExportImage) {
+  return image.detections.map((d) => ({
+    ...d,
+    box: clampBox(d.box, image.width, image.height),
+  }));
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+export function toCoco(images: ExportImage[]): string {
+  const classes = buildClassMap(images);
+  let annotationId = 1;
+
+  return JSON.stringify(
+    {
+      info: {
+        description: "Resario object detection export",
+        date_created: new Date().toISOString(),
+      },
+      images: images.map((image, index) => ({
+        id: index + 1,
+        file_name: image.filename,
+        width: image.width,
+        height: image.height,
+      })),
+      categories: classes.map((name, index) => ({ id: index + 1, name })),
+      annotations: images.flatMap((image, index) =>
+        clampedBoxes(image).map(({ label, score, box }) => {
+          const width = box.xmax - box.xmin;
+          const height = box.ymax - box.ymin;
+          return {
+            id: annotationId++,
+            image_id: index + 1,
+            category_id: classes.indexOf(label) + 1,
+            bbox: [
+              round(box.xmin),
+              round(box.ymin),
+              round(width),
+              round(height),
+            ],
+            area: round(width * height),
+            iscrowd: 0,
+            score: round(score, 4),
+          };
+        })
+      ),
+    },
+    null,
+    2
+  );
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** VOC uses 1-based, inclusive integer pixel coordinates. */
+export function toPascalVoc(image: ExportImage): string {
+  const objects = clampedBoxes(image).map(({ label, score, box }) => {
+    const xmin = Math.max(1, Math.round(box.xmin) + 1);
+    const ymin = Math.max(1, Math.round(box.ymin) + 1);
+    const xmax = Math.min(image.width, Math.max(xmin, Math.round(box.xmax)));
+    const ymax = Math.min(image.height, Math.max(ymin, Math.round(box.ymax)));
+    return `  <object>
+    <name>${escapeXml(label)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <confidence>${round(score, 4)}</confidence>
+    <bndbox>
+      <xmin>${xmin}</xmin>
+      <ymin>${ymin}</ymin>
+      <xmax>${xmax}</xmax>
+      <ymax>${ymax}</ymax>
+    </bndbox>
+  </object>`;
+  });
+
+  return `<annotation>
+  <filename>${escapeXml(image.filename)}</filename>
+  <size>
+    <width>${image.width}</width>
+    <height>${image.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects.join("\n")}
+</annotation>
+`;
+}
+
+/** One `class x_center y_center width height` line per box, normalized 0-1. */
+export function toYolo(image: ExportImage, classes: string[]): string {
+  return clampedBoxes(image)
+    .map(({ label, box }) => {
+      const cx = (box.xmin + box.xmax) / 2 / image.width;
+      const cy = (box.ymin + box.ymax) / 2 / image.height;
+      const w = (box.xmax - box.xmin) / image.width;
+      const h = (box.ymax - box.ymin) / image.height;
+      return [classes.indexOf(label), cx, cy, w, h]
+        .map((v, i) => (i === 0 ? String(v) : v.toFixed(6)))
+        .join(" ");
+    })
+    .join("\n");
+}
+
+export function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(images: ExportImage[]): string {
+  const header = [
+    "filename",
+    "image_width",
+    "image_height",
+    "label",
+    "score",
+    "xmin",
+    "ymin",
+    "xmax",
+    "ymax",
+    "xmin_norm",
+    "ymin_norm",
+    "xmax_norm",
+    "ymax_norm",
+  ];
+
+  const rows = images.flatMap((image) =>
+    clampedBoxes(image).map(({ label, score, box }) => [
+      image.filename,
+      image.width,
+      image.height,
+      label,
+      round(score, 4),
+      round(box.xmin),
+      round(box.ymin),
+      round(box.xmax),
+      round(box.ymax),
+      round(box.xmin / image.width, 6),
+      round(box.ymin / image.height, 6),
+      round(box.xmax / image.width, 6),
+      round(box.ymax / image.height, 6),
+    ])
+  );
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+/**
+ * Renders `images` in `format`. Formats with one file per image (VOC, YOLO)
+ * come back as a ZIP; YOLO also gets a `classes.txt` class map.
+ */
+export function exportDetections(
+  images: ExportImage[],
+  format: ExportFormat,
+  name = "detections"
+): ExportFile {
+  const baseNames = uniqueBaseNames(images);
+
+  switch (format) {
+    case "coco":
+      return {
+        filename: `${name}.coco.json`,
+        contentType: "application/json",
+        body: toCoco(images),
+      };
+    case "csv":
+      return {
+        filename: `${name}.csv`,
+        contentType: "text/csv",
+        body: toCsv(images),
+      };
+    case "voc":
+      return {
+        filename: `${name}.voc.zip`,
+        contentType: "application/zip",
+        body: createZip(
+          images.map((image, index) => ({
+            name: `Annotations/${baseNames[index]}.xml`,
+            data: toPascalVoc(image),
+          }))
+        ),
+      };
+    case "yolo": {
+      const classes = buildClassMap(images);
+      return {
+        filename: `${name}.yolo.zip`,
+        contentType: "application/zip",
+        body: createZip([
+          { name: "classes.txt", data: classes.join("\n") },
+          ...images.map((image, index) => ({
+            name: `labels/${baseNames[index]}.txt`,
+            data: toYolo(image, classes),
+          })),
+        ]),
+      };
+    }
+  }
+}
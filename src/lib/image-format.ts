@@ -0,0 +1,107 @@
+export type ImageFormat =
+  | "jpeg"
+  | "png"
+  | "gif"
+  | "webp"
+  | "tiff"
+  | "avif"
+  | "bmp"
+  | "heic"
+  | "svg";
+
+/**
+ * Formats the server decodes. Animated GIF/WebP and multi-page TIFF are
+ * accepted and detected on their first frame.
+ */
+export const SUPPORTED_IMAGE_FORMATS: ImageFormat[] = [
+  "jpeg",
+  "png",
+  "gif",
+  "webp",
+  "tiff",
+  "avif",
+];
+
+/** Default upload limit; the server may be configured lower or higher. */
+export const DEFAULT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/** Bytes `sniffImageFormat` needs to recognize every format. */
+export const SNIFF_BYTES = 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+/**
+ * Identifies an image by its magic bytes rather than a file name or MIME
+ * type, which clients control.
+ *
+ * @param bytes - At least the first `SNIFF_BYTES` of the file
+ * @returns The format, or `null` if it isn't a recognized image
+ */
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "png";
+  }
+  const head = ascii(bytes, 0, 12);
+  if (head.startsWith("GIF87a") || head.startsWith("GIF89a")) return "gif";
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WEBP") return "webp";
+  if (head.startsWith("II*\0") || head.startsWith("MM\0*")) return "tiff";
+  if (head.startsWith("BM")) return "bmp";
+  if (head.slice(4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") return "avif";
+    if (["heic", "heix", "hevc", "mif1", "msf1"].includes(brand)) {
+      return "heic";
+    }
+  }
+
+  // SVG is XML text: allow a BOM, whitespace, a prolog and comments first.
+  const text = new TextDecoder()
+    .decode(bytes.subarray(0, SNIFF_BYTES))
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .toLowerCase();
+  if (text.startsWith("<") && text.includes("<svg")) return "svg";
+  return null;
+}
+
+/** Why the server will refuse `format`, or `null` if it is supported. */
+export function unsupportedFormatReason(
+  format: ImageFormat | null
+): string | null {
+  if (format === "svg") {
+    return "SVG images are not supported; export it as PNG or JPEG first";
+  }
+  if (!format) return "Not a supported image file";
+  if (!SUPPORTED_IMAGE_FORMATS.includes(format)) {
+    return `${format.toUpperCase()} images are not supported`;
+  }
+  return null;
+}
+
+/**
+ * Client-side pre-check mirroring the server's limits, so obviously bad
+ * files are rejected before they are uploaded.
+ *
+ * @returns Why `file` would be rejected, or `null` if it looks fine
+ */
+export async function checkImageFile(
+  file: File,
+  maxBytes: number = DEFAULT_MAX_UPLOAD_BYTES
+): Promise<string | null> {
+  if (file.size > maxBytes) {
+    return `File is ${formatMegabytes(
+      file.size
+    )}; the limit is ${formatMegabytes(maxBytes)}`;
+  }
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  return unsupportedFormatReason(sniffImageFormat(head));
+}
+
+export function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,63 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { applyRedaction, prepareImage } from "./image";
+
+/** A PNG with a different gray level in every column, so moved or blurred pixels show. */
+async function gradientPng(width: number, height: number) {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    pixels.fill(i % width, i * 3, i * 3 + 3);
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } })
+    .png()
+    .toBuffer();
+}
+
+const rawPixels = (image: Buffer) =>
+  sharp(image).toColorspace("srgb").raw().toBuffer({ resolveWithObject: true });
+
+function pixel(
+  { data, info }: { data: Buffer; info: sharp.OutputInfo },
+  x: number,
+  y: number
+) {
+  const offset = (y * info.width + x) * info.channels;
+  return [...data.subarray(offset, offset + 3)];
+}
+
+describe("prepareImage", () => {
+  it("applies EXIF orientation and keeps the upload's format", async () => {
+    const rotated = await sharp({
+      create: { width: 40, height: 20, channels: 3, background: "#888" },
+    })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const prepared = await prepareImage(rotated);
+    expect(prepared.format).toBe("jpeg");
+    expect(prepared.original).toEqual({ width: 20, height: 40 });
+    expect(prepared.inferenceSize).toEqual({ width: 20, height: 40 });
+  });
+});
+
+describe("applyRedaction", () => {
+  it("fills the region and leaves every other pixel of a PNG untouched", async () => {
+    const input = await gradientPng(100, 50);
+    const redacted = await applyRedaction(
+      input,
+      [{ xmin: 10, ymin: 10, xmax: 30, ymax: 20 }],
+      { method: "fill", padding: 0, color: "#ff0000" }
+    );
+    expect(redacted.format).toBe("png");
+    expect(redacted.regions).toEqual([
+      { left: 10, top: 10, width: 20, height: 10 },
+    ]);
+
+    const before = await rawPixels(input);
+    const after = await rawPixels(redacted.data);
+    expect(pixel(after, 15, 15)).toEqual([255, 0, 0]);
+    expect(pixel(after, 5, 5)).toEqual(pixel(before, 5, 5));
+    expect(pixel(after, 80, 40)).toEqual(pixel(before, 80, 40));
+  });
+});
@@ -0,0 +1,274 @@
+import sharp from "sharp";
+import {
+  ImageTooLargeError,
+  InvalidImageError,
+  UnsupportedImageError,
+} from "./errors";
+import {
+  DEFAULT_MAX_UPLOAD_BYTES,
+  ImageFormat,
+  formatMegabytes,
+  sniffImageFormat,
+  unsupportedFormatReason,
+} from "./image-format";
+import {
+  AnnotationStyle,
+  RenderFormat,
+  annotationStyle,
+  annotationSvg,
+} from "./annotation-svg";
+import { PixelRegion, RedactionMethod, redactionRegion } from "./redaction";
+import { BBox, Detection, ImageSize } from "./types";
+
+export const INFERENCE_MAX_SIZE = 512;
+
+export const MAX_UPLOAD_BYTES =
+  Number(process.env.MAX_UPLOAD_BYTES) || DEFAULT_MAX_UPLOAD_BYTES;
+
+/**
+ * Decoded size cap. A few KB of PNG can claim a gigapixel canvas, so this is
+ * checked from the header before anything is decoded.
+ */
+export const MAX_IMAGE_PIXELS =
+  Number(process.env.MAX_IMAGE_PIXELS) || 40_000_000;
+
+// Only the first frame of animated and multi-page images is ever decoded.
+const DECODE_OPTIONS: sharp.SharpOptions = {
+  limitInputPixels: MAX_IMAGE_PIXELS,
+  pages: 1,
+};
+
+/**
+ * Checks an untrusted upload before it is decoded: size, real format (by
+ * magic bytes, never the declared MIME type) and pixel count.
+ *
+ * @throws {ImageTooLargeError} Over `MAX_UPLOAD_BYTES` or `MAX_IMAGE_PIXELS`
+ * @throws {UnsupportedImageError} Not an image, or SVG, BMP or HEIC
+ * @throws {InvalidImageError} The header can't be read
+ */
+export async function inspectImage(input: Buffer): Promise<ImageFormat> {
+  if (input.length > MAX_UPLOAD_BYTES) {
+    throw new ImageTooLargeError(
+      `Image is ${formatMegabytes(
+        input.length
+      )}; the limit is ${formatMegabytes(MAX_UPLOAD_BYTES)}`
+    );
+  }
+
+  const format = sniffImageFormat(input);
+  const unsupported = unsupportedFormatReason(format);
+  if (unsupported || !format) {
+    throw new UnsupportedImageError(unsupported ?? "Not a supported image");
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    // Header only, so the pixel limit is checked below with a clear error.
+    metadata = await sharp(input, { limitInputPixels: false }).metadata();
+  } catch {
+    throw new InvalidImageError();
+  }
+  const { width, height } = metadata;
+  if (!width || !height) throw new InvalidImageError();
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new ImageTooLargeError(
+      `Image is ${width}×${height} pixels; the limit is ${
+        MAX_IMAGE_PIXELS / 1_000_000
+      } megapixels`
+    );
+  }
+  return format;
+}
+
+export type PreparedImage = {
+  /** The upload with EXIF orientation applied. */
+  oriented: Buffer;
+  /** Output format of `oriented`, e.g. "jpeg" or "png". */
+  format: string;
+  original: ImageSize;
+  /** Downscaled JPEG that is sent to the provider. */
+  inference: Buffer;
+  inferenceSize: ImageSize;
+};
+
+/** An upload decoded to raw pixels, with EXIF orientation applied. */
+type DecodedImage = {
+  pixels: Buffer;
+  raw: sharp.Raw;
+  /** The upload's format, which full-resolution copies are encoded in. */
+  format: keyof sharp.FormatEnum;
+};
+
+/**
+ * Decodes the first frame of an upload once. Everything made from it is
+ * encoded a single time, so quality is only lost at that final step.
+ *
+ * @throws {InvalidImageError} If the image fails to decode, e.g. truncated
+ */
+async function decodeImage(input: Buffer): Promise<DecodedImage> {
+  // Uploads went through `inspectImage`, which turns the others away.
+  const format = sniffImageFormat(input);
+  if (!format || unsupportedFormatReason(format)) {
+    throw new InvalidImageError();
+  }
+  try {
+    const { data, info } = await sharp(input, DECODE_OPTIONS)
+      .rotate()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = info;
+    return {
+      pixels: data,
+      raw: { width, height, channels },
+      format: format as keyof sharp.FormatEnum,
+    };
+  } catch {
+    throw new InvalidImageError();
+  }
+}
+
+const fromPixels = ({ pixels, raw }: DecodedImage) => sharp(pixels, { raw });
+
+/**
+ * @throws {InvalidImageError} If the image fails to decode, e.g. truncated
+ */
+export async function prepareImage(input: Buffer): Promise<PreparedImage> {
+  const image = await decodeImage(input);
+  const oriented = await fromPixels(image).toFormat(image.format).toBuffer();
+
+  const { data: inference, info: inferenceInfo } = await fromPixels(image)
+    .resize(INFERENCE_MAX_SIZE, INFERENCE_MAX_SIZE, {
+      fit: "inside",
+      withoutEnlargement: true,
+      background: { r: 255, g: 255, b: 255, alpha: 1 },
+    })
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .jpeg({
+      quality: 85,
+      progressive: true,
+    })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    oriented,
+    format: image.format,
+    original: { width: image.raw.width, height: image.raw.height },
+    inference,
+    inferenceSize: { width: inferenceInfo.width, height: inferenceInfo.height },
+  };
+}
+
+export type RedactionOptions = {
+  method: RedactionMethod;
+  /** Fraction of each box's size added on every side. */
+  padding: number;
+  /** Fill color for `fill`, as #rrggbb. */
+  color: string;
+};
+
+export type RedactedImage = {
+  data: Buffer;
+  format: string;
+  width: number;
+  height: number;
+  /** Per box, the pixels redacted, or `null` if it lies outside the image. */
+  regions: (PixelRegion | null)[];
+};
+
+/** Renders one region as it should look once redacted. */
+async function redactedPatch(
+  image: DecodedImage,
+  region: PixelRegion,
+  method: RedactionMethod,
+  color: string
+): Promise<Buffer> {
+  const { width, height } = region;
+  if (method === "fill") {
+    return sharp({
+      create: { width, height, channels: 3, background: color },
+    })
+      .png()
+      .toBuffer();
+  }
+
+  const crop = fromPixels(image).extract(region);
+  // Scaled to the region so a large face gets as unrecognizable as a small one.
+  if (method === "blur") {
+    return crop
+      .blur(Math.max(4, Math.max(width, height) / 8))
+      .png()
+      .toBuffer();
+  }
+  const block = Math.max(4, Math.round(Math.max(width, height) / 12));
+  const small = await crop
+    .resize(Math.ceil(width / block), Math.ceil(height / block), {
+      fit: "fill",
+    })
+    .png()
+    .toBuffer();
+  return sharp(small)
+    .resize(width, height, { fit: "fill", kernel: "nearest" })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Blurs, pixelates or fills `boxes`, padded, in the upload at full
+ * resolution. Boxes are in the oriented image's pixels, like detections. The
+ * output keeps the upload's format but none of its metadata (EXIF, GPS).
+ *
+ * @throws {InvalidImageError} If the image fails to decode
+ */
+export async function applyRedaction(
+  input: Buffer,
+  boxes: BBox[],
+  { method, padding, color }: RedactionOptions
+): Promise<RedactedImage> {
+  const image = await decodeImage(input);
+
+  const regions = boxes.map((box) => redactionRegion(box, image.raw, padding));
+  const patches = await Promise.all(
+    regions
+      .filter((region): region is PixelRegion => region !== null)
+      .map(async (region) => ({
+        input: await redactedPatch(image, region, method, color),
+        left: region.left,
+        top: region.top,
+      }))
+  );
+  const data = await fromPixels(image)
+    .composite(patches)
+    .toFormat(image.format)
+    .toBuffer();
+
+  return {
+    data,
+    format: image.format,
+    width: image.raw.width,
+    height: image.raw.height,
+    regions,
+  };
+}
+
+/**
+ * Draws `detections` over the upload at full resolution, as an SVG overlay
+ * styled like the canvas.
+ *
+ * @throws {InvalidImageError} If the image fails to decode
+ */
+export async function renderAnnotatedImage(
+  input: Buffer,
+  detections: Detection[],
+  style: Partial<AnnotationStyle>,
+  format: RenderFormat
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const image = await decodeImage(input);
+  const size = { width: image.raw.width, height: image.raw.height };
+  const svg = annotationSvg(detections, size, annotationStyle(size, style));
+
+  const data = await fromPixels(image)
+    .composite([{ input: Buffer.from(svg), left: 0, top: 0 }])
+    .toFormat(format)
+    .toBuffer();
+  return { data, ...size };
+}
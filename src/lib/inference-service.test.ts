@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StoreInferenceInput } from "./inference-service";
+
+let dataDir: string;
+// Loaded once `DATA_DIR` points at a scratch directory.
+let service: typeof import("./inference-service");
+let errors: typeof import("./errors");
+
+const input = (
+  originalFilename: string,
+  userId = "user"
+): StoreInferenceInput => ({
+  userId,
+  image: Buffer.from(originalFilename),
+  format: "png",
+  originalFilename,
+  width: 64,
+  height: 48,
+  model: null,
+  provider: "mock",
+  detectionResults: [
+    { label: "cat", score: 0.9, box: { xmin: 1, ymin: 2, xmax: 3, ymax: 4 } },
+  ],
+});
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "resario-history-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.resetModules();
+  service = await import("./inference-service");
+  errors = await import("./errors");
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("getInferenceHistory", () => {
+  it("pages through a user's inferences, newest first", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    for (const name of ["a.png", "b.png", "c.png"]) {
+      await service.storeInference(input(name));
+      vi.advanceTimersByTime(1000);
+    }
+    await service.storeInference(input("other.png", "someone-else"));
+
+    const { data } = await service.getInferenceHistory("user", 1, 2);
+    expect(data.inferences.map((i) => i.originalFilename)).toEqual([
+      "c.png",
+      "b.png",
+    ]);
+    expect(data.pagination).toEqual({
+      currentPage: 1,
+      totalPages: 2,
+      totalCount: 3,
+      hasNext: true,
+      hasPrevious: false,
+      limit: 2,
+    });
+  });
+
+  it("refuses invalid pagination", async () => {
+    await expect(service.getInferenceHistory("user", 0)).rejects.toBeInstanceOf(
+      errors.ValidationError
+    );
+    await expect(
+      service.getInferenceHistory("user", 1, 101)
+    ).rejects.toBeInstanceOf(errors.ValidationError);
+  });
+});
+
+describe("stored inferences", () => {
+  it("keeps the image and detections", async () => {
+    const id = await service.storeInference(input("a.png"));
+
+    const { data } = await service.getInferenceById(id, "user");
+    expect(data).toMatchObject({
+      originalFilename: "a.png",
+      imageWidth: 64,
+      detectionCount: 1,
+    });
+    expect(await service.getInferenceImage(id, "user")).toEqual({
+      image: Buffer.from("a.png"),
+      format: "png",
+    });
+  });
+
+  it("replaces the detections", async () => {
+    const id = await service.storeInference(input("a.png"));
+
+    const { data } = await service.updateInferenceDetections(id, "user", []);
+    expect(data.detectionCount).toBe(0);
+    expect(
+      (await service.getInferenceById(id, "user")).data.detectionResults
+    ).toEqual([]);
+  });
+
+  it("is hidden from other users", async () => {
+    const id = await service.storeInference(input("a.png"));
+
+    await expect(
+      service.getInferenceById(id, "someone-else")
+    ).rejects.toBeInstanceOf(errors.InferenceNotFoundError);
+    await expect(
+      service.deleteInference(id, "someone-else")
+    ).rejects.toBeInstanceOf(errors.InferenceNotFoundError);
+  });
+
+  it("deletes the inference and its image", async () => {
+    const id = await service.storeInference(input("a.png"));
+    await service.deleteInference(id, "user");
+
+    await expect(service.getInferenceById(id, "user")).rejects.toBeInstanceOf(
+      errors.InferenceNotFoundError
+    );
+    expect(await fs.readdir(path.join(dataDir, "images"))).toEqual([]);
+  });
+
+  it("keeps the storage failure as the cause", async () => {
+    // A file where the image directory should be.
+    await fs.writeFile(path.join(dataDir, "images"), "");
+
+    const error = await service.storeInference(input("a.png")).catch((e) => e);
+    expect(error).toBeInstanceOf(errors.DatabaseError);
+    expect(error.message).toBe("Failed to store inference");
+    expect(error.cause).toMatchObject({ code: expect.any(String) });
+  });
+});
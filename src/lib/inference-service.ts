@@ -0,0 +1,268 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { DetectionResult } from "@/types/detection";
+import {
+  GetInferenceResponse,
+  InferenceHistoryItem,
+  InferenceHistoryResponse,
+} from "@/types/inference";
+import { DATA_DIR, JsonTable } from "./db";
+import {
+  DatabaseError,
+  InferenceNotFoundError,
+  ValidationError,
+} from "./errors";
+import { BBox } from "./types";
+
+const IMAGE_DIR = path.join(DATA_DIR, "images");
+
+interface StoredInference {
+  id: string;
+  user_id: string;
+  image_filename: string;
+  image_url: string;
+  original_filename: string;
+  image_size_bytes: number;
+  image_width: number;
+  image_height: number;
+  model: string | null;
+  provider: string;
+  detection_results: DetectionResult[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredDetectionObject {
+  id: string;
+  inference_id: string;
+  label: string;
+  confidence_score: number;
+  bounding_box: BBox;
+  created_at: string;
+}
+
+const inferences = new JsonTable<StoredInference>("inferences");
+const detectionObjects = new JsonTable<StoredDetectionObject>(
+  "detection_objects"
+);
+
+export type StoreInferenceInput = {
+  userId: string;
+  image: Buffer;
+  /** File extension for the stored image, e.g. "jpeg". */
+  format: string;
+  originalFilename: string;
+  width: number;
+  height: number;
+  model: string | null;
+  provider: string;
+  detectionResults: DetectionResult[];
+};
+
+function toHistoryItem(row: StoredInference): InferenceHistoryItem {
+  return {
+    id: row.id,
+    imageUrl: row.image_url,
+    originalFilename: row.original_filename,
+    imageSizeBytes: row.image_size_bytes,
+    imageWidth: row.image_width,
+    imageHeight: row.image_height,
+    model: row.model,
+    provider: row.provider,
+    detectionResults: row.detection_results,
+    createdAt: row.created_at,
+    detectionCount: row.detection_results?.length || 0,
+  };
+}
+
+/**
+ * Stores a new inference result and its image under `DATA_DIR`.
+ *
+ * @returns The id of the stored inference
+ */
+export async function storeInference(
+  input: StoreInferenceInput
+): Promise<string> {
+  const id = randomUUID();
+  const imageFilename = `${id}.${input.format}`;
+  const now = new Date().toISOString();
+
+  try {
+    await fs.mkdir(IMAGE_DIR, { recursive: true });
+    await fs.writeFile(path.join(IMAGE_DIR, imageFilename), input.image);
+
+    await inferences.insert({
+      id,
+      user_id: input.userId,
+      image_filename: imageFilename,
+      image_url: `/api/inferences/${id}/image`,
+      original_filename: input.originalFilename,
+      image_size_bytes: input.image.length,
+      image_width: input.width,
+      image_height: input.height,
+      model: input.model,
+      provider: input.provider,
+      detection_results: input.detectionResults,
+      created_at: now,
+      updated_at: now,
+    });
+
+    await detectionObjects.insert(
+      ...input.detectionResults.map((detection) => ({
+        id: randomUUID(),
+        inference_id: id,
+        label: detection.label,
+        confidence_score: detection.score,
+        bounding_box: detection.box,
+        created_at: now,
+      }))
+    );
+  } catch (error) {
+    throw new DatabaseError("Failed to store inference", { cause: error });
+  }
+
+  return id;
+}
+
+/**
+ * Retrieves the inference history for a specific user, newest first.
+ *
+ * @param userId - Unique identifier for the user
+ * @param page - Page number for pagination (default: 1)
+ * @param limit - Number of results per page (default: 20, max: 100)
+ * @throws {ValidationError} If userId or the pagination parameters are invalid
+ */
+export async function getInferenceHistory(
+  userId: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<InferenceHistoryResponse> {
+  if (!userId || typeof userId !== "string") {
+    throw new ValidationError("Valid userId is required");
+  }
+
+  if (
+    !Number.isInteger(page) ||
+    !Number.isInteger(limit) ||
+    page < 1 ||
+    limit < 1 ||
+    limit > 100
+  ) {
+    throw new ValidationError("Invalid pagination parameters");
+  }
+
+  const rows = (await inferences.all())
+    .filter((row) => row.user_id === userId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const totalCount = rows.length;
+  const totalPages = Math.ceil(totalCount / limit);
+  const offset = (page - 1) * limit;
+
+  return {
+    success: true,
+    data: {
+      inferences: rows.slice(offset, offset + limit).map(toHistoryItem),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalCount,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+        limit,
+      },
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns the user's inferences, newest first, optionally limited to `ids`.
+ */
+export async function listInferences(
+  userId: string,
+  ids?: string[]
+): Promise<InferenceHistoryItem[]> {
+  return (await inferences.all())
+    .filter((row) => row.user_id === userId)
+    .filter((row) => !ids || ids.includes(row.id))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(toHistoryItem);
+}
+
+async function findOwnedInference(inferenceId: string, userId: string) {
+  const row = await inferences.find(inferenceId);
+  if (!row || row.user_id !== userId) {
+    throw new InferenceNotFoundError();
+  }
+  return row;
+}
+
+/**
+ * Retrieves a specific inference by ID for detailed view.
+ *
+ * @throws {InferenceNotFoundError} If it does not exist or belongs to another user
+ */
+export async function getInferenceById(
+  inferenceId: string,
+  userId: string
+): Promise<GetInferenceResponse> {
+  const row = await findOwnedInference(inferenceId, userId);
+  return { success: true, data: toHistoryItem(row) };
+}
+
+/**
+ * Replaces the detections of an inference, e.g. after a reviewer corrected
+ * the model output in the annotation editor.
+ *
+ * @throws {InferenceNotFoundError} If it does not exist or belongs to another user
+ */
+export async function updateInferenceDetections(
+  inferenceId: string,
+  userId: string,
+  detectionResults: DetectionResult[]
+): Promise<GetInferenceResponse> {
+  await findOwnedInference(inferenceId, userId);
+  const now = new Date().toISOString();
+
+  const row = await inferences.update(inferenceId, {
+    detection_results: detectionResults,
+    updated_at: now,
+  });
+  await detectionObjects.deleteWhere((r) => r.inference_id === inferenceId);
+  await detectionObjects.insert(
+    ...detectionResults.map((detection) => ({
+      id: randomUUID(),
+      inference_id: inferenceId,
+      label: detection.label,
+      confidence_score: detection.score,
+      bounding_box: detection.box,
+      created_at: now,
+    }))
+  );
+
+  if (!row) throw new InferenceNotFoundError();
+  return { success: true, data: toHistoryItem(row) };
+}
+
+export async function getInferenceImage(inferenceId: string, userId: string) {
+  const row = await findOwnedInference(inferenceId, userId);
+  const image = await fs.readFile(path.join(IMAGE_DIR, row.image_filename));
+  return { image, format: path.extname(row.image_filename).slice(1) };
+}
+
+/**
+ * Deletes an inference together with its detection objects and image.
+ *
+ * @throws {InferenceNotFoundError} If it does not exist or belongs to another user
+ */
+export async function deleteInference(inferenceId: string, userId: string) {
+  const row = await findOwnedInference(inferenceId, userId);
+
+  await inferences.deleteWhere((r) => r.id === row.id);
+  await detectionObjects.deleteWhere((r) => r.inference_id === row.id);
+  await fs
+    .unlink(path.join(IMAGE_DIR, row.image_filename))
+    .catch(() => undefined);
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./detection-pipeline", () => ({ runDetection: vi.fn() }));
+vi.mock("./image", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./image")>()),
+  inspectImage: vi.fn(async () => undefined),
+}));
+
+let dataDir: string;
+
+const globalForJobs = globalThis as typeof globalThis & {
+  resarioJobWorker?: unknown;
+};
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "resario-worker-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("JOB_CONCURRENCY", "2");
+  vi.resetModules();
+  delete globalForJobs.resarioJobWorker;
+});
+
+afterEach(async () => {
+  delete globalForJobs.resarioJobWorker;
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("job worker", () => {
+  it("runs at most JOB_CONCURRENCY images at a time", async () => {
+    const { runDetection } = await import("./detection-pipeline");
+    const { createJob, getJob } = await import("./jobs");
+    const { startJobWorker } = await import("./job-worker");
+
+    const finishers: (() => void)[] = [];
+    vi.mocked(runDetection).mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          finishers.push(() =>
+            resolve({
+              inferenceId: null,
+              detections: [],
+              image: { original: { width: 1, height: 1 } },
+              cached: false,
+            } as unknown as Awaited<ReturnType<typeof runDetection>>)
+          )
+        )
+    );
+
+    const job = await createJob({
+      userId: "user",
+      provider: "mock",
+      model: null,
+      params: { minScore: 0.5 },
+      tiling: null,
+      save: false,
+      webhookUrl: null,
+      webhookSecret: null,
+      inputs: ["a", "b", "c"].map((name) => ({
+        filename: `${name}.png`,
+        image: Buffer.from(name),
+        format: "png",
+      })),
+    });
+    startJobWorker();
+
+    await vi.waitFor(() => expect(runDetection).toHaveBeenCalledTimes(2));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(runDetection).toHaveBeenCalledTimes(2);
+
+    finishers[0]();
+    await vi.waitFor(() => expect(runDetection).toHaveBeenCalledTimes(3));
+    finishers[1]();
+    finishers[2]();
+
+    await vi.waitFor(async () =>
+      expect((await getJob(job.id, "user")).status).toBe("completed")
+    );
+    expect((await getJob(job.id, "user")).progress).toMatchObject({
+      total: 3,
+      succeeded: 3,
+    });
+  });
+});
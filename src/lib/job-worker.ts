@@ -0,0 +1,303 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { errorBody } from "./api-route";
+import { runDetection } from "./detection-pipeline";
+import { DetectionError, ImageFetchError, ImageTooLargeError } from "./errors";
+import { MAX_UPLOAD_BYTES, inspectImage } from "./image";
+import { formatMegabytes } from "./image-format";
+import {
+  JOB_INPUT_DIR,
+  StoredJob,
+  StoredJobItem,
+  claimNextItem,
+  completeJobIfFinished,
+  dueWebhooks,
+  findStoredJob,
+  jobItemsOf,
+  nextWakeAt,
+  recoverJobs,
+  toJob,
+  updateItem,
+  updateWebhook,
+} from "./jobs";
+import { logger } from "./logger";
+import { findModel } from "./models";
+import { fetchPublicUrl } from "./outbound";
+import { getProvider } from "./providers";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  deliverWebhook,
+  webhookRetryDelayMs,
+} from "./webhooks";
+
+/** Images processed at the same time, across all jobs. */
+export const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+/** Runs per image before a retryable error (timeouts and the like) sticks. */
+export const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+const JOB_FETCH_TIMEOUT_MS = Number(process.env.JOB_FETCH_TIMEOUT_MS) || 30000;
+const JOB_RETRY_BASE_MS = 5000;
+
+// Floor for the wake-up timer, so due work that can't start yet (every slot
+// busy, a webhook in flight) doesn't spin the loop.
+const MIN_WAKE_DELAY_MS = 1000;
+
+const log = logger.child({ component: "job-worker" });
+
+/** `fetch` failures hide the reason, e.g. a refused connection, in `cause`. */
+function reasonOf(error: unknown): string {
+  const { message, cause } = error as Error & { cause?: unknown };
+  return cause instanceof Error ? cause.message : message;
+}
+
+/**
+ * Downloads an image URL of a job, refusing bodies over `MAX_UPLOAD_BYTES`
+ * without reading them to the end.
+ *
+ * @throws {ImageFetchError} If the URL can't be fetched or isn't a 2xx
+ * @throws {ImageTooLargeError} If the image exceeds `MAX_UPLOAD_BYTES`
+ */
+async function fetchImage(url: string): Promise<Buffer> {
+  const tooLarge = () =>
+    new ImageTooLargeError(
+      `${url} exceeds the ${formatMegabytes(MAX_UPLOAD_BYTES)} image limit`
+    );
+  try {
+    const response = await fetchPublicUrl(url, {
+      signal: AbortSignal.timeout(JOB_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new ImageFetchError(
+        `Fetching ${url} failed with HTTP ${response.status}`
+      );
+    }
+    if (Number(response.headers.get("content-length")) > MAX_UPLOAD_BYTES) {
+      await response.body.cancel();
+      throw tooLarge();
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > MAX_UPLOAD_BYTES) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  } catch (error) {
+    if (error instanceof DetectionError) throw error;
+    throw new ImageFetchError(`Could not fetch ${url}: ${reasonOf(error)}`);
+  }
+}
+
+function urlFilename(url: string) {
+  return new URL(url).pathname.split("/").pop() || "image";
+}
+
+/** Runs detection for one claimed item and records the outcome. */
+async function runItem(item: StoredJobItem) {
+  const job = await findStoredJob(item.job_id);
+  if (!job) return;
+  const itemLog = log.child({ jobId: job.id, item: item.index });
+
+  try {
+    const image = item.input_file
+      ? await fs.readFile(path.join(JOB_INPUT_DIR, item.input_file))
+      : await fetchImage(item.url as string);
+    await inspectImage(image);
+
+    const model = job.model ? findModel(job.model) : undefined;
+    const result = await runDetection(
+      {
+        image,
+        filename: item.filename ?? urlFilename(item.url as string),
+        userId: job.user_id,
+        provider: getProvider(job.provider),
+        model,
+        params: job.params,
+        tiling: job.tiling,
+        zones: null,
+        save: job.save,
+        cache: true,
+      },
+      { log: itemLog }
+    );
+    await updateItem(item.id, {
+      status: "succeeded",
+      result: {
+        inference_id: result.inferenceId,
+        detections: result.detections,
+        image: result.image.original,
+        cached: result.cached,
+      },
+      error: null,
+    });
+  } catch (error) {
+    const { body } = errorBody(error, itemLog);
+    const retry = body.retryable && item.attempts < JOB_MAX_ATTEMPTS;
+    itemLog.warn("job.item_failed", {
+      code: body.code,
+      attempt: item.attempts,
+      retry,
+    });
+    if (retry) {
+      const delayMs =
+        body.retryAfter !== undefined
+          ? body.retryAfter * 1000
+          : JOB_RETRY_BASE_MS * 2 ** (item.attempts - 1);
+      await updateItem(item.id, {
+        status: "queued",
+        error: body,
+        not_before: new Date(Date.now() + delayMs).toISOString(),
+      });
+      return;
+    }
+    await updateItem(item.id, { status: "failed", error: body });
+  }
+
+  const completed = await completeJobIfFinished(job.id);
+  if (completed) {
+    log.info("job.completed", {
+      jobId: job.id,
+      webhook: completed.webhook_url !== null,
+    });
+  }
+}
+
+/** One delivery attempt; failures are retried with backoff until the limit. */
+async function sendWebhook(job: StoredJob) {
+  const attempts = job.webhook_attempts + 1;
+  try {
+    await deliverWebhook(job.webhook_url as string, job.webhook_secret, {
+      event: "job.completed",
+      job: toJob(job, await jobItemsOf(job.id)),
+    });
+    await updateWebhook(job.id, {
+      webhook_status: "delivered",
+      webhook_attempts: attempts,
+      webhook_next_attempt_at: null,
+      webhook_last_error: null,
+      webhook_delivered_at: new Date().toISOString(),
+    });
+    log.info("job.webhook_delivered", { jobId: job.id, attempts });
+  } catch (error) {
+    const giveUp = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    await updateWebhook(job.id, {
+      webhook_status: giveUp ? "failed" : "pending",
+      webhook_attempts: attempts,
+      webhook_next_attempt_at: giveUp
+        ? null
+        : new Date(Date.now() + webhookRetryDelayMs(attempts)).toISOString(),
+      webhook_last_error: reasonOf(error),
+    });
+    log.warn("job.webhook_failed", {
+      jobId: job.id,
+      attempts,
+      giveUp,
+      error: reasonOf(error),
+    });
+  }
+}
+
+/**
+ * Works through the job queue in the background: claims due items up to
+ * `JOB_CONCURRENCY` at a time, delivers webhooks of completed jobs, and
+ * sleeps until the next retry is due. Everything it needs is in the job
+ * tables, so a restarted server picks up where the last one stopped.
+ */
+class JobWorker {
+  private running = 0;
+  private delivering = new Set<string>();
+  private pumping = false;
+  private pumpAgain = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = recoverJobs().catch((error) =>
+      log.error("job.recover_failed", { error })
+    );
+    this.wake();
+  }
+
+  /** Looks for due work now, e.g. right after a job was queued. */
+  wake(): void {
+    void this.pump();
+  }
+
+  private async pump() {
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this.pumping = true;
+    try {
+      await this.ready;
+      do {
+        this.pumpAgain = false;
+        await this.startDueWork();
+      } while (this.pumpAgain);
+      this.schedule(await nextWakeAt());
+    } catch (error) {
+      log.error("job.worker_failed", { error });
+      this.schedule(new Date(Date.now() + JOB_RETRY_BASE_MS));
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async startDueWork() {
+    const now = new Date();
+    while (this.running < JOB_CONCURRENCY) {
+      const item = await claimNextItem(now);
+      if (!item) break;
+      this.running++;
+      runItem(item)
+        .catch((error) => log.error("job.item_crashed", { error }))
+        .finally(() => {
+          this.running--;
+          this.wake();
+        });
+    }
+
+    for (const job of await dueWebhooks(now)) {
+      if (this.delivering.has(job.id)) continue;
+      this.delivering.add(job.id);
+      sendWebhook(job)
+        .catch((error) => log.error("job.webhook_crashed", { error }))
+        .finally(() => {
+          this.delivering.delete(job.id);
+          this.wake();
+        });
+    }
+  }
+
+  private schedule(at: Date | null) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!at) return;
+    this.timer = setTimeout(
+      () => this.wake(),
+      Math.max(at.getTime() - Date.now(), MIN_WAKE_DELAY_MS)
+    );
+    // Waiting retries alone don't keep the process alive.
+    this.timer.unref?.();
+  }
+}
+
+// Kept on globalThis so instrumentation and every route bundle share one
+// worker instead of each claiming items of their own.
+const globalForJobs = globalThis as typeof globalThis & {
+  resarioJobWorker?: JobWorker;
+};
+
+/** The job worker, started on first use. */
+export function startJobWorker(): JobWorker {
+  return (globalForJobs.resarioJobWorker ??= new JobWorker());
+}
@@ -0,0 +1,125 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CreateJobInput } from "./jobs";
+
+let dataDir: string;
+
+/**
+ * A fresh copy of the job store over `dataDir`, as a restarted server would
+ * load it.
+ */
+async function loadStore() {
+  vi.resetModules();
+  return import("./jobs");
+}
+
+const input = (inputs: CreateJobInput["inputs"]): CreateJobInput => ({
+  userId: "user",
+  provider: "mock",
+  model: null,
+  params: { minScore: 0.5 },
+  tiling: null,
+  save: false,
+  webhookUrl: "https://hooks.example/done",
+  webhookSecret: null,
+  inputs,
+});
+
+const upload = (filename: string) => ({
+  filename,
+  image: Buffer.from(filename),
+  format: "png",
+});
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "resario-jobs-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("job store", () => {
+  it("keeps jobs and their uploads across a restart", async () => {
+    const store = await loadStore();
+    const job = await store.createJob(
+      input([upload("a.png"), { url: "https://images.example/b.jpg" }])
+    );
+
+    const restarted = await loadStore();
+    const reloaded = await restarted.getJob(job.id, "user");
+    expect(reloaded).toEqual(job);
+    expect(reloaded.items.map((item) => item.filename ?? item.url)).toEqual([
+      "a.png",
+      "https://images.example/b.jpg",
+    ]);
+    expect(
+      await fs.readFile(path.join(restarted.JOB_INPUT_DIR, job.id, "0.png"))
+    ).toEqual(Buffer.from("a.png"));
+  });
+
+  it("hides jobs of other users", async () => {
+    const store = await loadStore();
+    const job = await store.createJob(input([upload("a.png")]));
+
+    await expect(store.getJob(job.id, "someone-else")).rejects.toThrow(
+      "not found"
+    );
+  });
+
+  it("claims due items in order and starts their job", async () => {
+    const store = await loadStore();
+    const job = await store.createJob(
+      input([upload("a.png"), upload("b.png")])
+    );
+    const now = new Date();
+
+    const first = await store.claimNextItem(now);
+    expect(first).toMatchObject({ index: 0, status: "running", attempts: 1 });
+    await store.updateItem(first!.id, {
+      status: "queued",
+      not_before: new Date(now.getTime() + 60_000).toISOString(),
+    });
+
+    // The retry isn't due yet, so the next item goes first.
+    expect(await store.claimNextItem(now)).toMatchObject({ index: 1 });
+    expect(await store.claimNextItem(now)).toBeNull();
+    expect((await store.getJob(job.id, "user")).status).toBe("running");
+  });
+
+  it("requeues items that were running when the server stopped", async () => {
+    const store = await loadStore();
+    const job = await store.createJob(input([upload("a.png")]));
+    await store.claimNextItem(new Date());
+
+    const restarted = await loadStore();
+    await restarted.recoverJobs();
+    const [item] = (await restarted.getJob(job.id, "user")).items;
+    expect(item).toMatchObject({ status: "queued", attempts: 1 });
+    expect(await restarted.claimNextItem(new Date())).toMatchObject({
+      attempts: 2,
+    });
+  });
+
+  it("completes jobs whose last item finished before a restart", async () => {
+    const store = await loadStore();
+    const job = await store.createJob(input([upload("a.png")]));
+    const item = await store.claimNextItem(new Date());
+    await store.updateItem(item!.id, { status: "failed" });
+
+    const restarted = await loadStore();
+    await restarted.recoverJobs();
+    const recovered = await restarted.getJob(job.id, "user");
+    expect(recovered.status).toBe("completed");
+    expect(recovered.webhook).toMatchObject({ status: "pending" });
+    expect(await restarted.dueWebhooks(new Date())).toHaveLength(1);
+    // Uploads go once the job is done.
+    await expect(
+      fs.access(path.join(restarted.JOB_INPUT_DIR, job.id))
+    ).rejects.toThrow();
+  });
+});
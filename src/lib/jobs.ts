@@ -0,0 +1,366 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DetectErrorBody,
+  DetectionResult,
+  Job,
+  JobItem,
+} from "@/types/detection";
+import { DATA_DIR, JsonTable, withLock } from "./db";
+import { DatabaseError, JobNotFoundError } from "./errors";
+import { DetectionParams, TilingParams } from "./params";
+import { ImageSize } from "./types";
+
+/** Uploads waiting to be processed, one directory per job. */
+export const JOB_INPUT_DIR = path.join(DATA_DIR, "job-inputs");
+
+export const MAX_JOB_IMAGES = Number(process.env.MAX_JOB_IMAGES) || 100;
+/** Limit for the uploads of one `POST /api/v1/jobs`. */
+export const MAX_JOB_BYTES =
+  Number(process.env.MAX_JOB_BYTES) || 200 * 1024 * 1024;
+
+type JobStatus = Job["status"];
+type JobItemStatus = JobItem["status"];
+type WebhookStatus = NonNullable<Job["webhook"]>["status"];
+
+export interface StoredJob {
+  id: string;
+  user_id: string;
+  status: JobStatus;
+  provider: string;
+  model: string | null;
+  params: DetectionParams;
+  tiling: TilingParams | null;
+  save: boolean;
+  webhook_url: string | null;
+  /** `null` signs with the server's `WEBHOOK_SECRET`. */
+  webhook_secret: string | null;
+  webhook_status: WebhookStatus | null;
+  webhook_attempts: number;
+  webhook_next_attempt_at: string | null;
+  webhook_last_error: string | null;
+  webhook_delivered_at: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface StoredJobItem {
+  id: string;
+  job_id: string;
+  index: number;
+  filename: string | null;
+  url: string | null;
+  /** Upload under `JOB_INPUT_DIR`, removed when the job completes. */
+  input_file: string | null;
+  status: JobItemStatus;
+  attempts: number;
+  /** Retries wait until then. */
+  not_before: string | null;
+  result: {
+    inference_id: string | null;
+    detections: DetectionResult[];
+    image: ImageSize;
+    cached: boolean;
+  } | null;
+  error: DetectErrorBody | null;
+  updated_at: string;
+}
+
+const jobs = new JsonTable<StoredJob>("jobs");
+const jobItems = new JsonTable<StoredJobItem>("job_items");
+
+// Claiming items and completing jobs read and write both tables.
+const QUEUE_LOCK = "job-queue";
+
+const FINISHED: JobItemStatus[] = ["succeeded", "failed"];
+
+export type JobInput =
+  | { filename: string; image: Buffer; format: string }
+  | { url: string };
+
+export type CreateJobInput = {
+  userId: string;
+  provider: string;
+  model: string | null;
+  params: DetectionParams;
+  tiling: TilingParams | null;
+  save: boolean;
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+  inputs: JobInput[];
+};
+
+function toJobItem(row: StoredJobItem): JobItem {
+  return {
+    index: row.index,
+    filename: row.filename,
+    url: row.url,
+    status: row.status,
+    attempts: row.attempts,
+    result: row.result && {
+      inferenceId: row.result.inference_id,
+      detections: row.result.detections,
+      image: row.result.image,
+      cached: row.result.cached,
+    },
+    error: row.error,
+  };
+}
+
+export function toJob(row: StoredJob, items: StoredJobItem[]): Job {
+  const count = (status: JobItemStatus) =>
+    items.filter((item) => item.status === status).length;
+  return {
+    id: row.id,
+    status: row.status,
+    provider: row.provider,
+    model: row.model,
+    params: row.params,
+    tiling: row.tiling,
+    save: row.save,
+    progress: {
+      total: items.length,
+      queued: count("queued"),
+      running: count("running"),
+      succeeded: count("succeeded"),
+      failed: count("failed"),
+    },
+    webhook:
+      row.webhook_url && row.webhook_status
+        ? {
+            url: row.webhook_url,
+            status: row.webhook_status,
+            attempts: row.webhook_attempts,
+            lastError: row.webhook_last_error,
+            deliveredAt: row.webhook_delivered_at,
+          }
+        : null,
+    items: [...items].sort((a, b) => a.index - b.index).map(toJobItem),
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export async function jobItemsOf(jobId: string): Promise<StoredJobItem[]> {
+  return (await jobItems.all()).filter((item) => item.job_id === jobId);
+}
+
+/**
+ * Queues a job: stores its uploads under `JOB_INPUT_DIR` and one item per
+ * input, uploads first, in the order they were sent.
+ */
+export async function createJob(input: CreateJobInput): Promise<Job> {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const job: StoredJob = {
+    id,
+    user_id: input.userId,
+    status: "queued",
+    provider: input.provider,
+    model: input.model,
+    params: input.params,
+    tiling: input.tiling,
+    save: input.save,
+    webhook_url: input.webhookUrl,
+    webhook_secret: input.webhookSecret,
+    webhook_status: input.webhookUrl ? "pending" : null,
+    webhook_attempts: 0,
+    webhook_next_attempt_at: null,
+    webhook_last_error: null,
+    webhook_delivered_at: null,
+    created_at: now,
+    started_at: null,
+    completed_at: null,
+  };
+
+  try {
+    await fs.mkdir(path.join(JOB_INPUT_DIR, id), { recursive: true });
+    const items = await Promise.all(
+      input.inputs.map(async (source, index): Promise<StoredJobItem> => {
+        const inputFile =
+          "image" in source ? path.join(id, `${index}.${source.format}`) : null;
+        if (inputFile && "image" in source) {
+          await fs.writeFile(path.join(JOB_INPUT_DIR, inputFile), source.image);
+        }
+        return {
+          id: randomUUID(),
+          job_id: id,
+          index,
+          filename: "filename" in source ? source.filename : null,
+          url: "url" in source ? source.url : null,
+          input_file: inputFile,
+          status: "queued",
+          attempts: 0,
+          not_before: null,
+          result: null,
+          error: null,
+          updated_at: now,
+        };
+      })
+    );
+
+    // The job first, so the worker never claims an item without its job.
+    await jobs.insert(job);
+    await jobItems.insert(...items);
+    return toJob(job, items);
+  } catch (error) {
+    await fs
+      .rm(path.join(JOB_INPUT_DIR, id), { recursive: true, force: true })
+      .catch(() => undefined);
+    throw new DatabaseError("Failed to create job", { cause: error });
+  }
+}
+
+/**
+ * A user's job with the status of every image.
+ *
+ * @throws {JobNotFoundError} If the job doesn't exist or belongs to someone else
+ */
+export async function getJob(jobId: string, userId: string): Promise<Job> {
+  const row = await jobs.find(jobId);
+  if (!row || row.user_id !== userId) throw new JobNotFoundError(jobId);
+  return toJob(row, await jobItemsOf(jobId));
+}
+
+export function findStoredJob(jobId: string) {
+  return jobs.find(jobId);
+}
+
+/**
+ * Marks the oldest queued item that is due as running, and its job as
+ * started. `null` when nothing is due.
+ */
+export function claimNextItem(now: Date): Promise<StoredJobItem | null> {
+  return withLock(QUEUE_LOCK, async () => {
+    const item = (await jobItems.all()).find(
+      (row) =>
+        row.status === "queued" &&
+        (!row.not_before || new Date(row.not_before) <= now)
+    );
+    if (!item) return null;
+
+    const claimed = await jobItems.update(item.id, {
+      status: "running",
+      attempts: item.attempts + 1,
+      updated_at: now.toISOString(),
+    });
+    const job = await jobs.find(item.job_id);
+    if (job?.status === "queued") {
+      await jobs.update(job.id, {
+        status: "running",
+        started_at: now.toISOString(),
+      });
+    }
+    return claimed ?? null;
+  });
+}
+
+/**
+ * Records how an item went: `succeeded` or `failed` with their result or
+ * error, or `queued` again to retry after `notBefore`.
+ */
+export function updateItem(
+  itemId: string,
+  patch: Pick<StoredJobItem, "status"> &
+    Partial<Pick<StoredJobItem, "result" | "error" | "not_before">>
+) {
+  return jobItems.update(itemId, {
+    ...patch,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Completes the job once none of its items are left, scheduling its webhook.
+ *
+ * @returns The completed job, or `null` when it is unfinished or was
+ *   completed before
+ */
+export function completeJobIfFinished(
+  jobId: string
+): Promise<StoredJob | null> {
+  return withLock(QUEUE_LOCK, async () => {
+    const job = await jobs.find(jobId);
+    if (!job || job.status === "completed") return null;
+    const items = await jobItemsOf(jobId);
+    if (!items.every((item) => FINISHED.includes(item.status))) return null;
+
+    const now = new Date().toISOString();
+    const completed = await jobs.update(jobId, {
+      status: "completed",
+      started_at: job.started_at ?? now,
+      completed_at: now,
+      webhook_next_attempt_at: job.webhook_url ? now : null,
+    });
+    await fs
+      .rm(path.join(JOB_INPUT_DIR, jobId), { recursive: true, force: true })
+      .catch(() => undefined);
+    return completed ?? null;
+  });
+}
+
+/**
+ * Puts items that were running when the server stopped back in the queue,
+ * and completes jobs whose last item finished just before.
+ */
+export async function recoverJobs(): Promise<void> {
+  const interrupted = await withLock(QUEUE_LOCK, async () =>
+    (await jobItems.all()).filter((item) => item.status === "running")
+  );
+  for (const item of interrupted) {
+    await updateItem(item.id, { status: "queued" });
+  }
+
+  const open = (await jobs.all()).filter((job) => job.status !== "completed");
+  for (const job of open) {
+    await completeJobIfFinished(job.id);
+  }
+}
+
+/** Completed jobs whose webhook is due for a (re)try. */
+export async function dueWebhooks(now: Date): Promise<StoredJob[]> {
+  return (await jobs.all()).filter(
+    (job) =>
+      job.status === "completed" &&
+      job.webhook_status === "pending" &&
+      job.webhook_next_attempt_at !== null &&
+      new Date(job.webhook_next_attempt_at) <= now
+  );
+}
+
+export function updateWebhook(
+  jobId: string,
+  patch: Partial<
+    Pick<
+      StoredJob,
+      | "webhook_status"
+      | "webhook_attempts"
+      | "webhook_next_attempt_at"
+      | "webhook_last_error"
+      | "webhook_delivered_at"
+    >
+  >
+) {
+  return jobs.update(jobId, patch);
+}
+
+/**
+ * When the worker next has something to do: the earliest retry of an item
+ * or a webhook. `null` when nothing is waiting.
+ */
+export async function nextWakeAt(): Promise<Date | null> {
+  const times = [
+    ...(await jobItems.all())
+      .filter((item) => item.status === "queued")
+      .map((item) => item.not_before ?? new Date(0).toISOString()),
+    ...(await jobs.all())
+      .filter((job) => job.webhook_status === "pending")
+      .flatMap((job) =>
+        job.webhook_next_attempt_at ? [job.webhook_next_attempt_at] : []
+      ),
+  ].map((time) => new Date(time).getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
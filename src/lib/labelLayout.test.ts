@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { placeLabels } from "./labelLayout";
+
+const label = { width: 40, height: 10 };
+
+describe("placeLabels", () => {
+  it("puts a label above its box", () => {
+    const [rect] = placeLabels(
+      [{ xmin: 20, ymin: 50, xmax: 120, ymax: 150 }],
+      [label],
+      200,
+      200
+    );
+
+    expect(rect).toEqual({ xmin: 20, ymin: 40, xmax: 60, ymax: 50 });
+  });
+
+  it("moves a label inside when the box touches the top edge", () => {
+    const [rect] = placeLabels(
+      [{ xmin: 20, ymin: 0, xmax: 120, ymax: 100 }],
+      [label],
+      200,
+      200
+    );
+
+    expect(rect).toEqual({ xmin: 20, ymin: 0, xmax: 60, ymax: 10 });
+  });
+
+  it("avoids labels placed earlier in `order`", () => {
+    const boxes = [
+      { xmin: 20, ymin: 50, xmax: 120, ymax: 150 },
+      { xmin: 25, ymin: 52, xmax: 125, ymax: 152 },
+    ];
+    // The second box goes first, so the first box's label moves.
+    const [first, second] = placeLabels(
+      boxes,
+      [label, label],
+      200,
+      200,
+      [1, 0]
+    );
+
+    expect(second).toEqual({ xmin: 25, ymin: 42, xmax: 65, ymax: 52 });
+    expect(first).toEqual({ xmin: 20, ymin: 150, xmax: 60, ymax: 160 });
+  });
+});
@@ -0,0 +1,70 @@
+import { intersectionArea } from "./boxes";
+import { BBox } from "./types";
+
+export type LabelSize = { width: number; height: number };
+
+function candidates(box: BBox, size: LabelSize): [number, number][] {
+  const { width, height } = size;
+  const left = box.xmin;
+  const right = box.xmax - width;
+  return [
+    [left, box.ymin - height], // above, outside the box
+    [left, box.ymin], // inside, top
+    [left, box.ymax], // below, outside the box
+    [left, box.ymax - height], // inside, bottom
+    [right, box.ymin - height],
+    [right, box.ymin],
+    [right, box.ymax],
+    [right, box.ymax - height],
+  ];
+}
+
+/**
+ * Greedily places one label per box inside a `canvasW`×`canvasH` canvas.
+ * Boxes are handled in `order` (e.g. by descending score) and each label takes
+ * the first candidate position that doesn't overlap a label already placed,
+ * falling back to the position with the least overlap.
+ *
+ * @returns Label rectangles, indexed like `boxes`
+ */
+export function placeLabels(
+  boxes: BBox[],
+  sizes: LabelSize[],
+  canvasW: number,
+  canvasH: number,
+  order: number[] = boxes.map((_, i) => i)
+): BBox[] {
+  const placed: BBox[] = [];
+  const result: BBox[] = new Array(boxes.length);
+
+  for (const index of order) {
+    const size = sizes[index];
+    let best: BBox | null = null;
+    let bestOverlap = Infinity;
+
+    for (const [x, y] of candidates(boxes[index], size)) {
+      const xmin = Math.max(0, Math.min(x, canvasW - size.width));
+      const ymin = Math.max(0, Math.min(y, canvasH - size.height));
+      const rect = {
+        xmin,
+        ymin,
+        xmax: xmin + size.width,
+        ymax: ymin + size.height,
+      };
+      const overlap = placed.reduce(
+        (sum, other) => sum + intersectionArea(rect, other),
+        0
+      );
+      if (overlap < bestOverlap) {
+        best = rect;
+        bestOverlap = overlap;
+      }
+      if (overlap === 0) break;
+    }
+
+    result[index] = best as BBox;
+    placed.push(best as BBox);
+  }
+
+  return result;
+}
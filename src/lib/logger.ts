@@ -0,0 +1,73 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const MIN_LEVEL: LogLevel =
+  (process.env.LOG_LEVEL as LogLevel) in LEVELS
+    ? (process.env.LOG_LEVEL as LogLevel)
+    : "info";
+
+// Errors don't survive JSON.stringify, so keep what helps diagnose them.
+function serialize(value: unknown): unknown {
+  if (!(value instanceof Error)) return value;
+  return {
+    name: value.name,
+    message: value.message,
+    ...("code" in value ? { code: value.code } : {}),
+    ...(MIN_LEVEL === "debug" ? { stack: value.stack } : {}),
+  };
+}
+
+/**
+ * Writes one JSON object per line, so log pipelines can filter on `event`,
+ * `requestId` and the other fields without parsing messages.
+ */
+export class Logger {
+  constructor(private context: LogFields = {}) {}
+
+  /** A logger that adds `fields` to every entry, e.g. the request id. */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.context, ...fields });
+  }
+
+  debug(event: string, fields?: LogFields) {
+    this.write("debug", event, fields);
+  }
+
+  info(event: string, fields?: LogFields) {
+    this.write("info", event, fields);
+  }
+
+  warn(event: string, fields?: LogFields) {
+    this.write("warn", event, fields);
+  }
+
+  error(event: string, fields?: LogFields) {
+    this.write("error", event, fields);
+  }
+
+  private write(level: LogLevel, event: string, fields: LogFields = {}) {
+    if (LEVELS[level] < LEVELS[MIN_LEVEL]) return;
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      event,
+      ...this.context,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = serialize(value);
+    }
+    const line = JSON.stringify(entry);
+    if (LEVELS[level] >= LEVELS.warn) console.error(line);
+    else console.log(line);
+  }
+}
+
+export const logger = new Logger();
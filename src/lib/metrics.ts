@@ -0,0 +1,163 @@
+/**
+ * Minimal Prometheus metrics: counters and histograms with labels, rendered
+ * in the text exposition format by `GET /api/metrics`. Values live in memory
+ * and reset when the server restarts, as Prometheus expects.
+ */
+
+type Labels = Record<string, string>;
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Same labels in any key order map to the same series.
+const seriesKey = (labels: Labels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+interface Metric {
+  render(): string;
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, by: number = 1) {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += by;
+    this.values.set(key, series);
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+type HistogramSeries = {
+  labels: Labels;
+  /** Per bucket, not cumulative; the last slot is `+Inf`. */
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+export class Histogram implements Metric {
+  private values = new Map<string, HistogramSeries>();
+
+  /** @param buckets - Upper bounds in ascending order */
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? {
+      labels,
+      counts: new Array(this.buckets.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    };
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    series.counts[bucket === -1 ? this.buckets.length : bucket] += 1;
+    series.sum += value;
+    series.count += 1;
+    this.values.set(key, series);
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      let cumulative = 0;
+      [...this.buckets.map(String), "+Inf"].forEach((le, i) => {
+        cumulative += counts[i];
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le })} ${cumulative}`
+        );
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+const SECONDS_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 60];
+
+function createMetrics() {
+  return {
+    requests: new Counter(
+      "resario_http_requests_total",
+      "API requests by route and response status."
+    ),
+    requestDuration: new Histogram(
+      "resario_http_request_duration_seconds",
+      "Time to the response, or to the end of the stream, by route.",
+      SECONDS_BUCKETS
+    ),
+    stageDuration: new Histogram(
+      "resario_detect_stage_duration_seconds",
+      "Time spent in each detection stage: prepare, cache, detect, store.",
+      SECONDS_BUCKETS
+    ),
+    upstreamDuration: new Histogram(
+      "resario_upstream_request_duration_seconds",
+      "Provider calls including retries, by provider, model and outcome.",
+      SECONDS_BUCKETS
+    ),
+    cacheLookups: new Counter(
+      "resario_result_cache_lookups_total",
+      "Result cache lookups by result (hit or miss)."
+    ),
+    uploadBytes: new Histogram(
+      "resario_upload_bytes",
+      "Size of uploaded images.",
+      [64e3, 256e3, 1e6, 4e6, 10e6, 20e6]
+    ),
+    detectionsPerImage: new Histogram(
+      "resario_detections_per_image",
+      "Detections returned per image, by provider.",
+      [0, 1, 2, 5, 10, 20, 50, 100]
+    ),
+  };
+}
+
+// Kept on globalThis so every route bundle records into the same registry.
+const globalForMetrics = globalThis as typeof globalThis & {
+  resarioMetrics?: ReturnType<typeof createMetrics>;
+};
+
+export const metrics = (globalForMetrics.resarioMetrics ??= createMetrics());
+
+/** Every metric in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return (
+    Object.values(metrics)
+      .map((metric: Metric) => metric.render())
+      .join("\n\n") + "\n"
+  );
+}
+
+/** Seconds since `start`, a `performance.now()` reading. */
+export function secondsSince(start: number): number {
+  return (performance.now() - start) / 1000;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { findModel, resolveModel } from "./models";
+
+describe("resolveModel", () => {
+  it("leaves the model to the provider when none is asked for", () => {
+    expect(resolveModel(undefined, "huggingface")).toEqual({});
+  });
+
+  it("finds a known model", () => {
+    expect(resolveModel("hustvl/yolos-tiny")).toEqual({
+      model: findModel("hustvl/yolos-tiny"),
+    });
+  });
+
+  it("refuses unknown models", () => {
+    expect(resolveModel("acme/detector")).toEqual({
+      error: 'Unknown model "acme/detector"',
+    });
+  });
+
+  it("refuses a model of another provider", () => {
+    expect(resolveModel("mock/fixtures", "huggingface")).toEqual({
+      error: 'Model "mock/fixtures" runs on provider "mock", not "huggingface"',
+    });
+  });
+});
@@ -0,0 +1,70 @@
+export type ModelInfo = {
+  id: string;
+  name: string;
+  provider: string;
+  description: string;
+};
+
+export const DEFAULT_MODEL = "facebook/detr-resnet-101";
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: "facebook/detr-resnet-101",
+    name: "DETR ResNet-101",
+    provider: "huggingface",
+    description: "Detection Transformer with a ResNet-101 backbone (COCO).",
+  },
+  {
+    id: "facebook/detr-resnet-50",
+    name: "DETR ResNet-50",
+    provider: "huggingface",
+    description: "Smaller, faster DETR with a ResNet-50 backbone (COCO).",
+  },
+  {
+    id: "hustvl/yolos-tiny",
+    name: "YOLOS Tiny",
+    provider: "huggingface",
+    description: "Lightweight ViT-based detector, quick but less accurate.",
+  },
+  {
+    id: "hustvl/yolos-small",
+    name: "YOLOS Small",
+    provider: "huggingface",
+    description: "ViT-based detector balancing speed and accuracy.",
+  },
+  {
+    id: "mock/fixtures",
+    name: "Mock fixtures",
+    provider: "mock",
+    description: "Deterministic fixture detections for offline development.",
+  },
+  {
+    id: "self-hosted/default",
+    name: "Self-hosted server",
+    provider: "self-hosted",
+    description: "Whatever model is served at SELF_HOSTED_URL.",
+  },
+];
+
+export function findModel(id: string): ModelInfo | undefined {
+  return MODELS.find((model) => model.id === id);
+}
+
+/**
+ * Looks up the requested model, which must run on the requested provider
+ * when both are given.
+ */
+export function resolveModel(
+  modelId?: string,
+  providerId?: string
+): { model?: ModelInfo } | { error: string } {
+  if (!modelId) return {};
+  const model = findModel(modelId);
+  if (!model) return { error: `Unknown model "${modelId}"` };
+  if (providerId && providerId !== model.provider) {
+    return {
+      error: `Model "${modelId}" runs on provider "${model.provider}", not "${providerId}"`,
+    };
+  }
+  return { model };
+}
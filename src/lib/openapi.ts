@@ -0,0 +1,253 @@
+import {
+  API_VERSION,
+  DetectApiResponseSchema,
+  DetectErrorBodySchema,
+  DetectFormSchema,
+  DetectResponseSchema,
+  DetectStreamEventSchema,
+  DetectionSchema,
+  JobFormSchema,
+  JobSchema,
+  RedactFormSchema,
+  RedactResponseSchema,
+  RenderFormSchema,
+} from "./contract";
+import { RENDER_FORMATS } from "./annotation-svg";
+import { extend, literal, object } from "./schema";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("DetectError") } },
+});
+
+// Every operation validates the upload and may run the model.
+const errorResponses = {
+  400: errorResponse("Invalid request (`invalid_request`)"),
+  401: errorResponse(
+    "The API key is unknown or revoked, or a key is required (`unauthorized`)"
+  ),
+  403: errorResponse("The API key lacks the `detect` scope (`forbidden`)"),
+  408: errorResponse("The run timed out (`timeout`)"),
+  413: errorResponse(
+    "The upload exceeds the byte or pixel limit (`image_too_large`)"
+  ),
+  415: errorResponse(
+    "The upload is not a supported image, e.g. SVG (`unsupported_media_type`)"
+  ),
+  422: errorResponse(
+    "The image can't be decoded (`invalid_image`) or the upstream refused it (`upstream_rejected`)"
+  ),
+  429: errorResponse(
+    "The client's rate limit or the upstream's is exhausted (`rate_limited`), or a daily or monthly quota is used up (`quota_exceeded`). Carries `Retry-After` and `RateLimit-*` headers."
+  ),
+  500: errorResponse("Unexpected error (`internal_error`)"),
+  502: errorResponse(
+    "The upstream failed (`upstream_unavailable`, `upstream_misconfigured`, `bad_upstream_response`)"
+  ),
+  503: errorResponse(
+    "The upstream is warming up or skipped (`model_loading`, `circuit_open`)"
+  ),
+  504: errorResponse("Every upstream attempt timed out (`upstream_timeout`)"),
+};
+
+const detectOperation = {
+  summary: "Detect objects in an image",
+  security: [{}, { bearerAuth: [] }, { apiKeyHeader: [] }],
+  requestBody: {
+    required: true,
+    content: {
+      "multipart/form-data": { schema: ref("DetectRequest") },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        "Detections, or an NDJSON event stream when `stream=true`. Non-streamed responses carry `X-Cache: HIT` or `MISS`. Every response after the rate limit check carries `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy`.",
+      content: {
+        "application/json": {
+          schema: extend(DetectResponseSchema, { success: literal(true) }).json,
+        },
+        "application/x-ndjson": { schema: ref("DetectStreamEvent") },
+      },
+    },
+    ...errorResponses,
+  },
+};
+
+const redactOperation = {
+  summary: "Blur, pixelate or fill detected objects in an image",
+  description:
+    "Runs detection (or takes the boxes in `detections`) and redacts the matching regions at full resolution. Nothing is stored in history.",
+  security: [{}, { bearerAuth: [] }, { apiKeyHeader: [] }],
+  requestBody: {
+    required: true,
+    content: {
+      "multipart/form-data": { schema: ref("RedactRequest") },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        "The redacted image and an audit of the redacted regions, with `RateLimit-*` headers.",
+      content: {
+        "application/json": {
+          schema: extend(RedactResponseSchema, { success: literal(true) }).json,
+        },
+      },
+    },
+    ...errorResponses,
+  },
+};
+
+const renderOperation = {
+  summary: "Draw detections over an image at full resolution",
+  description:
+    "Runs detection (or takes the boxes in `detections`) and returns the image with boxes, labels and scores drawn like the web canvas. Nothing is stored in history.",
+  security: [{}, { bearerAuth: [] }, { apiKeyHeader: [] }],
+  requestBody: {
+    required: true,
+    content: {
+      "multipart/form-data": { schema: ref("RenderRequest") },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        "The annotated image, with `X-Detection-Count`, `RateLimit-*` and, when the model ran, `X-Cache` headers.",
+      content: Object.fromEntries(
+        RENDER_FORMATS.map((format) => [
+          `image/${format}`,
+          { schema: { type: "string", format: "binary" } },
+        ])
+      ),
+    },
+    ...errorResponses,
+  },
+};
+
+const jobResponseSchema = extend(object({ job: JobSchema }), {
+  success: literal(true),
+}).json;
+
+const submitJobOperation = {
+  summary: "Queue a bulk detection job",
+  description:
+    "Takes repeated `image` uploads and `url` fields and answers right away with the queued job. A background worker runs them with the job's settings; uploads are checked on submission, URLs when they are fetched. Each image counts against the quotas. With `webhookUrl`, a `job.completed` event with the finished job is POSTed there, signed in `X-Resario-Signature` and retried with backoff until a 2xx.",
+  security: [{}, { bearerAuth: [] }, { apiKeyHeader: [] }],
+  requestBody: {
+    required: true,
+    content: {
+      "multipart/form-data": { schema: ref("JobRequest") },
+    },
+  },
+  responses: {
+    202: {
+      description:
+        "The queued job, with a `Location` header to poll and `RateLimit-*` headers.",
+      content: {
+        "application/json": {
+          schema: jobResponseSchema,
+        },
+      },
+    },
+    ...errorResponses,
+  },
+};
+
+const getJobOperation = {
+  summary: "Get a job's progress and per-image results",
+  description:
+    "Polling counts against the rate limit but not the quotas. Jobs are only visible to the user who submitted them.",
+  security: [{}, { bearerAuth: [] }, { apiKeyHeader: [] }],
+  parameters: [
+    { name: "id", in: "path", required: true, schema: { type: "string" } },
+  ],
+  responses: {
+    200: {
+      description: "The job, with `RateLimit-*` headers.",
+      content: {
+        "application/json": {
+          schema: jobResponseSchema,
+        },
+      },
+    },
+    401: errorResponses[401],
+    403: errorResponses[403],
+    404: errorResponse("No such job for this user (`not_found`)"),
+    429: errorResponses[429],
+  },
+};
+
+/** OpenAPI 3.1 document generated from the `/api/v1` contract schemas. */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: { title: "Resario API", version: API_VERSION },
+    paths: {
+      [`/api/${API_VERSION}/detect`]: {
+        post: { operationId: "detect", ...detectOperation },
+      },
+      "/api/detect": {
+        post: {
+          ...detectOperation,
+          operationId: "detectUnversioned",
+          description: `Alias of \`/api/${API_VERSION}/detect\`.`,
+          deprecated: true,
+        },
+      },
+      [`/api/${API_VERSION}/redact`]: {
+        post: { operationId: "redact", ...redactOperation },
+      },
+      "/api/redact": {
+        post: {
+          ...redactOperation,
+          operationId: "redactUnversioned",
+          description: `Alias of \`/api/${API_VERSION}/redact\`.`,
+        },
+      },
+      [`/api/${API_VERSION}/render`]: {
+        post: { operationId: "render", ...renderOperation },
+      },
+      [`/api/${API_VERSION}/jobs`]: {
+        post: { operationId: "submitJob", ...submitJobOperation },
+      },
+      "/api/jobs": {
+        post: {
+          ...submitJobOperation,
+          operationId: "submitJobUnversioned",
+          description: `Alias of \`/api/${API_VERSION}/jobs\`.`,
+        },
+      },
+      [`/api/${API_VERSION}/jobs/{id}`]: {
+        get: { operationId: "getJob", ...getJobOperation },
+      },
+      "/api/jobs/{id}": {
+        get: {
+          ...getJobOperation,
+          operationId: "getJobUnversioned",
+          description: `Alias of \`/api/${API_VERSION}/jobs/{id}\`.`,
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        Detection: DetectionSchema.json,
+        DetectRequest: DetectFormSchema.json,
+        DetectResponse: DetectApiResponseSchema.json,
+        DetectError: extend(DetectErrorBodySchema, { success: literal(false) })
+          .json,
+        DetectStreamEvent: DetectStreamEventSchema.json,
+        RedactRequest: RedactFormSchema.json,
+        RenderRequest: RenderFormSchema.json,
+        JobRequest: JobFormSchema.json,
+        Job: JobSchema.json,
+      },
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { lookup } from "dns/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchPublicUrl } from "./outbound";
+
+vi.mock("dns/promises", () => ({ lookup: vi.fn() }));
+
+const HOSTS: Record<string, string> = {
+  "images.example": "93.184.216.34",
+  "internal.example": "10.0.0.5",
+};
+
+let fetch: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.mocked(lookup).mockImplementation((async (host: string) => [
+    { address: HOSTS[host], family: 4 },
+  ]) as unknown as typeof lookup);
+  fetch = vi.fn(async () => new Response("image"));
+  vi.stubGlobal("fetch", fetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchPublicUrl", () => {
+  it("fetches public hosts", async () => {
+    const response = await fetchPublicUrl("https://images.example/cat.jpg");
+
+    expect(await response.text()).toBe("image");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    "http://127.0.0.1/",
+    "http://10.1.2.3/",
+    "http://172.20.0.1/",
+    "http://192.168.1.1/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://100.64.0.1/",
+    "http://0.0.0.0/",
+    "http://[::1]/",
+    "http://[fd00::1]/",
+    "http://[fe80::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://internal.example/",
+  ])("refuses %s", async (url) => {
+    await expect(fetchPublicUrl(url)).rejects.toThrow("is a private address");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("refuses schemes other than http(s)", async () => {
+    await expect(fetchPublicUrl("file:///etc/passwd")).rejects.toThrow(
+      "file: URLs are not allowed"
+    );
+  });
+
+  it("checks every redirect hop", async () => {
+    fetch.mockResolvedValueOnce(
+      new Response(null, {
+        status: 302,
+        headers: { location: "http://internal.example/secret" },
+      })
+    );
+
+    await expect(
+      fetchPublicUrl("https://images.example/cat.jpg")
+    ).rejects.toThrow("internal.example is a private address");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops after maxRedirects", async () => {
+    fetch.mockImplementation(
+      async () =>
+        new Response(null, { status: 301, headers: { location: "/again" } })
+    );
+
+    await expect(
+      fetchPublicUrl("https://images.example/cat.jpg", {}, 2)
+    ).rejects.toThrow("Redirected more than 2 times");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,79 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Set to fetch from or call back into private networks, e.g. an image store
+// or a webhook receiver on the same machine.
+const ALLOW_PRIVATE_URLS = process.env.ALLOW_PRIVATE_URLS === "true";
+const MAX_REDIRECTS = 3;
+
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+// The IPv4 subnets also match their IPv4-mapped IPv6 forms (`::ffff:a.b.c.d`),
+// so the mapped range itself must not be listed: it would match every IPv4.
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Refuses anything but http(s), and hosts resolving to loopback, private or
+ * link-local addresses. The check and the connection resolve the host
+ * separately, so this stops mistakes and casual probing, not DNS rebinding.
+ */
+async function checkUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`${url.protocol} URLs are not allowed`);
+  }
+  if (ALLOW_PRIVATE_URLS) return;
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true });
+  const blocked = addresses.some(({ address, family }) =>
+    PRIVATE_NETWORKS.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  if (blocked) throw new Error(`${url.hostname} is a private address`);
+}
+
+/**
+ * `fetch` for URLs chosen by clients: every hop must pass `checkUrl`, and at
+ * most `maxRedirects` redirects are followed.
+ */
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit = {},
+  maxRedirects: number = MAX_REDIRECTS
+): Promise<Response> {
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    await checkUrl(current);
+    const response = await fetch(current, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects >= maxRedirects) {
+      throw new Error(
+        maxRedirects === 0
+          ? `Redirected to ${location}`
+          : `Redirected more than ${maxRedirects} times`
+      );
+    }
+    current = new URL(location, current);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MIN_SCORE,
+  DEFAULT_TILING,
+  applyDetectionParams,
+  detectionParams,
+  tilingParams,
+} from "./params";
+import { Detection } from "./types";
+
+const detection = (label: string, score: number): Detection => ({
+  label,
+  score,
+  box: { xmin: 0, ymin: 0, xmax: 10, ymax: 10 },
+});
+
+describe("detectionParams", () => {
+  it("defaults the score threshold and leaves the rest open", () => {
+    expect(detectionParams({}, [])).toEqual({
+      minScore: DEFAULT_MIN_SCORE,
+      maxDetections: undefined,
+      labels: undefined,
+    });
+  });
+
+  it("reads repeated and comma-separated labels", () => {
+    const params = detectionParams({ minScore: "0.6", maxDetections: "5" }, [
+      "Person, car",
+      " dog ",
+      "",
+    ]);
+
+    expect(params).toEqual({
+      minScore: 0.6,
+      maxDetections: 5,
+      labels: ["person", "car", "dog"],
+    });
+  });
+});
+
+describe("applyDetectionParams", () => {
+  const detections = [
+    detection("car", 0.4),
+    detection("Person", 0.9),
+    detection("dog", 0.2),
+    detection("person", 0.7),
+  ];
+
+  it("filters by score and label, best first", () => {
+    expect(
+      applyDetectionParams(detections, {
+        minScore: 0.3,
+        labels: ["person"],
+      })
+    ).toEqual([detection("Person", 0.9), detection("person", 0.7)]);
+  });
+
+  it("keeps the top maxDetections", () => {
+    expect(
+      applyDetectionParams(detections, { minScore: 0, maxDetections: 2 })
+    ).toEqual([detection("Person", 0.9), detection("person", 0.7)]);
+  });
+});
+
+describe("tilingParams", () => {
+  it("is null unless tiling is on", () => {
+    expect(tilingParams({})).toBeNull();
+    expect(tilingParams({ tiling: "false" })).toBeNull();
+  });
+
+  it("fills in the defaults", () => {
+    expect(tilingParams({ tiling: "true", tileSize: "1024" })).toEqual({
+      ...DEFAULT_TILING,
+      tileSize: 1024,
+    });
+  });
+});
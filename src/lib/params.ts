@@ -0,0 +1,90 @@
+import { NmsMetric } from "./boxes";
+import { flagValue } from "./schema";
+import { Detection } from "./types";
+
+export const DEFAULT_MIN_SCORE = 0.3;
+export const MAX_DETECTIONS_LIMIT = 100;
+
+export type DetectionParams = {
+  minScore: number;
+  maxDetections?: number;
+  labels?: string[];
+};
+
+/** The detection fields of a request form, checked by the contract schemas. */
+export type DetectionFieldValues = {
+  minScore?: string;
+  maxDetections?: string;
+  tiling?: string;
+  tileSize?: string;
+  tileOverlap?: string;
+  nmsThreshold?: string;
+  nmsMetric?: NmsMetric;
+};
+
+const numberOr = (value: string | undefined, fallback: number) =>
+  value === undefined ? fallback : Number(value);
+
+/**
+ * Detection settings from a checked request form. The schema only sees the
+ * last `labels` field, so every value is passed in `labels`; each may also
+ * be a comma-separated list.
+ */
+export function detectionParams(
+  fields: DetectionFieldValues,
+  labels: string[]
+): DetectionParams {
+  const allowed = labels
+    .flatMap((value) => value.split(","))
+    .map((label) => label.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    minScore: numberOr(fields.minScore, DEFAULT_MIN_SCORE),
+    maxDetections:
+      fields.maxDetections === undefined
+        ? undefined
+        : Number(fields.maxDetections),
+    labels: allowed.length > 0 ? allowed : undefined,
+  };
+}
+
+export function applyDetectionParams(
+  detections: Detection[],
+  { minScore, maxDetections, labels }: DetectionParams
+): Detection[] {
+  const filtered = detections
+    .filter((d) => d.score >= minScore)
+    .filter((d) => !labels || labels.includes(d.label.toLowerCase()))
+    .sort((a, b) => b.score - a.score);
+
+  return maxDetections ? filtered.slice(0, maxDetections) : filtered;
+}
+
+export type TilingParams = {
+  tileSize: number;
+  /** Fraction of the tile size shared with each neighbouring tile. */
+  overlap: number;
+  nmsThreshold: number;
+  nmsMetric: NmsMetric;
+};
+
+export const DEFAULT_TILING: TilingParams = {
+  tileSize: 640,
+  overlap: 0.2,
+  nmsThreshold: 0.5,
+  nmsMetric: "iou",
+};
+
+/** Tiling settings from a checked request form; `null` unless `tiling` is on. */
+export function tilingParams(
+  fields: DetectionFieldValues
+): TilingParams | null {
+  if (!flagValue(fields.tiling, false)) return null;
+  return {
+    tileSize: numberOr(fields.tileSize, DEFAULT_TILING.tileSize),
+    overlap: numberOr(fields.tileOverlap, DEFAULT_TILING.overlap),
+    nmsThreshold: numberOr(fields.nmsThreshold, DEFAULT_TILING.nmsThreshold),
+    nmsMetric: fields.nmsMetric ?? DEFAULT_TILING.nmsMetric,
+  };
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProviderError } from "../errors";
+import { createHttpProvider, httpProviderConfigFromEnv } from "./http";
+
+function answering(body: unknown) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => Response.json(body))
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("createHttpProvider", () => {
+  const image = Buffer.from("image");
+
+  it("reads boxes in the configured format", async () => {
+    answering({
+      results: [{ name: "person", confidence: 0.9, bbox: [10, 20, 30, 40] }],
+    });
+    const provider = createHttpProvider({
+      url: "http://detector.test/predict",
+      resultsPath: "results",
+      labelField: "name",
+      scoreField: "confidence",
+      boxField: "bbox",
+      boxFormat: "xywh",
+    });
+    expect(await provider.detect(image)).toEqual([
+      {
+        label: "person",
+        score: 0.9,
+        box: { xmin: 10, ymin: 20, xmax: 40, ymax: 60 },
+      },
+    ]);
+  });
+
+  it.each([
+    ["xyxy", [1, 2, 3]],
+    ["xyxy", { xmin: 1, ymin: 2, xmax: 3, ymax: 4 }],
+    ["object", [1, 2, 3, 4]],
+    ["object", { xmin: 1, ymin: 2, xmax: "3", ymax: 4 }],
+  ] as const)(
+    "rejects a %s box shaped like %j as a bad upstream response",
+    async (boxFormat, box) => {
+      answering([{ label: "person", score: 0.9, box }]);
+      const provider = createHttpProvider({
+        url: "http://detector.test/predict",
+        boxFormat,
+      });
+      const error = await provider.detect(image).catch((e) => e);
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.code).toBe("bad_upstream_response");
+    }
+  );
+});
+
+describe("httpProviderConfigFromEnv", () => {
+  it("refuses an unknown box format", () => {
+    vi.stubEnv("SELF_HOSTED_URL", "http://detector.test/predict");
+    vi.stubEnv("SELF_HOSTED_BOX_FORMAT", "xyhw");
+    expect(() => httpProviderConfigFromEnv()).toThrow(/SELF_HOSTED_BOX_FORMAT/);
+  });
+});
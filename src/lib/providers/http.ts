@@ -0,0 +1,166 @@
+import { DetectionSchema } from "../contract";
+import { ProviderError } from "../errors";
+import { array, parse } from "../schema";
+import { BBox } from "../types";
+import { createResilientFetch } from "./resilient";
+import { DetectionProvider } from "./types";
+
+/**
+ * How a self-hosted server lays out its boxes:
+ * - "object": `{ xmin, ymin, xmax, ymax }` (same as Hugging Face)
+ * - "xyxy": `[xmin, ymin, xmax, ymax]`
+ * - "xywh": `[x, y, width, height]`
+ */
+export const BOX_FORMATS = ["object", "xyxy", "xywh"] as const;
+
+export type BoxFormat = (typeof BOX_FORMATS)[number];
+
+export type HttpProviderConfig = {
+  url: string;
+  apiKey?: string;
+  contentType?: string;
+  /** Dot path to the detections array in the response, empty for the root. */
+  resultsPath?: string;
+  labelField?: string;
+  scoreField?: string;
+  boxField?: string;
+  boxFormat?: BoxFormat;
+};
+
+function getPath(value: unknown, path: string): unknown {
+  if (!path) return value;
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current && typeof current === "object") {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, value);
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/** The box in `raw`, or `null` when it doesn't have the shape of `format`. */
+function toBox(raw: unknown, format: BoxFormat): BBox | null {
+  if (format === "object") {
+    if (!raw || typeof raw !== "object") return null;
+    const { xmin, ymin, xmax, ymax } = raw as Record<string, unknown>;
+    if (![xmin, ymin, xmax, ymax].every(isNumber)) return null;
+    return { xmin, ymin, xmax, ymax } as BBox;
+  }
+
+  if (!Array.isArray(raw) || raw.length !== 4 || !raw.every(isNumber)) {
+    return null;
+  }
+  const [a, b, c, d] = raw;
+  if (format === "xywh") {
+    return { xmin: a, ymin: b, xmax: a + c, ymax: b + d };
+  }
+  return { xmin: a, ymin: b, xmax: c, ymax: d };
+}
+
+/**
+ * The self-hosted provider's settings, `null` without `SELF_HOSTED_URL`.
+ *
+ * @throws Error when `SELF_HOSTED_BOX_FORMAT` is not a `BoxFormat`, so a typo
+ *   stops the server instead of misreading every box
+ */
+export function httpProviderConfigFromEnv(): HttpProviderConfig | null {
+  const url = process.env.SELF_HOSTED_URL;
+  if (!url) return null;
+
+  const boxFormat = process.env.SELF_HOSTED_BOX_FORMAT || undefined;
+  if (boxFormat && !BOX_FORMATS.includes(boxFormat as BoxFormat)) {
+    throw new Error(
+      `SELF_HOSTED_BOX_FORMAT must be one of ${BOX_FORMATS.join(
+        ", "
+      )}, got "${boxFormat}"`
+    );
+  }
+
+  return {
+    url,
+    apiKey: process.env.SELF_HOSTED_API_KEY,
+    resultsPath: process.env.SELF_HOSTED_RESULTS_PATH,
+    labelField: process.env.SELF_HOSTED_LABEL_FIELD,
+    scoreField: process.env.SELF_HOSTED_SCORE_FIELD,
+    boxField: process.env.SELF_HOSTED_BOX_FIELD,
+    boxFormat: boxFormat as BoxFormat | undefined,
+  };
+}
+
+export function createHttpProvider(
+  config: HttpProviderConfig
+): DetectionProvider {
+  const {
+    url,
+    apiKey,
+    contentType = "image/jpeg",
+    resultsPath = "",
+    labelField = "label",
+    scoreField = "score",
+    boxField = "box",
+    boxFormat = "object",
+  } = config;
+  const resilientFetch = createResilientFetch("Self-hosted provider");
+
+  return {
+    id: "self-hosted",
+    name: "Self-hosted HTTP",
+    defaultModel: "self-hosted/default",
+    async detect(image, options = {}) {
+      const headers: Record<string, string> = { "Content-Type": contentType };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const data = await resilientFetch(url, {
+        headers,
+        method: "POST",
+        body: new Uint8Array(image),
+        signal: options.signal,
+      });
+
+      const results = getPath(data, resultsPath);
+      if (!Array.isArray(results)) {
+        throw new ProviderError(
+          "Self-hosted provider returned an unexpected response",
+          "bad_upstream_response",
+          200,
+          `Expected an array at "${resultsPath || "<root>"}"`
+        );
+      }
+
+      const boxes = results.map((result) =>
+        toBox(getPath(result, boxField), boxFormat)
+      );
+      const malformed = boxes.findIndex((box) => box === null);
+      if (malformed !== -1) {
+        throw new ProviderError(
+          "Self-hosted provider returned an unexpected response",
+          "bad_upstream_response",
+          200,
+          `Box ${malformed} is not in the "${boxFormat}" format`
+        );
+      }
+
+      const detections = parse(
+        array(DetectionSchema),
+        results.map((result, index) => ({
+          label: String(getPath(result, labelField)),
+          score: Number(getPath(result, scoreField)),
+          box: boxes[index],
+        }))
+      );
+      if ("error" in detections) {
+        throw new ProviderError(
+          "Self-hosted provider returned an unexpected response",
+          "bad_upstream_response",
+          200,
+          detections.error
+        );
+      }
+      return detections.value;
+    },
+  };
+}
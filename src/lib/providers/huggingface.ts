@@ -0,0 +1,55 @@
+import { DetectionSchema } from "../contract";
+import { ProviderError } from "../errors";
+import { DEFAULT_MODEL } from "../models";
+import { array, parse } from "../schema";
+import { createResilientFetch } from "./resilient";
+import { DetectionProvider } from "./types";
+
+const HF_ROUTER_URL = "https://router.huggingface.co/hf-inference/models";
+
+export function createHuggingFaceProvider(
+  defaultModel: string = process.env.HF_MODEL || DEFAULT_MODEL
+): DetectionProvider {
+  const resilientFetch = createResilientFetch("Hugging Face");
+
+  return {
+    id: "huggingface",
+    name: "Hugging Face Inference",
+    defaultModel,
+    async detect(image, options = {}) {
+      const apiKey = process.env.HF_API_KEY;
+      if (!apiKey) {
+        throw new ProviderError(
+          "Hugging Face is not configured; set HF_API_KEY",
+          "upstream_misconfigured"
+        );
+      }
+      const model = options.model || defaultModel;
+      const data = await resilientFetch(`${HF_ROUTER_URL}/${model}`, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "image/jpeg",
+        },
+        method: "POST",
+        body: new Uint8Array(image),
+        signal: options.signal,
+      });
+
+      const results = parse(array(DetectionSchema), data);
+      if ("error" in results) {
+        throw new ProviderError(
+          "Hugging Face returned an unexpected response",
+          "bad_upstream_response",
+          200,
+          results.error
+        );
+      }
+
+      return results.value.map((result) => ({
+        label: result.label,
+        score: result.score,
+        box: result.box,
+      }));
+    },
+  };
+}
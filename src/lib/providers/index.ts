@@ -0,0 +1,40 @@
+import { UnknownProviderError } from "../errors";
+import { createHttpProvider, httpProviderConfigFromEnv } from "./http";
+import { createHuggingFaceProvider } from "./huggingface";
+import { createMockProvider } from "./mock";
+import { DetectionProvider } from "./types";
+
+export type { DetectionProvider, DetectOptions } from "./types";
+
+const DEFAULT_PROVIDER = "huggingface";
+
+const registry = new Map<string, DetectionProvider>();
+
+export function registerProvider(provider: DetectionProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function listProviders(): DetectionProvider[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Looks up a provider by id, falling back to `DETECTION_PROVIDER` and then
+ * to Hugging Face when no id is requested.
+ */
+export function getProvider(id?: string | null): DetectionProvider {
+  const providerId = id || process.env.DETECTION_PROVIDER || DEFAULT_PROVIDER;
+  const provider = registry.get(providerId);
+  if (!provider) {
+    throw new UnknownProviderError(providerId);
+  }
+  return provider;
+}
+
+registerProvider(createHuggingFaceProvider());
+registerProvider(createMockProvider());
+
+const httpConfig = httpProviderConfigFromEnv();
+if (httpConfig) {
+  registerProvider(createHttpProvider(httpConfig));
+}
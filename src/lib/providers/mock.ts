@@ -0,0 +1,33 @@
+import sharp from "sharp";
+import { Detection } from "../types";
+import { DetectionProvider } from "./types";
+import fixtures from "./fixtures/mock-detections.json";
+
+/**
+ * Offline provider that returns the same fixture detections for every image.
+ * Fixture boxes are stored as fractions of the image size and scaled to the
+ * dimensions of the image it is given, so the canvas overlay lines up.
+ */
+export function createMockProvider(
+  detections: Detection[] = fixtures
+): DetectionProvider {
+  return {
+    id: "mock",
+    name: "Mock (fixtures)",
+    defaultModel: "mock/fixtures",
+    async detect(image) {
+      const { width = 1, height = 1 } = await sharp(image).metadata();
+
+      return detections.map((detection) => ({
+        label: detection.label,
+        score: detection.score,
+        box: {
+          xmin: detection.box.xmin * width,
+          ymin: detection.box.ymin * height,
+          xmax: detection.box.xmax * width,
+          ymax: detection.box.ymax * height,
+        },
+      }));
+    },
+  };
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderError } from "../errors";
+import {
+  CircuitBreaker,
+  ResilienceConfig,
+  createResilientFetch,
+} from "./resilient";
+
+const config: ResilienceConfig = {
+  attemptTimeoutMs: 1000,
+  maxRetries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 10000,
+  failureThreshold: 2,
+  cooldownMs: 5000,
+};
+
+/** Stubs `fetch` to answer with `responses` in turn, then the last one. */
+function answering(...responses: (() => Response)[]) {
+  const fetch = vi.fn(async () => {
+    const next = responses.length > 1 ? responses.shift()! : responses[0];
+    return next();
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+const ok = () => Response.json({ ok: true });
+const status =
+  (code: number, body = "", headers?: Record<string, string>) =>
+  () =>
+    new Response(body, { status: code, headers });
+
+/** The rejection of `promise`, which must fail, once its backoffs ran. */
+async function failure(promise: Promise<unknown>): Promise<ProviderError> {
+  const rejection = promise.then(
+    () => expect.fail("expected a rejection"),
+    (error) => error
+  );
+  await vi.runAllTimersAsync();
+  const error = await rejection;
+  expect(error).toBeInstanceOf(ProviderError);
+  return error;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("createResilientFetch", () => {
+  it("retries server errors", async () => {
+    const fetch = answering(status(500), status(502), ok);
+    const resilientFetch = createResilientFetch("Upstream", {
+      ...config,
+      failureThreshold: 10,
+    });
+
+    const result = resilientFetch("http://upstream.test", {});
+    await vi.runAllTimersAsync();
+    expect(await result).toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for Retry-After before retrying a 429", async () => {
+    const fetch = answering(status(429, "", { "Retry-After": "2" }), ok);
+    const resilientFetch = createResilientFetch("Upstream", config);
+
+    const result = resilientFetch("http://upstream.test", {});
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetch = answering(status(400));
+    const resilientFetch = createResilientFetch("Upstream", config);
+
+    const error = await failure(resilientFetch("http://upstream.test", {}));
+    expect(error.code).toBe("upstream_rejected");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const fetch = answering(status(503));
+    const resilientFetch = createResilientFetch("Upstream", {
+      ...config,
+      failureThreshold: 10,
+    });
+
+    const error = await failure(resilientFetch("http://upstream.test", {}));
+    expect(error.code).toBe("upstream_unavailable");
+    expect(fetch).toHaveBeenCalledTimes(config.maxRetries + 1);
+  });
+
+  it("keeps upstream bodies and network errors out of the message", async () => {
+    answering(status(500, "Traceback: secret internals"));
+    const resilientFetch = createResilientFetch("Upstream", {
+      ...config,
+      maxRetries: 0,
+    });
+
+    const error = await failure(resilientFetch("http://upstream.test", {}));
+    expect(error.message).toBe("Upstream is unavailable");
+    expect(error.details).toBe("Traceback: secret internals");
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("connect ECONNREFUSED 10.0.0.7:8080");
+      })
+    );
+    const unreachable = await failure(
+      resilientFetch("http://upstream.test", {})
+    );
+    expect(unreachable.message).toBe("Upstream is unreachable");
+    expect(unreachable.details).toContain("ECONNREFUSED");
+  });
+
+  it("fails fast once the circuit opens", async () => {
+    const fetch = answering(status(503));
+    const resilientFetch = createResilientFetch("Upstream", config);
+
+    // Two outages: the first attempt and its retry open the circuit.
+    const error = await failure(resilientFetch("http://upstream.test", {}));
+    expect(error.code).toBe("circuit_open");
+    expect(fetch).toHaveBeenCalledTimes(config.failureThreshold);
+    expect(error.retryAfterMs).toBe(config.cooldownMs);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const outage = () =>
+    Promise.reject(new ProviderError("down", "upstream_unavailable"));
+
+  async function openBreaker() {
+    const breaker = new CircuitBreaker("Upstream", 2, 5000);
+    await breaker.run(outage).catch(() => undefined);
+    await breaker.run(outage).catch(() => undefined);
+    return breaker;
+  }
+
+  it("opens after failureThreshold consecutive outages", async () => {
+    const breaker = await openBreaker();
+    const fn = vi.fn(async () => "ok");
+
+    const error = await failure(breaker.run(fn));
+    expect(error.code).toBe("circuit_open");
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("does not count failures that aren't outages", async () => {
+    const breaker = new CircuitBreaker("Upstream", 2, 5000);
+    const rejected = () =>
+      Promise.reject(new ProviderError("no", "upstream_rejected"));
+    await breaker.run(rejected).catch(() => undefined);
+    await breaker.run(rejected).catch(() => undefined);
+
+    expect(await breaker.run(async () => "ok")).toBe("ok");
+  });
+
+  it("lets one probe through after the cooldown and closes on success", async () => {
+    const breaker = await openBreaker();
+    vi.advanceTimersByTime(5000);
+
+    let finishProbe: (value: string) => void = () => {};
+    const probe = vi.fn(
+      () => new Promise<string>((resolve) => (finishProbe = resolve))
+    );
+    const follower = vi.fn(async () => "follower");
+
+    const probing = breaker.run(probe);
+    const waiting = breaker.run(follower);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(follower).not.toHaveBeenCalled();
+
+    finishProbe("probe");
+    expect(await probing).toBe("probe");
+    expect(await waiting).toBe("follower");
+  });
+
+  it("re-opens when the probe fails", async () => {
+    const breaker = await openBreaker();
+    vi.advanceTimersByTime(5000);
+
+    await breaker.run(outage).catch(() => undefined);
+    const error = await failure(breaker.run(async () => "ok"));
+    expect(error.code).toBe("circuit_open");
+  });
+});
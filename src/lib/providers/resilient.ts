@@ -0,0 +1,319 @@
+import { ProviderError } from "../errors";
+
+export type ResilienceConfig = {
+  /** Timeout for a single upstream attempt. */
+  attemptTimeoutMs: number;
+  /** Attempts after the first one, for retryable failures. */
+  maxRetries: number;
+  /** Backoff before retry n is a random delay up to `baseDelayMs * 2^n`. */
+  baseDelayMs: number;
+  /** Cap on any wait between attempts, including upstream hints. */
+  maxDelayMs: number;
+  /** Consecutive outages that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before letting a probe through. */
+  cooldownMs: number;
+};
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+export function resilienceConfigFromEnv(): ResilienceConfig {
+  return {
+    attemptTimeoutMs: envNumber("PROVIDER_TIMEOUT_MS", 15000),
+    maxRetries: envNumber("PROVIDER_MAX_RETRIES", 2),
+    baseDelayMs: envNumber("PROVIDER_RETRY_BASE_MS", 500),
+    maxDelayMs: envNumber("PROVIDER_RETRY_MAX_MS", 20000),
+    failureThreshold: envNumber("PROVIDER_CIRCUIT_THRESHOLD", 5),
+    cooldownMs: envNumber("PROVIDER_CIRCUIT_COOLDOWN_MS", 30000),
+  };
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+/** Failures that say the upstream is down, as opposed to busy or picky. */
+const isOutage = (error: unknown) =>
+  error instanceof ProviderError &&
+  (error.code === "upstream_timeout" || error.code === "upstream_unavailable");
+
+/**
+ * Fails fast while an upstream is down. After `failureThreshold` consecutive
+ * outages the circuit opens and calls are rejected with `circuit_open` for
+ * `cooldownMs`. The first call after that is a half-open probe: concurrent
+ * callers wait on the same cached probe instead of all hitting the upstream,
+ * then either go through (probe succeeded) or fail fast (circuit re-opened).
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probe: Promise<void> | null = null;
+
+  constructor(
+    private readonly providerName: string,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.state === "open") {
+      const remaining = this.openedAt + this.cooldownMs - Date.now();
+      if (remaining > 0) {
+        throw new ProviderError(
+          `${this.providerName} is temporarily unavailable`,
+          "circuit_open",
+          undefined,
+          undefined,
+          remaining
+        );
+      }
+      this.state = "half-open";
+    }
+
+    if (this.state === "half-open") {
+      if (this.probe) {
+        await this.probe;
+        return this.run(fn);
+      }
+      let settle = () => {};
+      this.probe = new Promise<void>((resolve) => (settle = resolve));
+      try {
+        return await this.record(fn);
+      } finally {
+        this.probe = null;
+        settle();
+      }
+    }
+
+    return this.record(fn);
+  }
+
+  private async record<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      const result = await fn();
+      this.state = "closed";
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      // Anything else (aborts, rejected images) leaves a half-open circuit
+      // half-open, so the next call probes again.
+      if (isOutage(error)) {
+        this.failures++;
+        if (
+          this.state === "half-open" ||
+          this.failures >= this.failureThreshold
+        ) {
+          this.state = "open";
+          this.openedAt = Date.now();
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+/** `Retry-After` as delay-seconds or an HTTP date, in milliseconds. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Hugging Face answers 503 with `{ error: "... is currently loading",
+ * estimated_time: <seconds> }` while a cold model spins up.
+ *
+ * @returns Whether the body is a model-loading response, and its estimate
+ */
+function modelLoading(body: string): { estimatedMs?: number } | null {
+  try {
+    const data = JSON.parse(body);
+    if (typeof data?.estimated_time === "number") {
+      return { estimatedMs: data.estimated_time * 1000 };
+    }
+    if (typeof data?.error === "string" && /loading/i.test(data.error)) {
+      return {};
+    }
+  } catch {
+    // Not JSON, so not a model-loading response.
+  }
+  return null;
+}
+
+/** Maps a non-2xx upstream response to a sanitized `ProviderError`. */
+function upstreamError(
+  providerName: string,
+  response: Response,
+  body: string
+): ProviderError {
+  const { status } = response;
+  const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+  const loading = status === 503 ? modelLoading(body) : null;
+
+  if (loading) {
+    return new ProviderError(
+      `${providerName} is still loading the model`,
+      "model_loading",
+      status,
+      body,
+      loading.estimatedMs ?? retryAfterMs
+    );
+  }
+  if (status === 429) {
+    return new ProviderError(
+      `${providerName} is rate limiting requests`,
+      "rate_limited",
+      status,
+      body,
+      retryAfterMs
+    );
+  }
+  if (status === 408 || status === 504) {
+    return new ProviderError(
+      `${providerName} timed out`,
+      "upstream_timeout",
+      status,
+      body,
+      retryAfterMs
+    );
+  }
+  if (status >= 500) {
+    return new ProviderError(
+      `${providerName} is unavailable`,
+      "upstream_unavailable",
+      status,
+      body,
+      retryAfterMs
+    );
+  }
+  if (status === 401 || status === 403 || status === 404) {
+    return new ProviderError(
+      `${providerName} rejected the request; check the provider credentials and model`,
+      "upstream_misconfigured",
+      status,
+      body
+    );
+  }
+  return new ProviderError(
+    `${providerName} could not process this image`,
+    "upstream_rejected",
+    status,
+    body
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Builds a JSON `fetch` for one provider with per-attempt timeouts, retries
+ * and a circuit breaker. Retryable failures are retried after the upstream's
+ * `Retry-After` or model-loading estimate when given, otherwise after an
+ * exponential backoff with full jitter. Aborting `init.signal` stops at once
+ * and rethrows the `AbortError` untouched.
+ *
+ * @throws {ProviderError} With a sanitized message once retries run out
+ */
+export function createResilientFetch(
+  providerName: string,
+  config: ResilienceConfig = resilienceConfigFromEnv()
+) {
+  const breaker = new CircuitBreaker(
+    providerName,
+    config.failureThreshold,
+    config.cooldownMs
+  );
+
+  const attempt = async (url: string, init: RequestInit): Promise<unknown> => {
+    const signal = init.signal;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      config.attemptTimeoutMs
+    );
+    const abort = () => controller.abort();
+    signal?.addEventListener("abort", abort);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+      });
+      const body = await response.text();
+      if (!response.ok) throw upstreamError(providerName, response, body);
+
+      try {
+        return JSON.parse(body);
+      } catch {
+        throw new ProviderError(
+          `${providerName} returned an unexpected response`,
+          "bad_upstream_response",
+          response.status,
+          body
+        );
+      }
+    } catch (error) {
+      if (error instanceof ProviderError || signal?.aborted) throw error;
+      if (controller.signal.aborted) {
+        throw new ProviderError(
+          `${providerName} did not respond within ${
+            config.attemptTimeoutMs / 1000
+          } seconds`,
+          "upstream_timeout"
+        );
+      }
+      throw new ProviderError(
+        `${providerName} is unreachable`,
+        "upstream_unavailable",
+        undefined,
+        (error as Error).message
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", abort);
+    }
+  };
+
+  return async function resilientFetch(
+    url: string,
+    init: RequestInit
+  ): Promise<unknown> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await breaker.run(() => attempt(url, init));
+      } catch (error) {
+        if (
+          !(error instanceof ProviderError) ||
+          !error.retryable ||
+          error.code === "circuit_open" ||
+          retry >= config.maxRetries
+        ) {
+          throw error;
+        }
+        const backoff = Math.random() * config.baseDelayMs * 2 ** retry;
+        await sleep(
+          Math.min(config.maxDelayMs, error.retryAfterMs ?? backoff),
+          init.signal
+        );
+      }
+    }
+  };
+}
@@ -0,0 +1,14 @@
+import { Detection } from "../types";
+
+export type DetectOptions = {
+  signal?: AbortSignal;
+  model?: string;
+};
+
+export interface DetectionProvider {
+  id: string;
+  name: string;
+  /** Model used when a request names none. */
+  defaultModel?: string;
+  detect(image: Buffer, options?: DetectOptions): Promise<Detection[]>;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { TokenBucketLimiter, rateLimitHeaders } from "./rate-limit";
+
+describe("TokenBucketLimiter", () => {
+  it("allows a burst of `limit` requests, then refuses", () => {
+    const limiter = new TokenBucketLimiter();
+    const results = [0, 1, 2].map(() => limiter.take("client", 2, 60, 0));
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([1, 0, 0]);
+    // 2 per minute refill one token every 30 seconds.
+    expect(results[2].retryAfterSeconds).toBe(30);
+    expect(results[2].resetSeconds).toBe(60);
+  });
+
+  it("refills at `limit` per window", () => {
+    const limiter = new TokenBucketLimiter();
+    limiter.take("client", 2, 60, 0);
+    limiter.take("client", 2, 60, 0);
+
+    expect(limiter.take("client", 2, 60, 29_000).allowed).toBe(false);
+    expect(limiter.take("client", 2, 60, 30_000)).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    // Never beyond `limit`, however long the client was idle.
+    expect(limiter.take("client", 2, 60, 3_600_000).remaining).toBe(1);
+  });
+
+  it("keeps a bucket per client", () => {
+    const limiter = new TokenBucketLimiter();
+    limiter.take("a", 1, 60, 0);
+
+    expect(limiter.take("a", 1, 60, 0).allowed).toBe(false);
+    expect(limiter.take("b", 1, 60, 0).allowed).toBe(true);
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  it("reports the limit, what is left and when the bucket is full", () => {
+    const limiter = new TokenBucketLimiter();
+    limiter.take("client", 10, 60, 0);
+    const result = limiter.take("client", 10, 60, 0);
+
+    expect(rateLimitHeaders(result)).toEqual({
+      "RateLimit-Limit": "10",
+      "RateLimit-Remaining": "8",
+      "RateLimit-Reset": "12",
+      "RateLimit-Policy": "10;w=60",
+    });
+  });
+});
@@ -0,0 +1,81 @@
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  /** Whole requests left right now. */
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the next request is allowed; 0 when allowed. */
+  retryAfterSeconds: number;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+  limit: number;
+  perSecond: number;
+};
+
+const refill = (bucket: Bucket, now: number) =>
+  Math.min(
+    bucket.limit,
+    bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.perSecond
+  );
+
+// Full buckets carry no state worth keeping, so they are dropped past this.
+const MAX_BUCKETS = 10000;
+
+/**
+ * In-memory token buckets, one per client id. A bucket holds up to `limit`
+ * tokens and refills at `limit` per `windowSeconds`, so clients may burst up
+ * to `limit` requests and then sustain `limit` per window.
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  take(
+    id: string,
+    limit: number,
+    windowSeconds: number = 60,
+    now: number = Date.now()
+  ): RateLimitResult {
+    const perSecond = limit / windowSeconds;
+    const bucket = this.buckets.get(id);
+    const tokens = bucket ? Math.min(limit, refill(bucket, now)) : limit;
+
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+    this.buckets.delete(id);
+    this.buckets.set(id, { tokens: left, updatedAt: now, limit, perSecond });
+    if (this.buckets.size > MAX_BUCKETS) this.prune(now);
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(left),
+      resetSeconds: Math.ceil((limit - left) / perSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - left) / perSecond),
+    };
+  }
+
+  private prune(now: number) {
+    // Oldest first, since `take` re-inserts every bucket it touches.
+    for (const [id, bucket] of this.buckets) {
+      if (this.buckets.size <= MAX_BUCKETS) break;
+      if (refill(bucket, now) >= bucket.limit) this.buckets.delete(id);
+    }
+  }
+}
+
+/** IETF `RateLimit-*` response headers for a limiter result. */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  windowSeconds: number = 60
+): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    "RateLimit-Policy": `${result.limit};w=${windowSeconds}`,
+  };
+}
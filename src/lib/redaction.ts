@@ -0,0 +1,40 @@
+import { BBox, ImageSize } from "./types";
+
+export const REDACTION_METHODS = ["blur", "pixelate", "fill"] as const;
+
+export type RedactionMethod = (typeof REDACTION_METHODS)[number];
+
+/** Fraction of a box's size added on every side; faces and plates bleed out. */
+export const DEFAULT_REDACTION_PADDING = 0.1;
+
+export const MAX_REDACTION_PADDING = 1;
+
+export const DEFAULT_REDACTION_COLOR = "#000000";
+
+/** A pixel rectangle as sharp's `extract` and `composite` take it. */
+export type PixelRegion = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * The pixels to redact for `box`: grown by `padding` times its width and
+ * height on every side, rounded outwards and clipped to the image. `null`
+ * when nothing of it is inside the image.
+ */
+export function redactionRegion(
+  box: BBox,
+  image: ImageSize,
+  padding: number
+): PixelRegion | null {
+  const padX = (box.xmax - box.xmin) * padding;
+  const padY = (box.ymax - box.ymin) * padding;
+  const left = Math.max(0, Math.floor(box.xmin - padX));
+  const top = Math.max(0, Math.floor(box.ymin - padY));
+  const right = Math.min(image.width, Math.ceil(box.xmax + padX));
+  const bottom = Math.min(image.height, Math.ceil(box.ymax + padY));
+  if (right <= left || bottom <= top) return null;
+  return { left, top, width: right - left, height: bottom - top };
+}
@@ -0,0 +1,13 @@
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Correlation id for a request: the caller's `X-Request-Id` when it looks
+ * sane (so ids from a proxy or client carry through), otherwise a new one.
+ */
+export function resolveRequestId(incoming: string | null): string {
+  return incoming && VALID_REQUEST_ID.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
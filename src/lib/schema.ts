@@ -0,0 +1,312 @@
+/**
+ * Tiny schema builder: every schema validates untrusted values at runtime,
+ * describes itself as JSON Schema for the OpenAPI document, and carries its
+ * TypeScript type for `Infer`, so the three can't drift apart.
+ */
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type Issue = { path: string; message: string };
+
+export type Schema<T> = {
+  json: JsonSchema;
+  /** Problems with `value`, located relative to `path`; empty when valid. */
+  check(value: unknown, path: string): Issue[];
+  /** Type-level only, never set. */
+  readonly type?: T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalSchema<T> = Schema<T | undefined> & { optional: true };
+
+type Shape = { [key: string]: Schema<unknown> };
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+export type ObjectSchema<S extends Shape> = Schema<ObjectOf<S>> & {
+  shape: S;
+};
+
+const fail = (path: string, message: string): Issue[] => [{ path, message }];
+
+const at = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+type NumberOptions = { min?: number; max?: number; integer?: boolean };
+
+function checkNumber(
+  value: number,
+  path: string,
+  { min, max, integer }: NumberOptions
+): Issue[] {
+  if (!Number.isFinite(value)) return fail(path, "must be a number");
+  if (integer && !Number.isInteger(value)) {
+    return fail(path, "must be an integer");
+  }
+  if (min !== undefined && value < min) return fail(path, `must be >= ${min}`);
+  if (max !== undefined && value > max) return fail(path, `must be <= ${max}`);
+  return [];
+}
+
+function numberJson({ min, max, integer }: NumberOptions): JsonSchema {
+  return {
+    type: integer ? "integer" : "number",
+    ...(min !== undefined ? { minimum: min } : {}),
+    ...(max !== undefined ? { maximum: max } : {}),
+  };
+}
+
+export function string(
+  options: { maxLength?: number; pattern?: RegExp } = {}
+): Schema<string> {
+  const { maxLength, pattern } = options;
+  return {
+    json: {
+      type: "string",
+      ...(maxLength !== undefined ? { maxLength } : {}),
+      ...(pattern ? { pattern: pattern.source } : {}),
+    },
+    check(value, path) {
+      if (typeof value !== "string") return fail(path, "must be a string");
+      if (maxLength !== undefined && value.length > maxLength) {
+        return fail(path, `must be at most ${maxLength} characters`);
+      }
+      if (pattern && !pattern.test(value)) {
+        return fail(path, `must match ${pattern.source}`);
+      }
+      return [];
+    },
+  };
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    json: numberJson(options),
+    check(value, path) {
+      if (typeof value !== "number") return fail(path, "must be a number");
+      return checkNumber(value, path, options);
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    json: { type: "boolean" },
+    check: (value, path) =>
+      typeof value === "boolean" ? [] : fail(path, "must be a boolean"),
+  };
+}
+
+export function literal<const V extends string | boolean>(value: V): Schema<V> {
+  return {
+    json: { const: value },
+    check: (actual, path) =>
+      actual === value ? [] : fail(path, `must be ${JSON.stringify(value)}`),
+  };
+}
+
+export function enumOf<const V extends string>(
+  values: readonly V[]
+): Schema<V> {
+  return {
+    json: { type: "string", enum: values },
+    check: (value, path) =>
+      values.includes(value as V)
+        ? []
+        : fail(path, `must be one of ${values.join(", ")}`),
+  };
+}
+
+export function array<T>(
+  item: Schema<T>,
+  { maxItems }: { maxItems?: number } = {}
+): Schema<T[]> {
+  return {
+    json: {
+      type: "array",
+      items: item.json,
+      ...(maxItems !== undefined ? { maxItems } : {}),
+    },
+    check(value, path) {
+      if (!Array.isArray(value)) return fail(path, "must be an array");
+      if (maxItems !== undefined && value.length > maxItems) {
+        return fail(path, `must have at most ${maxItems} items`);
+      }
+      return value.flatMap((v, i) => item.check(v, at(path, i)));
+    },
+  };
+}
+
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    json: { type: "object", additionalProperties: value.json },
+    check(actual, path) {
+      if (!actual || typeof actual !== "object" || Array.isArray(actual)) {
+        return fail(path, "must be an object");
+      }
+      return Object.entries(actual).flatMap(([k, v]) =>
+        value.check(v, at(path, k))
+      );
+    },
+  };
+}
+
+/**
+ * Unknown keys are allowed, so additive changes on either side of the
+ * contract don't break validation.
+ */
+export function object<S extends Shape>(shape: S): ObjectSchema<S> {
+  const required = Object.keys(shape).filter(
+    (key) => !("optional" in shape[key])
+  );
+  return {
+    shape,
+    json: {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, s]) => [key, s.json])
+      ),
+      ...(required.length > 0 ? { required } : {}),
+    },
+    check(value, path) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return fail(path, "must be an object");
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(shape).flatMap(([key, s]) =>
+        record[key] === undefined
+          ? "optional" in s
+            ? []
+            : fail(at(path, key), "is required")
+          : s.check(record[key], at(path, key))
+      );
+    },
+  };
+}
+
+/** An object schema with `extra` keys added or replaced. */
+export function extend<S extends Shape, E extends Shape>(
+  base: ObjectSchema<S>,
+  extra: E
+): ObjectSchema<Omit<S, keyof E> & E> {
+  return object({ ...base.shape, ...extra } as Omit<S, keyof E> & E);
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    json: schema.json,
+    optional: true,
+    check: (value, path) =>
+      value === undefined ? [] : schema.check(value, path),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    json: { anyOf: [schema.json, { type: "null" }] },
+    check: (value, path) => (value === null ? [] : schema.check(value, path)),
+  };
+}
+
+/** Matches any of `options`; otherwise reports the closest option's issues. */
+export function union<const O extends Schema<unknown>[]>(
+  ...options: O
+): Schema<Infer<O[number]>> {
+  return {
+    json: { oneOf: options.map((option) => option.json) },
+    check(value, path) {
+      let closest: Issue[] | null = null;
+      for (const option of options) {
+        const issues = option.check(value, path);
+        if (issues.length === 0) return [];
+        if (!closest || issues.length < closest.length) closest = issues;
+      }
+      return closest ?? fail(path, "matches no option");
+    },
+  };
+}
+
+export function describe<S extends Schema<unknown>>(
+  schema: S,
+  description: string
+): S {
+  return { ...schema, json: { ...schema.json, description } };
+}
+
+// Multipart form fields arrive as strings and files.
+
+/** An uploaded file. */
+export function file(): Schema<Blob> {
+  return {
+    json: { type: "string", format: "binary" },
+    check: (value, path) =>
+      value instanceof Blob ? [] : fail(path, "must be a file"),
+  };
+}
+
+/** A form field holding a number. */
+export function numeric(options: NumberOptions = {}): Schema<string> {
+  return {
+    json: numberJson(options),
+    check(value, path) {
+      if (typeof value !== "string") return fail(path, "must be a number");
+      return checkNumber(Number(value), path, options);
+    },
+  };
+}
+
+const FLAG_ON = ["true", "1", "on"];
+const FLAG_OFF = ["false", "0", "off"];
+
+/** A form field holding a boolean, read with `flagValue`. */
+export function flag(): Schema<string> {
+  return {
+    json: { type: "boolean" },
+    check: (value, path) =>
+      [...FLAG_ON, ...FLAG_OFF].includes(value as string)
+        ? []
+        : fail(path, "must be true or false"),
+  };
+}
+
+export function flagValue(value: unknown, fallback: boolean): boolean {
+  if (FLAG_ON.includes(value as string)) return true;
+  if (FLAG_OFF.includes(value as string)) return false;
+  return fallback;
+}
+
+/** Form fields as an object, for validating with an object schema. */
+export function formFields(formData: FormData): Record<string, unknown> {
+  return Object.fromEntries(
+    Array.from(formData.entries()).filter(([, value]) => value !== "")
+  );
+}
+
+/**
+ * Validates `value` against `schema`. Like the other parsers in this repo,
+ * returns an error message (plus the individual issues) instead of throwing.
+ */
+export function parse<T>(
+  schema: Schema<T>,
+  value: unknown
+): { value: T } | { error: string; issues: Issue[] } {
+  const issues = schema.check(value, "");
+  if (issues.length === 0) return { value: value as T };
+  return {
+    error: issues
+      .map(({ path, message }) => (path ? `${path} ${message}` : message))
+      .join("; "),
+    issues,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareDetections,
+  computeClassStats,
+  exportClassStats,
+} from "./stats";
+import { Detection } from "./types";
+
+const detection = (
+  label: string,
+  score: number,
+  xmin: number,
+  ymin: number,
+  size: number
+): Detection => ({
+  label,
+  score,
+  box: { xmin, ymin, xmax: xmin + size, ymax: ymin + size },
+});
+
+const detections = [
+  detection("dog", 0.5, 0, 50, 20),
+  detection("cat", 0.9, 50, 0, 10),
+  detection("dog", 0.7, 10, 0, 40),
+];
+
+describe("compareDetections", () => {
+  const order = (key: Parameters<typeof compareDetections>[0]) =>
+    [...detections].sort(compareDetections(key)).map((d) => d.score);
+
+  it("sorts by score, area or reading order", () => {
+    expect(order("score")).toEqual([0.9, 0.7, 0.5]);
+    expect(order("area")).toEqual([0.7, 0.5, 0.9]);
+    expect(order("position")).toEqual([0.7, 0.9, 0.5]);
+  });
+});
+
+describe("computeClassStats", () => {
+  it("summarizes each label, most frequent first", () => {
+    expect(computeClassStats(detections, 100, 100)).toEqual([
+      {
+        label: "dog",
+        count: 2,
+        meanScore: 0.6,
+        totalArea: 2000,
+        areaFraction: 0.2,
+      },
+      {
+        label: "cat",
+        count: 1,
+        meanScore: 0.9,
+        totalArea: 100,
+        areaFraction: 0.01,
+      },
+    ]);
+  });
+
+  it("only counts box area inside the image", () => {
+    const [stats] = computeClassStats(
+      [detection("car", 0.9, 90, 90, 20)],
+      100,
+      100
+    );
+
+    expect(stats.totalArea).toBe(100);
+  });
+});
+
+describe("exportClassStats", () => {
+  it("writes a CSV summary", () => {
+    const file = exportClassStats(
+      computeClassStats(detections, 100, 100),
+      "csv"
+    );
+
+    expect(file.filename).toBe("detections.summary.csv");
+    expect(file.body).toBe(
+      [
+        "label,count,mean_score,total_area,area_fraction",
+        "dog,2,0.6000,2000,0.200000",
+        "cat,1,0.9000,100,0.010000",
+      ].join("\n")
+    );
+  });
+});
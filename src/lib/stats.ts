@@ -0,0 +1,102 @@
+import { boxArea, clampBox } from "./boxes";
+import { ExportFile, csvCell } from "./exporters";
+import { BBox, Detection } from "./types";
+
+export type SortKey = "score" | "area" | "position";
+
+export const SORT_KEYS: { id: SortKey; name: string }[] = [
+  { id: "score", name: "Score" },
+  { id: "area", name: "Area" },
+  { id: "position", name: "Position" },
+];
+
+export type ClassStats = {
+  label: string;
+  count: number;
+  meanScore: number;
+  /** Sum of box areas in pixels; overlapping boxes count twice. */
+  totalArea: number;
+  /** `totalArea` as a fraction of the image area. */
+  areaFraction: number;
+};
+
+/**
+ * Compares detections for sorting: highest score or largest area first, or
+ * reading order (top to bottom, then left to right) for position.
+ */
+export function compareDetections(key: SortKey) {
+  return (a: { score: number; box: BBox }, b: { score: number; box: BBox }) => {
+    switch (key) {
+      case "score":
+        return b.score - a.score;
+      case "area":
+        return boxArea(b.box) - boxArea(a.box);
+      case "position":
+        return a.box.ymin - b.box.ymin || a.box.xmin - b.box.xmin;
+    }
+  };
+}
+
+/** Per-label statistics, most frequent label first. */
+export function computeClassStats(
+  detections: Detection[],
+  width: number,
+  height: number
+): ClassStats[] {
+  const byLabel = new Map<string, Detection[]>();
+  for (const detection of detections) {
+    byLabel.set(detection.label, [
+      ...(byLabel.get(detection.label) || []),
+      detection,
+    ]);
+  }
+
+  const imageArea = width * height;
+  return Array.from(byLabel, ([label, group]) => {
+    const totalArea = group.reduce(
+      (sum, d) => sum + boxArea(clampBox(d.box, width, height)),
+      0
+    );
+    return {
+      label,
+      count: group.length,
+      meanScore: group.reduce((sum, d) => sum + d.score, 0) / group.length,
+      totalArea,
+      areaFraction: imageArea > 0 ? totalArea / imageArea : 0,
+    };
+  }).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+export function exportClassStats(
+  stats: ClassStats[],
+  format: "csv" | "json",
+  name = "detections"
+): ExportFile {
+  if (format === "json") {
+    return {
+      filename: `${name}.summary.json`,
+      contentType: "application/json",
+      body: JSON.stringify(stats, null, 2),
+    };
+  }
+
+  const header = [
+    "label",
+    "count",
+    "mean_score",
+    "total_area",
+    "area_fraction",
+  ];
+  const rows = stats.map((s) => [
+    s.label,
+    s.count,
+    s.meanScore.toFixed(4),
+    Math.round(s.totalArea),
+    s.areaFraction.toFixed(6),
+  ]);
+  return {
+    filename: `${name}.summary.csv`,
+    contentType: "text/csv",
+    body: [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n"),
+  };
+}
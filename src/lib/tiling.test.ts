@@ -0,0 +1,83 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TILING } from "./params";
+import { DetectionProvider } from "./providers";
+import { computeTiles, detectTiled } from "./tiling";
+import { BBox, Detection } from "./types";
+
+const SIZE = { width: 1000, height: 500 };
+
+/** Answers each tile call in turn, boxes given in tile coordinates. */
+function scriptedProvider(perCall: Detection[][]): DetectionProvider {
+  let call = 0;
+  return {
+    id: "scripted",
+    name: "Scripted",
+    detect: async () => perCall[call++] ?? [],
+  };
+}
+
+const car = (score: number, xmin: number, xmax: number): Detection => ({
+  label: "car",
+  score,
+  box: { xmin, ymin: 100, xmax, ymax: 200 },
+});
+
+const boxes = (detections: Detection[]): BBox[] => detections.map((d) => d.box);
+
+describe("detectTiled", async () => {
+  const image = await sharp({
+    create: { ...SIZE, channels: 3, background: "#808080" },
+  })
+    .png()
+    .toBuffer();
+  const params = { ...DEFAULT_TILING, tileSize: 500, overlap: 0.2 };
+
+  it("covers the image with overlapping tiles", () => {
+    expect(computeTiles(SIZE, 500, 0.2).map((tile) => tile.left)).toEqual([
+      0, 400, 500,
+    ]);
+  });
+
+  it("merges an object seen whole by two overlapping tiles", async () => {
+    // x 420-480: in the tiles starting at 0 and 400, not the one at 500.
+    const provider = scriptedProvider([
+      [car(0.9, 420, 480)],
+      [car(0.8, 20, 80)],
+    ]);
+    const merged = await detectTiled(provider, image, SIZE, params, {
+      concurrency: 1,
+    });
+    expect(merged).toEqual([car(0.9, 420, 480)]);
+  });
+
+  it("merges the fragments of an object cut at a tile border with ios", async () => {
+    // x 450-600: cut off at 500 by the first tile, cut at 500 by the last.
+    const perCall = [
+      [car(0.7, 450, 500)],
+      [car(0.9, 50, 200)],
+      [car(0.6, 0, 100)],
+    ];
+    const withIou = await detectTiled(
+      scriptedProvider(perCall),
+      image,
+      SIZE,
+      params,
+      { concurrency: 1 }
+    );
+    // The sliver left of the border overlaps too little to count as one.
+    expect(boxes(withIou)).toEqual([
+      car(0.9, 450, 600).box,
+      car(0.7, 450, 500).box,
+    ]);
+
+    const withIos = await detectTiled(
+      scriptedProvider(perCall),
+      image,
+      SIZE,
+      { ...params, nmsMetric: "ios" },
+      { concurrency: 1 }
+    );
+    expect(boxes(withIos)).toEqual([car(0.9, 450, 600).box]);
+  });
+});
@@ -0,0 +1,105 @@
+import sharp from "sharp";
+import { clampBox, nonMaxSuppression, translateBox } from "./boxes";
+import { mapWithConcurrency } from "./concurrency";
+import { TilingParams } from "./params";
+import { DetectionProvider, DetectOptions } from "./providers";
+import { Detection, ImageSize } from "./types";
+
+export const TILE_CONCURRENCY = Number(process.env.TILE_CONCURRENCY) || 4;
+
+export type Tile = { left: number; top: number; width: number; height: number };
+
+function tileStarts(length: number, tileSize: number, stride: number) {
+  if (length <= tileSize) return [0];
+
+  const starts: number[] = [];
+  for (let start = 0; start + tileSize < length; start += stride) {
+    starts.push(start);
+  }
+  // The last tile is aligned to the far edge so nothing is left uncovered.
+  starts.push(length - tileSize);
+  return starts;
+}
+
+export function computeTiles(
+  { width, height }: ImageSize,
+  tileSize: number,
+  overlap: number
+): Tile[] {
+  const stride = Math.max(1, Math.round(tileSize * (1 - overlap)));
+  const tiles: Tile[] = [];
+
+  for (const top of tileStarts(height, tileSize, stride)) {
+    for (const left of tileStarts(width, tileSize, stride)) {
+      tiles.push({
+        left,
+        top,
+        width: Math.min(tileSize, width),
+        height: Math.min(tileSize, height),
+      });
+    }
+  }
+
+  return tiles;
+}
+
+export type TiledDetectOptions = DetectOptions & {
+  concurrency?: number;
+  /** Called as each tile finishes, with its boxes in `image` coordinates. */
+  onTile?: (completed: number, total: number, detections: Detection[]) => void;
+};
+
+/**
+ * Runs `provider` over overlapping tiles of `image` and merges the results.
+ * Boxes are returned in the coordinates of `image`; duplicates from
+ * overlapping tiles are merged with class-aware NMS.
+ */
+export async function detectTiled(
+  provider: DetectionProvider,
+  image: Buffer,
+  size: ImageSize,
+  { tileSize, overlap, nmsThreshold, nmsMetric }: TilingParams,
+  {
+    concurrency = TILE_CONCURRENCY,
+    onTile,
+    ...options
+  }: TiledDetectOptions = {}
+): Promise<Detection[]> {
+  const tiles = computeTiles(size, tileSize, overlap);
+  let completed = 0;
+
+  const perTile = await mapWithConcurrency(tiles, concurrency, async (tile) => {
+    const tileBuffer = await sharp(image)
+      .extract(tile)
+      .flatten({ background: { r: 255, g: 255, b: 255 } })
+      .jpeg({ quality: 90 })
+      .toBuffer();
+
+    const detections = (await provider.detect(tileBuffer, options)).map(
+      (d) => ({
+        ...d,
+        box: clampBox(
+          translateBox(
+            clampBox(d.box, tile.width, tile.height),
+            tile.left,
+            tile.top
+          ),
+          size.width,
+          size.height
+        ),
+      })
+    );
+    onTile?.(++completed, tiles.length, detections);
+    return detections;
+  });
+
+  return nonMaxSuppression(perTile.flat(), {
+    iouThreshold: nmsThreshold,
+    classAware: true,
+    metric: nmsMetric,
+  });
+}
+
+export function countTiles(size: ImageSize, params: TilingParams) {
+  return computeTiles(size, params.tileSize, params.overlap).length;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { TimelineFrame, TimelineVideo, exportTimeline } from "./timeline";
+
+const video: TimelineVideo = {
+  filename: "street.mp4",
+  width: 640,
+  height: 360,
+  sampleRate: 2,
+};
+
+const frames: TimelineFrame[] = [
+  {
+    frame: 0,
+    time: 0,
+    detections: [
+      {
+        label: "car",
+        score: 0.91234,
+        box: { xmin: 10.126, ymin: 20, xmax: 110, ymax: 70 },
+        trackId: 1,
+      },
+    ],
+  },
+  { frame: 1, time: 0.5, detections: [] },
+  {
+    frame: 2,
+    time: 1.0004,
+    detections: [
+      {
+        label: "car, red",
+        score: 0.8,
+        box: { xmin: 20, ymin: 20, xmax: 120, ymax: 70 },
+      },
+    ],
+  },
+];
+
+describe("exportTimeline", () => {
+  it("writes one CSV row per detection", () => {
+    const file = exportTimeline(video, frames, "csv");
+
+    expect(file.filename).toBe("video.timeline.csv");
+    expect(file.body).toBe(
+      [
+        "frame,time,track_id,label,score,xmin,ymin,xmax,ymax",
+        "0,0,1,car,0.9123,10.13,20,110,70",
+        '2,1,,"car, red",0.8,20,20,120,70',
+      ].join("\n")
+    );
+  });
+
+  it("keeps empty frames and track lifetimes in JSON", () => {
+    const tracks = [
+      {
+        id: 1,
+        label: "car",
+        state: "ended" as const,
+        firstSeen: 0,
+        lastSeen: 1,
+        hits: 2,
+      },
+    ];
+    const file = exportTimeline(video, frames, "json", "street", tracks);
+
+    expect(file.filename).toBe("street.timeline.json");
+    expect(JSON.parse(file.body as string)).toEqual({ video, frames, tracks });
+  });
+});
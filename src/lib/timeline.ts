@@ -0,0 +1,70 @@
+import { ExportFile, csvCell } from "./exporters";
+import { TrackSummary } from "./tracker";
+import { Detection, ImageSize } from "./types";
+
+/** Detections for one sampled video frame. */
+export type TimelineFrame = {
+  frame: number;
+  /** Position in the video, in seconds. */
+  time: number;
+  /** Detections carry a `trackId` when tracking was enabled. */
+  detections: (Detection & { trackId?: number })[];
+};
+
+export type TimelineVideo = ImageSize & {
+  filename: string;
+  /** Frames sampled per second. */
+  sampleRate: number;
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+/**
+ * Renders a video run as JSON (one entry per frame, including empty ones,
+ * plus track lifetimes) or CSV (one row per detection).
+ */
+export function exportTimeline(
+  video: TimelineVideo,
+  frames: TimelineFrame[],
+  format: "json" | "csv",
+  name = "video",
+  tracks: TrackSummary[] = []
+): ExportFile {
+  if (format === "json") {
+    return {
+      filename: `${name}.timeline.json`,
+      contentType: "application/json",
+      body: JSON.stringify({ video, frames, tracks }, null, 2),
+    };
+  }
+
+  const header = [
+    "frame",
+    "time",
+    "track_id",
+    "label",
+    "score",
+    "xmin",
+    "ymin",
+    "xmax",
+    "ymax",
+  ];
+  const rows = frames.flatMap(({ frame, time, detections }) =>
+    detections.map(({ trackId, label, score, box }) => [
+      frame,
+      round(time, 3),
+      trackId ?? "",
+      label,
+      round(score, 4),
+      round(box.xmin),
+      round(box.ymin),
+      round(box.xmax),
+      round(box.ymax),
+    ])
+  );
+  return {
+    filename: `${name}.timeline.csv`,
+    contentType: "text/csv",
+    body: [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n"),
+  };
+}
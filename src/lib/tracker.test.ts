@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { Tracker, uniqueCounts } from "./tracker";
+import { Detection } from "./types";
+
+/** A 100px square `label` box starting at `x`. */
+const at = (x: number, label = "car"): Detection => ({
+  label,
+  score: 0.9,
+  box: { xmin: x, ymin: 0, xmax: x + 100, ymax: 100 },
+});
+
+describe("Tracker", () => {
+  it("keeps the id of an overlapping box and confirms it after minHits", () => {
+    const tracker = new Tracker({ minHits: 2 });
+
+    const [first] = tracker.update([at(0)], 0);
+    expect(tracker.summaries()).toEqual([]);
+    const [second] = tracker.update([at(10)], 0.1);
+
+    expect(second.trackId).toBe(first.trackId);
+    expect(tracker.summaries()).toEqual([
+      {
+        id: first.trackId,
+        label: "car",
+        state: "confirmed",
+        firstSeen: 0,
+        lastSeen: 0.1,
+        hits: 2,
+      },
+    ]);
+  });
+
+  it("only matches detections of the same label", () => {
+    const tracker = new Tracker();
+    const [car] = tracker.update([at(0)], 0);
+    const [truck] = tracker.update([at(0, "truck")], 0.1);
+
+    expect(truck.trackId).not.toBe(car.trackId);
+  });
+
+  it("matches the best overlaps first", () => {
+    const tracker = new Tracker();
+    const [left, right] = tracker.update([at(0), at(150)], 0);
+    const next = tracker.update([at(140), at(5)], 0.1);
+
+    expect(next.map((d) => d.trackId)).toEqual([right.trackId, left.trackId]);
+  });
+
+  it("predicts where a missed object moved at constant velocity", () => {
+    const tracker = new Tracker();
+    const [first] = tracker.update([at(0)], 0);
+    // 40px in one second, smoothed to 20px/s.
+    tracker.update([at(40)], 1);
+    tracker.update([], 2);
+    expect(tracker.summaries()[0].state).toBe("lost");
+
+    // Predicted at 80 by t=3, close enough to 120; the last box at 40 isn't.
+    const [reacquired] = tracker.update([at(120)], 3);
+    expect(reacquired.trackId).toBe(first.trackId);
+    expect(tracker.summaries()[0].state).toBe("confirmed");
+  });
+
+  it("ends tracks unmatched for longer than maxAge", () => {
+    const tracker = new Tracker({ maxAge: 2 });
+    const [first] = tracker.update([at(0)], 0);
+    tracker.update([at(0)], 1);
+
+    tracker.update([], 3);
+    expect(tracker.summaries()[0].state).toBe("lost");
+    tracker.update([], 3.5);
+    expect(tracker.summaries()[0].state).toBe("ended");
+    expect(tracker.trails().has(first.trackId)).toBe(false);
+
+    const [later] = tracker.update([at(0)], 4);
+    expect(later.trackId).not.toBe(first.trackId);
+  });
+
+  it("drops tentative tracks that never got confirmed", () => {
+    const tracker = new Tracker({ minHits: 2, maxAge: 1 });
+    tracker.update([at(0)], 0);
+    tracker.update([], 2);
+
+    expect(tracker.summaries()).toEqual([]);
+    expect(tracker.trails().size).toBe(0);
+  });
+
+  it("keeps the last trailLength centers", () => {
+    const tracker = new Tracker({ trailLength: 2 });
+    const [first] = tracker.update([at(0)], 0);
+    tracker.update([at(10)], 1);
+    tracker.update([at(20)], 2);
+
+    expect(tracker.trails().get(first.trackId)).toEqual([
+      [60, 50],
+      [70, 50],
+    ]);
+  });
+});
+
+describe("uniqueCounts", () => {
+  it("counts tracks per label", () => {
+    const tracker = new Tracker({ minHits: 1 });
+    tracker.update([at(0), at(200), at(400, "person")], 0);
+
+    expect(uniqueCounts(tracker.summaries())).toEqual({ car: 2, person: 1 });
+  });
+});
@@ -0,0 +1,192 @@
+import { boxCenter, iou, translateBox } from "./boxes";
+import { BBox, Detection, Point } from "./types";
+
+export type TrackedDetection = Detection & { trackId: number };
+
+/** A box center in image pixels. */
+export type TrailPoint = Point;
+
+export type TrackState = "tentative" | "confirmed" | "lost" | "ended";
+
+export type TrackSummary = {
+  id: number;
+  label: string;
+  state: TrackState;
+  /** Video time, in seconds, of the first and latest matched detection. */
+  firstSeen: number;
+  lastSeen: number;
+  /** Number of frames the track was matched in. */
+  hits: number;
+};
+
+export type TrackerOptions = {
+  /** Minimum IoU between a predicted track box and a detection to match. */
+  iouThreshold?: number;
+  /** Matches needed before a track is confirmed and counted. */
+  minHits?: number;
+  /** Seconds a track may go unmatched before it ends. */
+  maxAge?: number;
+  /** Centers kept per track for drawing trails. */
+  trailLength?: number;
+};
+
+type Track = TrackSummary & {
+  box: BBox;
+  /** Box center velocity in pixels per second. */
+  vx: number;
+  vy: number;
+  trail: TrailPoint[];
+};
+
+// Velocity is smoothed so a single jittery box doesn't throw off prediction.
+const VELOCITY_SMOOTHING = 0.5;
+
+/**
+ * IoU tracker with constant-velocity prediction. Each `update` call takes one
+ * frame's detections and assigns them persistent track ids: tracks are moved
+ * to where their velocity predicts, then greedily matched to same-label
+ * detections by descending IoU. Unmatched tracks are kept as `lost` for
+ * `maxAge` seconds so objects that are briefly missed or occluded keep their
+ * id when they are re-acquired.
+ */
+export class Tracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private readonly iouThreshold: number;
+  private readonly minHits: number;
+  private readonly maxAge: number;
+  private readonly trailLength: number;
+
+  constructor({
+    iouThreshold = 0.3,
+    minHits = 2,
+    maxAge = 2,
+    trailLength = 20,
+  }: TrackerOptions = {}) {
+    this.iouThreshold = iouThreshold;
+    this.minHits = minHits;
+    this.maxAge = maxAge;
+    this.trailLength = trailLength;
+  }
+
+  /**
+   * Associates `detections` observed at `time` (seconds) with tracks.
+   *
+   * @returns The detections with their track ids, in input order
+   */
+  update(detections: Detection[], time: number): TrackedDetection[] {
+    const active = this.tracks.filter((t) => t.state !== "ended");
+    const predicted = active.map((t) => {
+      const dt = time - t.lastSeen;
+      return translateBox(t.box, t.vx * dt, t.vy * dt);
+    });
+
+    const pairs: { track: number; detection: number; overlap: number }[] = [];
+    active.forEach((track, ti) => {
+      detections.forEach((detection, di) => {
+        if (detection.label !== track.label) return;
+        const overlap = iou(predicted[ti], detection.box);
+        if (overlap >= this.iouThreshold) {
+          pairs.push({ track: ti, detection: di, overlap });
+        }
+      });
+    });
+    pairs.sort((a, b) => b.overlap - a.overlap);
+
+    const trackIds: number[] = new Array(detections.length);
+    const matchedTracks = new Set<number>();
+    for (const pair of pairs) {
+      if (matchedTracks.has(pair.track) || trackIds[pair.detection]) continue;
+      matchedTracks.add(pair.track);
+      const track = active[pair.track];
+      this.match(track, detections[pair.detection].box, time);
+      trackIds[pair.detection] = track.id;
+    }
+
+    active.forEach((track, ti) => {
+      if (matchedTracks.has(ti)) return;
+      if (time - track.lastSeen > this.maxAge) {
+        track.state = "ended";
+      } else if (track.state === "confirmed") {
+        track.state = "lost";
+      }
+    });
+
+    // Tentative tracks that never got confirmed are noise; drop them.
+    this.tracks = this.tracks.filter(
+      (t) => !(t.state === "ended" && t.hits < this.minHits)
+    );
+
+    detections.forEach((detection, di) => {
+      if (trackIds[di]) return;
+      const track: Track = {
+        id: this.nextId++,
+        label: detection.label,
+        state: this.minHits <= 1 ? "confirmed" : "tentative",
+        firstSeen: time,
+        lastSeen: time,
+        hits: 1,
+        box: detection.box,
+        vx: 0,
+        vy: 0,
+        trail: [boxCenter(detection.box)],
+      };
+      this.tracks.push(track);
+      trackIds[di] = track.id;
+    });
+
+    return detections.map((detection, di) => ({
+      ...detection,
+      trackId: trackIds[di],
+    }));
+  }
+
+  private match(track: Track, box: BBox, time: number) {
+    const dt = time - track.lastSeen;
+    if (dt > 0) {
+      const [px, py] = boxCenter(track.box);
+      const [cx, cy] = boxCenter(box);
+      track.vx =
+        VELOCITY_SMOOTHING * ((cx - px) / dt) +
+        (1 - VELOCITY_SMOOTHING) * track.vx;
+      track.vy =
+        VELOCITY_SMOOTHING * ((cy - py) / dt) +
+        (1 - VELOCITY_SMOOTHING) * track.vy;
+    }
+
+    track.box = box;
+    track.lastSeen = time;
+    track.hits++;
+    if (track.hits >= this.minHits) track.state = "confirmed";
+    track.trail = [...track.trail, boxCenter(box)].slice(-this.trailLength);
+  }
+
+  /** Lifetimes of every confirmed track so far, including ended ones. */
+  summaries(): TrackSummary[] {
+    return this.tracks
+      .filter((t) => t.hits >= this.minHits)
+      .map(({ id, label, state, firstSeen, lastSeen, hits }) => ({
+        id,
+        label,
+        state,
+        firstSeen,
+        lastSeen,
+        hits,
+      }));
+  }
+
+  /** Recent centers of tracks that are still active, keyed by track id. */
+  trails(): Map<number, TrailPoint[]> {
+    return new Map(
+      this.tracks.filter((t) => t.state !== "ended").map((t) => [t.id, t.trail])
+    );
+  }
+}
+
+/** Number of distinct objects per label, from `Tracker.summaries()`. */
+export function uniqueCounts(tracks: TrackSummary[]): Record<string, number> {
+  return tracks.reduce<Record<string, number>>(
+    (counts, t) => ({ ...counts, [t.label]: (counts[t.label] || 0) + 1 }),
+    {}
+  );
+}
@@ -1,2 +1,7 @@
-export type BBox = { xmin: number; ymin: number; xmax: number; ymax: number };
-export type Detection = { score: number; label: string; box: BBox };
+import { BBoxSchema, DetectionSchema } from "./contract";
+import { Infer } from "./schema";
+
+export type BBox = Infer<typeof BBoxSchema>;
+export type Detection = Infer<typeof DetectionSchema>;
+export type ImageSize = { width: number; height: number };
+export type Point = [number, number];
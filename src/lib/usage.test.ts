@@ -0,0 +1,116 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { RateLimitError } from "./errors";
+
+let dataDir: string;
+// Loaded once `DATA_DIR` points at a scratch directory.
+let usage: typeof import("./usage");
+let errors: typeof import("./errors");
+
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "resario-usage-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.resetModules();
+  usage = await import("./usage");
+  errors = await import("./errors");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+/** The rejection of `promise`, which must be a quota error. */
+async function quotaError(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => expect.fail("expected a quota error"),
+    (error) => error
+  );
+  expect(error).toBeInstanceOf(errors.RateLimitError);
+  expect(error.code).toBe("quota_exceeded");
+  return error as RateLimitError;
+}
+
+describe("consumeQuota", () => {
+  it("counts requests against the day and the month", async () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    await usage.consumeQuota("counting", {}, 1, now);
+    const counted = await usage.consumeQuota("counting", {}, 3, now);
+
+    expect(counted).toMatchObject({
+      day: "2026-03-10",
+      dayCount: 4,
+      month: "2026-03",
+      monthCount: 4,
+      total: 4,
+    });
+  });
+
+  it("refuses what doesn't fit and counts nothing then", async () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    await usage.consumeQuota("daily", { daily: 3 }, 2, now);
+
+    const error = await quotaError(
+      usage.consumeQuota("daily", { daily: 3 }, 2, now)
+    );
+    expect(error.message).toBe(
+      "Daily quota of 3 requests has 1 left, 2 needed"
+    );
+    // Twelve hours until midnight UTC.
+    expect(error.retryAfterSeconds).toBe(12 * 60 * 60);
+    expect(
+      await usage.consumeQuota("daily", { daily: 3 }, 1, now)
+    ).toMatchObject({ dayCount: 3 });
+  });
+
+  it("starts a new day at midnight UTC but keeps the month", async () => {
+    const quota = { daily: 1, monthly: 10 };
+    await usage.consumeQuota(
+      "rollover",
+      quota,
+      1,
+      new Date("2026-03-10T23:59:59Z")
+    );
+
+    const next = await usage.consumeQuota(
+      "rollover",
+      quota,
+      1,
+      new Date("2026-03-11T00:00:00Z")
+    );
+    expect(next).toMatchObject({ dayCount: 1, monthCount: 2, total: 2 });
+  });
+
+  it("starts a new month on the first", async () => {
+    const quota = { monthly: 2 };
+    const end = new Date("2026-03-31T23:00:00Z");
+    await usage.consumeQuota("monthly", quota, 2, end);
+
+    const error = await quotaError(
+      usage.consumeQuota("monthly", quota, 1, end)
+    );
+    expect(error.message).toBe("Monthly quota of 2 requests used up");
+    expect(error.retryAfterSeconds).toBe(60 * 60);
+
+    const april = await usage.consumeQuota(
+      "monthly",
+      quota,
+      1,
+      new Date("2026-04-01T00:00:00Z")
+    );
+    expect(april).toMatchObject({ month: "2026-04", monthCount: 1, total: 3 });
+  });
+
+  it("reads counters from an earlier period as zero", async () => {
+    await usage.consumeQuota("stale", {}, 5, new Date("2026-01-15T00:00:00Z"));
+
+    const listed = await usage.listUsage(new Date("2026-02-01T00:00:00Z"));
+    expect(listed.find((u) => u.subject === "stale")).toMatchObject({
+      dayCount: 0,
+      monthCount: 0,
+      total: 5,
+    });
+  });
+});
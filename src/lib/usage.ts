@@ -0,0 +1,134 @@
+import { JsonTable, withLock } from "./db";
+import { RateLimitError } from "./errors";
+
+interface StoredUsage {
+  /** The client: `key:<api key id>` or `anonymous`. */
+  id: string;
+  /** UTC day the `day_count` belongs to, `YYYY-MM-DD`. */
+  day: string;
+  day_count: number;
+  /** UTC month the `month_count` belongs to, `YYYY-MM`. */
+  month: string;
+  month_count: number;
+  total: number;
+  last_used_at: string;
+}
+
+export type Usage = {
+  subject: string;
+  day: string;
+  dayCount: number;
+  month: string;
+  monthCount: number;
+  total: number;
+  lastUsedAt: string;
+};
+
+/** Limits for one client; `null` or missing means unlimited. */
+export type Quota = { daily?: number | null; monthly?: number | null };
+
+const usage = new JsonTable<StoredUsage>("usage");
+
+function toUsage(row: StoredUsage, now: Date): Usage {
+  // Counters from an earlier day or month read as zero.
+  const { day, month } = periods(now);
+  return {
+    subject: row.id,
+    day,
+    dayCount: row.day === day ? row.day_count : 0,
+    month,
+    monthCount: row.month === month ? row.month_count : 0,
+    total: row.total,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+function periods(now: Date) {
+  const iso = now.toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+}
+
+function secondsUntil(date: Date, now: Date) {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+/** Why `cost` more requests don't fit in `limit`, or `null` if they do. */
+function quotaShortfall(
+  period: string,
+  limit: number | null | undefined,
+  used: number,
+  cost: number
+) {
+  if (!limit || used + cost <= limit) return null;
+  return used >= limit
+    ? `${period} quota of ${limit} requests used up`
+    : `${period} quota of ${limit} requests has ${
+        limit - used
+      } left, ${cost} needed`;
+}
+
+/**
+ * Counts `cost` requests (one per image for a job) against `subject`'s daily
+ * and monthly quotas.
+ *
+ * @throws RateLimitError (`quota_exceeded`) when they don't fit in either
+ *   quota; nothing is counted then
+ */
+export function consumeQuota(
+  subject: string,
+  quota: Quota,
+  cost: number = 1,
+  now: Date = new Date()
+): Promise<Usage> {
+  return withLock("usage-quota", async () => {
+    const row = await usage.find(subject);
+    const current = row
+      ? toUsage(row, now)
+      : { ...periods(now), dayCount: 0, monthCount: 0, total: 0 };
+
+    const daily = quotaShortfall("Daily", quota.daily, current.dayCount, cost);
+    if (daily) {
+      const tomorrow = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      );
+      throw new RateLimitError(
+        daily,
+        "quota_exceeded",
+        secondsUntil(tomorrow, now)
+      );
+    }
+    const monthly = quotaShortfall(
+      "Monthly",
+      quota.monthly,
+      current.monthCount,
+      cost
+    );
+    if (monthly) {
+      const nextMonth = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+      );
+      throw new RateLimitError(
+        monthly,
+        "quota_exceeded",
+        secondsUntil(nextMonth, now)
+      );
+    }
+
+    const next: StoredUsage = {
+      id: subject,
+      day: current.day,
+      day_count: current.dayCount + cost,
+      month: current.month,
+      month_count: current.monthCount + cost,
+      total: current.total + cost,
+      last_used_at: now.toISOString(),
+    };
+    await usage.upsert(next);
+    return toUsage(next, now);
+  });
+}
+
+/** Usage of every client that made at least one request. */
+export async function listUsage(now: Date = new Date()): Promise<Usage[]> {
+  return (await usage.all()).map((row) => toUsage(row, now));
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+
+export const DEFAULT_USER_ID = "local";
+
+/**
+ * Authentication is handled outside this app, so the caller's identity comes
+ * from the `x-user-id` header set by the upstream proxy. Local development
+ * without a proxy shares a single "local" user.
+ */
+export function getUserId(request: NextRequest): string {
+  return request.headers.get("x-user-id") || DEFAULT_USER_ID;
+}
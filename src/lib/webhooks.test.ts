@@ -0,0 +1,77 @@
+import { createHmac } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Job } from "@/types/detection";
+import {
+  SIGNATURE_HEADER,
+  deliverWebhook,
+  webhookRetryDelayMs,
+  webhookSignature,
+} from "./webhooks";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("webhookSignature", () => {
+  it("signs the timestamp and body", () => {
+    expect(webhookSignature('{"ok":true}', "whsec_test", 1773144000)).toBe(
+      "t=1773144000,v1=bb69d465c265f2f8bd6720b56d1e602489e1442583a7d048da5f8a877d85cf23"
+    );
+  });
+});
+
+describe("webhookRetryDelayMs", () => {
+  it("doubles from 30 seconds up to an hour", () => {
+    expect([1, 2, 3, 8, 20].map(webhookRetryDelayMs)).toEqual([
+      30_000, 60_000, 120_000, 3_600_000, 3_600_000,
+    ]);
+  });
+});
+
+describe("deliverWebhook", () => {
+  const event = { event: "job.completed" as const, job: { id: "job" } as Job };
+
+  it("sends a signature receivers can verify", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-10T12:00:00Z") });
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetch);
+
+    await deliverWebhook("http://93.184.216.34/hook", "whsec_test", event);
+
+    const [, init] = fetch.mock.calls[0] as unknown as [URL, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const [t, v1] = headers[SIGNATURE_HEADER].split(",");
+    expect(t).toBe("t=1773144000");
+    expect(v1).toBe(
+      `v1=${createHmac("sha256", "whsec_test")
+        .update(`1773144000.${init.body}`)
+        .digest("hex")}`
+    );
+    expect(JSON.parse(init.body as string)).toEqual(event);
+  });
+
+  it("fails on non-2xx answers and redirects", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status: 500 }))
+    );
+    await expect(
+      deliverWebhook("http://93.184.216.34/hook", null, event)
+    ).rejects.toThrow("Receiver answered HTTP 500");
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(null, {
+            status: 302,
+            headers: { location: "http://93.184.216.35/" },
+          })
+      )
+    );
+    await expect(
+      deliverWebhook("http://93.184.216.34/hook", null, event)
+    ).rejects.toThrow("Redirected to http://93.184.216.35/");
+  });
+});
@@ -0,0 +1,76 @@
+import { createHmac } from "crypto";
+import { Job } from "@/types/detection";
+import { fetchPublicUrl } from "./outbound";
+
+export const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || null;
+export const WEBHOOK_TIMEOUT_MS =
+  Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+export const WEBHOOK_MAX_ATTEMPTS =
+  Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+const WEBHOOK_RETRY_BASE_MS = 30000;
+
+export const SIGNATURE_HEADER = "X-Resario-Signature";
+
+export type WebhookEvent = { event: "job.completed"; job: Job };
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers
+ * recompute it over the raw body and reject old timestamps to stop replays.
+ */
+export function webhookSignature(
+  body: string,
+  secret: string,
+  timestamp: number
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Wait before retry `attempt` (1-based): 30s, 1m, 2m, … capped at 1h. */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1), 60 * 60 * 1000);
+}
+
+/**
+ * POSTs `event` to `url` once. Redirects are not followed. Retries resend
+ * the same job, so receivers can skip job ids they already handled.
+ *
+ * @throws Error when the receiver can't be reached or doesn't answer 2xx
+ */
+export async function deliverWebhook(
+  url: string,
+  secret: string | null,
+  event: WebhookEvent
+): Promise<void> {
+  const body = JSON.stringify(event);
+  const signingSecret = secret ?? WEBHOOK_SECRET;
+  const response = await fetchPublicUrl(
+    url,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "resario-webhooks",
+        "X-Resario-Event": event.event,
+        ...(signingSecret
+          ? {
+              [SIGNATURE_HEADER]: webhookSignature(
+                body,
+                signingSecret,
+                Math.floor(Date.now() / 1000)
+              ),
+            }
+          : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    },
+    0
+  );
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new Error(`Receiver answered HTTP ${response.status}`);
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zip";
+
+/** Entries read back through the central directory, as unzip tools do. */
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const entries: { name: string; crc: number; data: string }[] = [];
+  let central = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(central + 28, true);
+    const size = view.getUint32(central + 24, true);
+    const local = view.getUint32(central + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      name: decoder.decode(
+        zip.subarray(central + 46, central + 46 + nameLength)
+      ),
+      crc: view.getUint32(central + 16, true),
+      data: decoder.decode(zip.subarray(dataStart, dataStart + size)),
+    });
+    central += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("stores entries with their CRC-32", () => {
+    const zip = createZip([
+      { name: "hello.txt", data: "hello" },
+      { name: "labels/ünïcode.txt", data: new TextEncoder().encode("1 2 3") },
+    ]);
+
+    expect(readZip(zip)).toEqual([
+      { name: "hello.txt", crc: 0x3610a686, data: "hello" },
+      { name: "labels/ünïcode.txt", crc: expect.any(Number), data: "1 2 3" },
+    ]);
+  });
+
+  it("writes an empty archive as just the end record", () => {
+    const zip = createZip([]);
+
+    expect(zip).toHaveLength(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { JsonTable } from "./db";
+import { DatabaseError, ValidationError } from "./errors";
+import { Zone } from "./zones";
+
+interface StoredZoneSet {
+  /** `<user_id>:<project>` */
+  id: string;
+  user_id: string;
+  project: string;
+  zones: Zone[];
+  updated_at: string;
+}
+
+const zoneSets = new JsonTable<StoredZoneSet>("zone_sets");
+
+function validateProject(project: string) {
+  if (!/^[\w-]{1,64}$/.test(project)) {
+    throw new ValidationError(
+      "Project names may only contain letters, digits, '-' and '_'"
+    );
+  }
+}
+
+/** Zones saved for a user's project; empty when none were saved yet. */
+export async function getZones(
+  userId: string,
+  project: string
+): Promise<Zone[]> {
+  validateProject(project);
+  const row = await zoneSets.find(`${userId}:${project}`);
+  return row?.zones ?? [];
+}
+
+/**
+ * Replaces the zones of a user's project.
+ *
+ * @param zones - Already validated with `parseZones`
+ */
+export async function saveZones(
+  userId: string,
+  project: string,
+  zones: Zone[]
+): Promise<Zone[]> {
+  validateProject(project);
+  try {
+    await zoneSets.upsert({
+      id: `${userId}:${project}`,
+      user_id: userId,
+      project,
+      zones,
+      updated_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    throw new DatabaseError("Failed to save zones", { cause: error });
+  }
+  return zones;
+}
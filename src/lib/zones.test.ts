@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { Detection, Point } from "./types";
+import { LineCrossingCounter, Zone, evaluateZones, parseZones } from "./zones";
+
+const size = { width: 100, height: 100 };
+
+/** A 10px `label` box centered on `[x, y]`. */
+const centeredAt = ([x, y]: Point, label = "car"): Detection => ({
+  label,
+  score: 0.9,
+  box: { xmin: x - 5, ymin: y - 5, xmax: x + 5, ymax: y + 5 },
+});
+
+// An L shape: the top-right quarter is outside.
+const lShape: Zone = {
+  id: "l",
+  name: "L",
+  kind: "polygon",
+  points: [
+    [0, 0],
+    [0.5, 0],
+    [0.5, 0.5],
+    [1, 0.5],
+    [1, 1],
+    [0, 1],
+  ],
+};
+
+// A vertical line through the middle, drawn top to bottom.
+const middle: Zone = {
+  id: "middle",
+  name: "Middle",
+  kind: "line",
+  points: [
+    [0.5, 0],
+    [0.5, 1],
+  ],
+};
+
+describe("evaluateZones", () => {
+  it("counts boxes whose center lies in a polygon", () => {
+    const [result] = evaluateZones(
+      [lShape],
+      [
+        centeredAt([25, 25]),
+        centeredAt([75, 75], "person"),
+        // In the notch of the L.
+        centeredAt([75, 25]),
+      ],
+      size
+    );
+
+    expect(result).toEqual({
+      zoneId: "l",
+      name: "L",
+      kind: "polygon",
+      count: 2,
+      byLabel: { car: 1, person: 1 },
+    });
+  });
+
+  it("counts boxes touching a line", () => {
+    const [result] = evaluateZones(
+      [middle],
+      [centeredAt([52, 50]), centeredAt([20, 50])],
+      size
+    );
+
+    expect(result.count).toBe(1);
+  });
+
+  it("only counts the zone's labels", () => {
+    const [result] = evaluateZones(
+      [{ ...lShape, labels: ["person"] }],
+      [centeredAt([25, 25]), centeredAt([25, 75], "person")],
+      size
+    );
+
+    expect(result.byLabel).toEqual({ person: 1 });
+  });
+});
+
+describe("LineCrossingCounter", () => {
+  const crossing = (trackId: number, trail: Point[], label = "car") => ({
+    detections: [{ ...centeredAt(trail[trail.length - 1], label), trackId }],
+    trails: new Map([[trackId, trail]]),
+  });
+
+  it("counts crossings by direction", () => {
+    const counter = new LineCrossingCounter();
+    const right = crossing(1, [
+      [20, 50],
+      [80, 50],
+    ]);
+    const left = crossing(
+      2,
+      [
+        [80, 40],
+        [20, 40],
+      ],
+      "person"
+    );
+    counter.update([middle], right.detections, right.trails, size);
+    counter.update([middle], left.detections, left.trails, size);
+
+    expect(counter.totals()).toEqual({
+      middle: { forward: 1, backward: 1, byLabel: { car: 1, person: 1 } },
+    });
+  });
+
+  it("counts each track once per line", () => {
+    const counter = new LineCrossingCounter();
+    const there = crossing(1, [
+      [20, 50],
+      [80, 50],
+    ]);
+    const back = crossing(1, [
+      [20, 50],
+      [80, 50],
+      [20, 50],
+    ]);
+    counter.update([middle], there.detections, there.trails, size);
+    counter.update([middle], back.detections, back.trails, size);
+
+    expect(counter.totals().middle).toMatchObject({ forward: 1, backward: 0 });
+  });
+
+  it("ignores tracks that stay on one side", () => {
+    const counter = new LineCrossingCounter();
+    const { detections, trails } = crossing(1, [
+      [10, 50],
+      [40, 50],
+    ]);
+    counter.update([middle], detections, trails, size);
+
+    expect(counter.totals()).toEqual({});
+  });
+});
+
+describe("parseZones", () => {
+  it("rejects a line without exactly two points", () => {
+    expect(parseZones([{ ...middle, points: [[0, 0]] }])).toEqual({
+      error: 'Line "Middle" needs exactly 2 points',
+    });
+  });
+
+  it("rejects points outside the image", () => {
+    expect(
+      parseZones([
+        {
+          ...middle,
+          points: [
+            [0, 0],
+            [1.5, 1],
+          ],
+        },
+      ])
+    ).toEqual({
+      error: 'Zone "Middle" needs points as [x, y] pairs between 0 and 1',
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  boxCenter,
+  boxIntersectsSegment,
+  pointInPolygon,
+  segmentsIntersect,
+  sideOfLine,
+} from "./boxes";
+import { ZoneKindSchema, ZoneResultSchema } from "./contract";
+import { Infer } from "./schema";
+import { Detection, ImageSize, Point } from "./types";
+
+export type ZoneKind = Infer<typeof ZoneKindSchema>;
+
+/**
+ * A region of interest or a counting line. Points are normalized to 0-1 of
+ * the image width and height so one zone set fits every image and video frame
+ * from the same camera.
+ */
+export type Zone = {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  points: Point[];
+  /** Only count these labels; every label when omitted. */
+  labels?: string[];
+};
+
+export type ZoneResult = Infer<typeof ZoneResultSchema>;
+
+/** Zone sets are saved per project; this one is used until another is picked. */
+export const DEFAULT_PROJECT = "default";
+
+export const MAX_ZONES = 50;
+const MAX_POINTS = 100;
+
+function isPoint(value: unknown): value is Point {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((v) => typeof v === "number" && v >= 0 && v <= 1)
+  );
+}
+
+/** Validates untrusted zone definitions, e.g. from a request body. */
+export function parseZones(value: unknown): Zone[] | { error: string } {
+  if (!Array.isArray(value)) return { error: "zones must be an array" };
+  if (value.length > MAX_ZONES) {
+    return { error: `At most ${MAX_ZONES} zones are allowed` };
+  }
+
+  const zones: Zone[] = [];
+  for (const raw of value) {
+    const zone = raw as Partial<Zone>;
+    if (typeof zone?.id !== "string" || typeof zone.name !== "string") {
+      return { error: "Each zone needs a string id and name" };
+    }
+    if (zone.kind !== "polygon" && zone.kind !== "line") {
+      return { error: `Zone "${zone.name}" must be a polygon or a line` };
+    }
+    if (
+      !Array.isArray(zone.points) ||
+      zone.points.length > MAX_POINTS ||
+      !zone.points.every(isPoint)
+    ) {
+      return {
+        error: `Zone "${zone.name}" needs points as [x, y] pairs between 0 and 1`,
+      };
+    }
+    if (
+      zone.kind === "polygon"
+        ? zone.points.length < 3
+        : zone.points.length !== 2
+    ) {
+      return {
+        error:
+          zone.kind === "polygon"
+            ? `Zone "${zone.name}" needs at least 3 points`
+            : `Line "${zone.name}" needs exactly 2 points`,
+      };
+    }
+    if (
+      zone.labels !== undefined &&
+      !(
+        Array.isArray(zone.labels) &&
+        zone.labels.every((l) => typeof l === "string")
+      )
+    ) {
+      return { error: `Zone "${zone.name}" labels must be strings` };
+    }
+    zones.push({
+      id: zone.id,
+      name: zone.name,
+      kind: zone.kind,
+      points: zone.points,
+      ...(zone.labels ? { labels: zone.labels } : {}),
+    });
+  }
+  return zones;
+}
+
+/** A new zone named after how many of its kind already exist. */
+export function createZone(
+  kind: ZoneKind,
+  points: Point[],
+  existing: Zone[]
+): Zone {
+  const number = existing.filter((zone) => zone.kind === kind).length + 1;
+  return {
+    id: crypto.randomUUID(),
+    name: `${kind === "polygon" ? "Zone" : "Line"} ${number}`,
+    kind,
+    points,
+  };
+}
+
+/** Zone points in the pixel space of an image of `size`. */
+export function zonePixels(zone: Zone, size: ImageSize): Point[] {
+  return zone.points.map(([x, y]) => [x * size.width, y * size.height]);
+}
+
+const countsZone = (zone: Zone, label: string) =>
+  !zone.labels || zone.labels.length === 0 || zone.labels.includes(label);
+
+/**
+ * Evaluates every zone against one detection set, with boxes in the pixel
+ * space of `size`.
+ */
+export function evaluateZones(
+  zones: Zone[],
+  detections: Detection[],
+  size: ImageSize
+): ZoneResult[] {
+  return zones.map((zone) => {
+    const points = zonePixels(zone, size);
+    const matches = detections.filter((d) => {
+      if (!countsZone(zone, d.label)) return false;
+      return zone.kind === "polygon"
+        ? pointInPolygon(boxCenter(d.box), points)
+        : boxIntersectsSegment(d.box, points[0], points[1]);
+    });
+
+    const byLabel: Record<string, number> = {};
+    for (const d of matches) byLabel[d.label] = (byLabel[d.label] || 0) + 1;
+    return {
+      zoneId: zone.id,
+      name: zone.name,
+      kind: zone.kind,
+      count: matches.length,
+      byLabel,
+    };
+  });
+}
+
+export type LineCrossings = {
+  /**
+   * Crossings starting on the side where `sideOfLine(p, first, second)` is
+   * positive; `backward` counts the opposite direction.
+   */
+  forward: number;
+  backward: number;
+  byLabel: Record<string, number>;
+};
+
+/**
+ * Counts tracked objects crossing lines across frames. A crossing is the
+ * segment between a track's previous and current box center intersecting the
+ * line; each track counts at most once per line.
+ */
+export class LineCrossingCounter {
+  private counts = new Map<string, LineCrossings>();
+  private counted = new Set<string>();
+
+  /**
+   * @param trails - Recent centers per track id, newest last, in pixels
+   */
+  update(
+    zones: Zone[],
+    detections: (Detection & { trackId?: number })[],
+    trails: Map<number, Point[]>,
+    size: ImageSize
+  ) {
+    for (const zone of zones) {
+      if (zone.kind !== "line") continue;
+      const [a, b] = zonePixels(zone, size);
+
+      for (const d of detections) {
+        if (d.trackId === undefined || !countsZone(zone, d.label)) continue;
+        const key = `${zone.id}:${d.trackId}`;
+        const trail = trails.get(d.trackId);
+        if (this.counted.has(key) || !trail || trail.length < 2) continue;
+
+        const from = trail[trail.length - 2];
+        const to = trail[trail.length - 1];
+        if (!segmentsIntersect(from, to, a, b)) continue;
+
+        this.counted.add(key);
+        const current = this.counts.get(zone.id) ?? {
+          forward: 0,
+          backward: 0,
+          byLabel: {},
+        };
+        const forward = sideOfLine(from, a, b) > 0;
+        this.counts.set(zone.id, {
+          forward: current.forward + (forward ? 1 : 0),
+          backward: current.backward + (forward ? 0 : 1),
+          byLabel: {
+            ...current.byLabel,
+            [d.label]: (current.byLabel[d.label] || 0) + 1,
+          },
+        });
+      }
+    }
+  }
+
+  /** Crossing totals keyed by line zone id. */
+  totals(): Record<string, LineCrossings> {
+    return Object.fromEntries(this.counts);
+  }
+}
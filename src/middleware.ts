@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { REQUEST_ID_HEADER, resolveRequestId } from "@/lib/request-id";
+
+/**
+ * Gives every API request a correlation id. Route handlers read it from the
+ * request headers for their logs, and it is echoed as `X-Request-Id`.
+ */
+export function middleware(request: NextRequest) {
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+export const config = { matcher: "/api/:path*" };
@@ -1,21 +1,55 @@
-export interface DetectionResult {
-  label: string;
-  score: number;
-  box: {
-    xmin: number;
-    ymin: number;
-    xmax: number;
-    ymax: number;
-  };
-}
-
-export interface HuggingFaceResponse {
-  score: number;
-  label: string;
-  box: {
-    xmin: number;
-    ymin: number;
-    xmax: number;
-    ymax: number;
-  };
-}
+import {
+  DetectApiResponseSchema,
+  DetectErrorBodySchema,
+  DetectProgressSchema,
+  DetectResponseSchema,
+  DetectStageSchema,
+  DetectStreamEventSchema,
+  JobApiResponseSchema,
+  JobItemSchema,
+  JobSchema,
+  RedactApiResponseSchema,
+  RedactResponseSchema,
+  RedactedRegionSchema,
+} from "@/lib/contract";
+import { Infer } from "@/lib/schema";
+import { Detection } from "@/lib/types";
+
+// These types are inferred from the runtime schemas in `@/lib/contract`.
+
+/** A detection as returned by the API. Same shape as `Detection`. */
+export type DetectionResult = Detection;
+
+export type DetectResponse = Infer<typeof DetectResponseSchema>;
+
+export type DetectStage = Infer<typeof DetectStageSchema>;
+
+export type DetectProgress = Infer<typeof DetectProgressSchema>;
+
+export type DetectErrorBody = Infer<typeof DetectErrorBodySchema>;
+
+/** Stable machine-readable reason for a failed `/api/detect` call. */
+export type DetectErrorCode = DetectErrorBody["code"];
+
+/** A non-streamed `/api/v1/detect` body, discriminated by `success`. */
+export type DetectApiResponse = Infer<typeof DetectApiResponseSchema>;
+
+/** One line of a streamed (`stream=true`) `/api/detect` NDJSON response. */
+export type DetectStreamEvent = Infer<typeof DetectStreamEventSchema>;
+
+/** One redacted area in the audit list of a `/api/v1/redact` response. */
+export type RedactedRegion = Infer<typeof RedactedRegionSchema>;
+
+export type RedactResponse = Infer<typeof RedactResponseSchema>;
+
+/** A `/api/v1/redact` body, discriminated by `success`. */
+export type RedactApiResponse = Infer<typeof RedactApiResponseSchema>;
+
+/** A bulk detection job as returned by `/api/v1/jobs`. */
+export type Job = Infer<typeof JobSchema>;
+
+/** One image of a job, with its result or error once it ran. */
+export type JobItem = Infer<typeof JobItemSchema>;
+
+/** A `/api/v1/jobs` body, discriminated by `success`. */
+export type JobApiResponse = Infer<typeof JobApiResponseSchema>;
@@ -0,0 +1,38 @@
+import { DetectionResult } from "./detection";
+
+export interface InferenceHistoryItem {
+  id: string;
+  imageUrl: string;
+  originalFilename: string;
+  imageSizeBytes: number;
+  imageWidth: number;
+  imageHeight: number;
+  model: string | null;
+  provider: string;
+  detectionResults: DetectionResult[];
+  createdAt: string;
+  detectionCount: number;
+}
+
+export interface PaginationInfo {
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  limit: number;
+}
+
+export interface InferenceHistoryResponse {
+  success: boolean;
+  data: {
+    inferences: InferenceHistoryItem[];
+    pagination: PaginationInfo;
+  };
+  timestamp: string;
+}
+
+export interface GetInferenceResponse {
+  success: boolean;
+  data: InferenceHistoryItem;
+}